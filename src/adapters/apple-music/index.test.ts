@@ -0,0 +1,1246 @@
+import { describe, expect, test } from "bun:test";
+import {
+  AbortError,
+  AppleMusicApiError,
+  AuthenticationError,
+  MusixError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+  UnsupportedOperationError,
+  ValidationError,
+} from "../../core/errors";
+import type { MusicAdapter, MusicUserAdapter } from "../../core/types";
+import { type RecordedRequest, useStubServer } from "../stub-server";
+import { createAppleMusicAdapter, createAppleMusicUserAdapter } from "./index";
+
+// Local stub of the Apple Music API; each test installs its own handler
+const stub = useStubServer(() => Response.json({ data: [] }));
+
+const createAdapter = () =>
+  createAppleMusicAdapter({
+    developerToken: "dev-token",
+    storefront: "jp",
+    baseUrl: stub.url,
+  });
+
+const createUserAdapter = () =>
+  createAppleMusicUserAdapter({
+    developerToken: "dev-token",
+    musicUserToken: "user-token",
+    baseUrl: stub.url,
+  });
+
+const lastRequestUrl = () => stub.requests[stub.requests.length - 1].url;
+
+// Mock Apple Music API resources
+const createMockSong = (overrides: Record<string, unknown> = {}) => ({
+  id: "1440935467",
+  type: "songs",
+  attributes: {
+    name: "Hotel California",
+    artistName: "Eagles",
+    albumName: "Hotel California (2013 Remaster)",
+    durationInMillis: 391376,
+    releaseDate: "1976-12-08",
+    url: "https://music.apple.com/jp/album/hotel-california/1440935461?i=1440935467",
+    artwork: {
+      url: "https://is1-ssl.mzstatic.com/image/{w}x{h}bb.jpg",
+      width: 3000,
+      height: 3000,
+    },
+    previews: [{ url: "https://audio-ssl.itunes.apple.com/preview.m4a" }],
+  },
+  ...overrides,
+});
+
+const createMockAlbum = (overrides: Record<string, unknown> = {}) => ({
+  id: "1440935461",
+  type: "albums",
+  attributes: {
+    name: "Hotel California (2013 Remaster)",
+    artistName: "Eagles",
+    releaseDate: "1976-12-08",
+    trackCount: 9,
+    url: "https://music.apple.com/jp/album/hotel-california/1440935461",
+    artwork: {
+      url: "https://is1-ssl.mzstatic.com/image/{w}x{h}bb.jpg",
+      width: 3000,
+      height: 3000,
+    },
+  },
+  relationships: {
+    artists: { data: [{ id: "106621", type: "artists" }] },
+  },
+  ...overrides,
+});
+
+const createMockArtist = (overrides: Record<string, unknown> = {}) => ({
+  id: "106621",
+  type: "artists",
+  attributes: {
+    name: "Eagles",
+    genreNames: ["Rock"],
+    url: "https://music.apple.com/jp/artist/eagles/106621",
+  },
+  ...overrides,
+});
+
+const createMockPlaylist = (overrides: Record<string, unknown> = {}) => ({
+  id: "pl.f4d106fed2bd41149aaacabb233eb5eb",
+  type: "playlists",
+  attributes: {
+    name: "Today's Hits",
+    curatorName: "Apple Music",
+    description: { standard: "The biggest songs right now." },
+    url: "https://music.apple.com/jp/playlist/todays-hits/pl.f4d106fed2bd41149aaacabb233eb5eb",
+  },
+  ...overrides,
+});
+
+const errorResponse = (
+  status: number,
+  detail: string,
+  headers: Record<string, string> = {},
+) =>
+  Response.json(
+    { errors: [{ status: String(status), title: "Error", detail }] },
+    { status, headers },
+  );
+
+describe("createAppleMusicAdapter", () => {
+  describe("Adapter Interface Compliance", () => {
+    test("should satisfy the service-neutral MusicAdapter interface", () => {
+      // Given/When: Creating an adapter
+      const adapter: MusicAdapter = createAdapter();
+
+      // Then: The service discriminator identifies Apple Music
+      expect(adapter.service).toBe("apple-music");
+    });
+
+    test("should report catalog-only capabilities", () => {
+      // Given: An adapter
+      const adapter = createAdapter();
+
+      // Then: Optional features are unsupported and batch limits are Apple's
+      expect(adapter.supports("playback")).toBe(false);
+      expect(adapter.supports("recommendations")).toBe(false);
+      expect(adapter.capabilities.maxBatchIds).toEqual({
+        tracks: 300,
+        albums: 100,
+        artists: 100,
+      });
+    });
+  });
+
+  describe("Request Handling", () => {
+    test("should send the developer token as a bearer token", async () => {
+      // Given: The stub returns a song
+      stub.handler = () => Response.json({ data: [createMockSong()] });
+
+      // When: Fetching a track
+      await createAdapter().getTrack("1440935467");
+
+      // Then: The developer token is sent and no user token is attached
+      const request = stub.requests[0];
+      expect(request.headers.get("authorization")).toBe("Bearer dev-token");
+      expect(request.headers.get("music-user-token")).toBeNull();
+    });
+
+    test("should use the configured storefront in catalog paths", async () => {
+      // Given: The stub returns a song
+      stub.handler = () => Response.json({ data: [createMockSong()] });
+
+      // When: Fetching a track
+      await createAdapter().getTrack("1440935467");
+
+      // Then: The storefront is part of the path
+      expect(lastRequestUrl().pathname).toBe("/v1/catalog/jp/songs/1440935467");
+    });
+
+    test("should default to the us storefront", async () => {
+      // Given: An adapter without storefront
+      stub.handler = () => Response.json({ data: [createMockSong()] });
+      const adapter = createAppleMusicAdapter({
+        developerToken: "dev-token",
+        baseUrl: stub.url,
+      });
+
+      // When: Fetching a track
+      await adapter.getTrack("1440935467");
+
+      // Then: The us storefront is used
+      expect(lastRequestUrl().pathname).toBe("/v1/catalog/us/songs/1440935467");
+    });
+
+    test("should report the storefront as the region of the adapter", () => {
+      expect(createAdapter().region).toBe("jp");
+    });
+  });
+
+  describe("getTrack", () => {
+    test("should map a song to Track", async () => {
+      // Given: The stub returns a song without included relationships
+      stub.handler = () => Response.json({ data: [createMockSong()] });
+
+      // When: Fetching a track
+      const track = await createAdapter().getTrack("1440935467");
+
+      // Then: Attributes are mapped and the album is derived from the URL
+      expect(track.id).toBe("1440935467");
+      expect(track.name).toBe("Hotel California");
+      expect(track.durationMs).toBe(391376);
+      expect(track.previewUrl).toBe(
+        "https://audio-ssl.itunes.apple.com/preview.m4a",
+      );
+      expect(track.artists[0].name).toBe("Eagles");
+      expect(track.album.id).toBe("1440935461");
+      expect(track.album.name).toBe("Hotel California (2013 Remaster)");
+      expect(track.album.images[0]).toEqual({
+        url: "https://is1-ssl.mzstatic.com/image/3000x3000bb.jpg",
+        width: 3000,
+        height: 3000,
+      });
+    });
+
+    test("should prefer included artist and album relationships", async () => {
+      // Given: The song includes artists and albums
+      stub.handler = () =>
+        Response.json({
+          data: [
+            createMockSong({
+              relationships: {
+                artists: { data: [createMockArtist()] },
+                albums: { data: [createMockAlbum()] },
+              },
+            }),
+          ],
+        });
+
+      // When: Fetching a track
+      const track = await createAdapter().getTrack("1440935467");
+
+      // Then: Related resources are used
+      expect(track.artists[0].id).toBe("106621");
+      expect(track.album.totalTracks).toBe(9);
+    });
+
+    test("should map ISRC, content rating and track position", async () => {
+      // Given: A song with an explicit content rating and track position
+      const song = createMockSong();
+      Object.assign(song.attributes, {
+        isrc: "USEE11300353",
+        contentRating: "explicit",
+        trackNumber: 1,
+        discNumber: 2,
+      });
+      stub.handler = () => Response.json({ data: [song] });
+
+      // When: Fetching a track
+      const track = await createAdapter().getTrack("1440935467");
+
+      // Then: The attributes are mapped onto the track
+      expect(track.isrc).toBe("USEE11300353");
+      expect(track.explicit).toBe(true);
+      expect(track.trackNumber).toBe(1);
+      expect(track.discNumber).toBe(2);
+    });
+
+    test("should treat songs without an explicit rating as not explicit", async () => {
+      // Given: A song without a content rating
+      stub.handler = () => Response.json({ data: [createMockSong()] });
+
+      // When: Fetching a track
+      const track = await createAdapter().getTrack("1440935467");
+
+      // Then: explicit is false
+      expect(track.explicit).toBe(false);
+    });
+
+    test("should set previewUrl to null when no preview exists", async () => {
+      // Given: A song without previews
+      const song = createMockSong();
+      song.attributes.previews = [];
+      stub.handler = () => Response.json({ data: [song] });
+
+      // When: Fetching a track
+      const track = await createAdapter().getTrack("1440935467");
+
+      // Then: previewUrl is null
+      expect(track.previewUrl).toBeNull();
+    });
+
+    test("should throw NotFoundError for 404 responses", async () => {
+      // Given: The stub answers 404
+      stub.handler = () => errorResponse(404, "Resource Not Found");
+
+      // When/Then: NotFoundError carries the resource type, ID and status
+      const promise = createAdapter().getTrack("missing");
+      await expect(promise).rejects.toBeInstanceOf(NotFoundError);
+      await expect(promise).rejects.toMatchObject({
+        resourceType: "track",
+        resourceId: "missing",
+        service: "apple-music",
+        status: 404,
+      });
+    });
+  });
+
+  describe("getTracks", () => {
+    test("should request all IDs in one call", async () => {
+      // Given: The stub returns two songs
+      stub.handler = () =>
+        Response.json({
+          data: [createMockSong(), createMockSong({ id: "1440935468" })],
+        });
+
+      // When: Fetching multiple tracks
+      const tracks = await createAdapter().getTracks([
+        "1440935467",
+        "1440935468",
+      ]);
+
+      // Then: IDs are comma separated
+      expect(tracks).toHaveLength(2);
+      expect(lastRequestUrl().searchParams.get("ids")).toBe(
+        "1440935467,1440935468",
+      );
+    });
+
+    test("should return an empty array without a request for no IDs", async () => {
+      const tracks = await createAdapter().getTracks([]);
+
+      expect(tracks).toEqual([]);
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    test("should throw ValidationError for more than 300 IDs", async () => {
+      const ids = Array.from({ length: 301 }, (_, i) => String(i));
+
+      await expect(createAdapter().getTracks(ids)).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+    });
+  });
+
+  describe("Bulk Lookups", () => {
+    // Returns every requested song except those whose ID starts with "missing"
+    const respondWithRequestedSongs = ({ url }: RecordedRequest) =>
+      Response.json({
+        data: (url.searchParams.get("ids") ?? "")
+          .split(",")
+          .filter((id) => !id.startsWith("missing"))
+          .reverse()
+          .map((id) => createMockSong({ id })),
+      });
+
+    test("should split IDs beyond the batch limit into several requests", async () => {
+      // Given: 301 IDs, one more than a single request accepts
+      stub.handler = respondWithRequestedSongs;
+      const ids = Array.from({ length: 301 }, (_, i) => String(i));
+
+      // When: Fetching them in bulk
+      const result = await createAdapter().getTracksBulk(ids);
+
+      // Then: Two requests are sent and every track is returned in input order
+      expect(
+        stub.requests.map(
+          (request) => request.url.searchParams.get("ids")?.split(",").length,
+        ),
+      ).toEqual([300, 1]);
+      expect(result.items.map((track) => track?.id)).toEqual(ids);
+      expect(result.missingIds).toEqual([]);
+    });
+
+    test("should keep a null slot for every ID that was not found", async () => {
+      // Given: Two of the requested songs do not exist
+      stub.handler = respondWithRequestedSongs;
+
+      // When: Fetching them in bulk
+      const result = await createAdapter().getTracksBulk([
+        "1",
+        "missing-1",
+        "2",
+        "missing-2",
+        "missing-1",
+      ]);
+
+      // Then: Missing IDs are reported once and their slots are null
+      expect(result.items.map((track) => track?.id ?? null)).toEqual([
+        "1",
+        null,
+        "2",
+        null,
+        null,
+      ]);
+      expect(result.missingIds).toEqual(["missing-1", "missing-2"]);
+    });
+
+    test("should request duplicate IDs once", async () => {
+      stub.handler = respondWithRequestedSongs;
+
+      const result = await createAdapter().getTracksBulk(["1", "1", "2"]);
+
+      expect(result.items.map((track) => track?.id)).toEqual(["1", "1", "2"]);
+      expect(lastRequestUrl().searchParams.get("ids")).toBe("1,2");
+    });
+
+    test("should chunk albums by the album limit", async () => {
+      // Given: 250 album IDs with a limit of 100 per request
+      stub.handler = ({ url }) =>
+        Response.json({
+          data: (url.searchParams.get("ids") ?? "")
+            .split(",")
+            .map((id) => createMockAlbum({ id })),
+        });
+      const ids = Array.from({ length: 250 }, (_, i) => `album-${i}`);
+
+      // When: Fetching them in bulk with one request at a time
+      const result = await createAdapter().getAlbumsBulk(ids, {
+        concurrency: 1,
+      });
+
+      // Then: Three requests are sent in order
+      expect(
+        stub.requests.map(
+          (request) => request.url.searchParams.get("ids")?.split(",").length,
+        ),
+      ).toEqual([100, 100, 50]);
+      expect(result.items.map((album) => album?.id)).toEqual(ids);
+    });
+
+    test("should return an empty result without a request for no IDs", async () => {
+      const result = await createAdapter().getArtistsBulk([]);
+
+      expect(result).toEqual({ items: [], missingIds: [] });
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    test("should throw ValidationError for a concurrency below 1", async () => {
+      await expect(
+        createAdapter().getTracksBulk(["1"], { concurrency: 0 }),
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe("Lookup Coalescing", () => {
+    const createCoalescingAdapter = () =>
+      createAppleMusicAdapter({
+        developerToken: "dev-token",
+        storefront: "jp",
+        baseUrl: stub.url,
+        coalesceLookups: true,
+      });
+
+    test("should send lookups made in the same tick as one batch request", async () => {
+      // Given: The stub returns every requested song
+      stub.handler = ({ url }) =>
+        Response.json({
+          data: (url.searchParams.get("ids") ?? "")
+            .split(",")
+            .map((id) => createMockSong({ id })),
+        });
+      const adapter = createCoalescingAdapter();
+
+      // When: Three tracks are requested at once, one of them twice
+      const tracks = await Promise.all(
+        ["1", "2", "1", "3"].map((id) => adapter.getTrack(id)),
+      );
+
+      // Then: A single request resolves every caller with its own track
+      expect(tracks.map((track) => track.id)).toEqual(["1", "2", "1", "3"]);
+      expect(stub.requests).toHaveLength(1);
+      expect(lastRequestUrl().searchParams.get("ids")).toBe("1,2,3");
+    });
+
+    test("should reject only the callers of a missing ID with NotFoundError", async () => {
+      // Given: The second song does not exist
+      stub.handler = () =>
+        Response.json({ data: [createMockSong({ id: "1" })] });
+      const adapter = createCoalescingAdapter();
+
+      // When: Both songs are requested at once
+      const [found, missing] = await Promise.allSettled([
+        adapter.getTrack("1"),
+        adapter.getTrack("2"),
+      ]);
+
+      // Then: The first resolves and the second fails on its own
+      expect(found.status).toBe("fulfilled");
+      expect(missing.status).toBe("rejected");
+      const error = (missing as PromiseRejectedResult).reason;
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.resourceType).toBe("track");
+      expect(error.resourceId).toBe("2");
+      expect(error.service).toBe("apple-music");
+    });
+
+    test("should use the single-item endpoint for a lone lookup", async () => {
+      stub.handler = () => Response.json({ data: [createMockAlbum()] });
+
+      await createCoalescingAdapter().getAlbum("1440935461");
+
+      expect(lastRequestUrl().pathname).toBe(
+        "/v1/catalog/jp/albums/1440935461",
+      );
+    });
+
+    test("should reject every caller when the batch request fails", async () => {
+      stub.handler = () => new Response(null, { status: 401 });
+      const adapter = createCoalescingAdapter();
+
+      const results = await Promise.allSettled([
+        adapter.getArtist("1"),
+        adapter.getArtist("2"),
+      ]);
+
+      expect(
+        results.map(
+          (result) =>
+            (result as PromiseRejectedResult).reason instanceof
+            AuthenticationError,
+        ),
+      ).toEqual([true, true]);
+    });
+  });
+
+  describe("getAlbum / getArtist", () => {
+    test("should map an album to Album", async () => {
+      // Given: The stub returns an album with an unexpanded artist
+      stub.handler = () => Response.json({ data: [createMockAlbum()] });
+
+      // When: Fetching an album
+      const album = await createAdapter().getAlbum("1440935461");
+
+      // Then: Attributes are mapped
+      expect(album).toMatchObject({
+        id: "1440935461",
+        name: "Hotel California (2013 Remaster)",
+        releaseDate: { year: 1976, month: 12, day: 8, precision: "day" },
+        totalTracks: 9,
+        externalUrl:
+          "https://music.apple.com/jp/album/hotel-california/1440935461",
+      });
+      expect(album.artists[0]).toMatchObject({ id: "106621", name: "Eagles" });
+      expect(lastRequestUrl().searchParams.get("include")).toBe("artists");
+    });
+
+    test("should map label, UPC, copyright and genres", async () => {
+      // Given: An album with label, UPC, copyright and genres
+      const album = createMockAlbum();
+      Object.assign(album.attributes, {
+        recordLabel: "Rhino/Elektra",
+        upc: "081227966437",
+        copyright: "℗ 1976 Elektra/Asylum Records",
+        genreNames: ["Rock", "Music"],
+      });
+      stub.handler = () => Response.json({ data: [album] });
+
+      // When: Fetching an album
+      const result = await createAdapter().getAlbum("1440935461");
+
+      // Then: The attributes are mapped, with the ℗ statement typed "P"
+      expect(result).toMatchObject({
+        label: "Rhino/Elektra",
+        upc: "081227966437",
+        copyrights: [{ text: "℗ 1976 Elektra/Asylum Records", type: "P" }],
+        genres: ["Rock", "Music"],
+      });
+    });
+
+    test("should derive albumType from the single and compilation flags", async () => {
+      // Given: A single, a compilation and a regular album
+      const flags = [
+        { isSingle: true, isCompilation: false },
+        { isSingle: false, isCompilation: true },
+        { isSingle: false, isCompilation: false },
+      ];
+      stub.handler = () =>
+        Response.json({
+          data: flags.map((flag, index) => {
+            const album = createMockAlbum({ id: String(index) });
+            Object.assign(album.attributes, flag);
+            return album;
+          }),
+        });
+
+      // When: Fetching the albums
+      const albums = await createAdapter().getAlbums(["0", "1", "2"]);
+
+      // Then: Each album has its kind of release
+      expect(albums.map((album) => album.albumType)).toEqual([
+        "single",
+        "compilation",
+        "album",
+      ]);
+    });
+
+    test("should type copyright statements without ℗ as C", async () => {
+      // Given: An album with a © copyright statement
+      const album = createMockAlbum();
+      Object.assign(album.attributes, { copyright: "© 1976 Elektra Records" });
+      stub.handler = () => Response.json({ data: [album] });
+
+      // When: Fetching an album
+      const result = await createAdapter().getAlbum("1440935461");
+
+      // Then: The statement is typed "C"
+      expect(result.copyrights).toEqual([
+        { text: "© 1976 Elektra Records", type: "C" },
+      ]);
+    });
+
+    test("should map an artist to Artist", async () => {
+      // Given: The stub returns an artist
+      stub.handler = () => Response.json({ data: [createMockArtist()] });
+
+      // When: Fetching an artist
+      const artist = await createAdapter().getArtist("106621");
+
+      // Then: Genres are mapped
+      expect(artist).toEqual({
+        id: "106621",
+        name: "Eagles",
+        genres: ["Rock"],
+        images: undefined,
+        externalUrl: "https://music.apple.com/jp/artist/eagles/106621",
+      });
+    });
+
+    test("should reject filtering artist albums by type", async () => {
+      // When: Artist albums are requested with includeGroups
+      // Then: UnsupportedOperationError is thrown
+      await expect(
+        createAdapter().getArtistAlbums("106621", {
+          includeGroups: ["single"],
+        }),
+      ).rejects.toBeInstanceOf(UnsupportedOperationError);
+    });
+
+    test("should throw ValidationError for more than 100 album IDs", async () => {
+      const ids = Array.from({ length: 101 }, (_, i) => String(i));
+
+      await expect(createAdapter().getAlbums(ids)).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+    });
+  });
+
+  describe("getArtistTopTracks", () => {
+    test("should use the market as storefront", async () => {
+      // Given: The stub returns top songs
+      stub.handler = () => Response.json({ data: [createMockSong()] });
+
+      // When: Fetching top tracks for the US market
+      const tracks = await createAdapter().getArtistTopTracks("106621", "US");
+
+      // Then: The lower-cased market is the storefront
+      expect(tracks).toHaveLength(1);
+      expect(lastRequestUrl().pathname).toBe(
+        "/v1/catalog/us/artists/106621/view/top-songs",
+      );
+    });
+  });
+
+  describe("getAlbumTracks", () => {
+    test("should attach the album to each track", async () => {
+      // Given: The stub serves album and album tracks
+      stub.handler = ({ url }) =>
+        url.pathname.endsWith("/tracks")
+          ? Response.json({
+              data: [createMockSong()],
+              next: "/v1/catalog/jp/albums/1440935461/tracks?offset=1",
+              meta: { total: 9 },
+            })
+          : Response.json({ data: [createMockAlbum()] });
+
+      // When: Fetching album tracks
+      const result = await createAdapter().getAlbumTracks("1440935461", {
+        limit: 1,
+      });
+
+      // Then: Tracks carry the full album and pagination is mapped
+      expect(result.items[0].album.totalTracks).toBe(9);
+      expect(result.total).toBe(9);
+      expect(result.limit).toBe(1);
+      expect(result.hasNext).toBe(true);
+    });
+  });
+
+  describe("getPlaylist / getPlaylistTracks", () => {
+    test("should map a playlist with included tracks", async () => {
+      // Given: The stub returns a playlist with tracks
+      stub.handler = () =>
+        Response.json({
+          data: [
+            createMockPlaylist({
+              relationships: { tracks: { data: [createMockSong()] } },
+            }),
+          ],
+        });
+
+      // When: Fetching a playlist
+      const playlist = await createAdapter().getPlaylist(
+        "pl.f4d106fed2bd41149aaacabb233eb5eb",
+      );
+
+      // Then: Curator and description are mapped
+      expect(playlist.owner).toEqual({ id: "", displayName: "Apple Music" });
+      expect(playlist.description).toBe("The biggest songs right now.");
+      expect(playlist.tracks).toHaveLength(1);
+    });
+
+    test("should skip music videos in playlist tracks", async () => {
+      // Given: Playlist tracks include a music video
+      stub.handler = () =>
+        Response.json({
+          data: [
+            createMockSong(),
+            createMockSong({ id: "mv1", type: "music-videos" }),
+          ],
+        });
+
+      // When: Fetching playlist tracks
+      const result = await createAdapter().getPlaylistTracks("pl.1");
+
+      // Then: Only songs are returned and the last page is detected
+      expect(result.items.map((track) => track.id)).toEqual(["1440935467"]);
+      expect(result.hasNext).toBe(false);
+    });
+  });
+
+  describe("Request Deduplication", () => {
+    test("should share one request among identical concurrent reads", async () => {
+      // Given: The stub returns a playlist
+      stub.handler = () => Response.json({ data: [createMockPlaylist()] });
+      const adapter = createAdapter();
+
+      // When: The same playlist is requested twice at the same moment
+      const [first, second] = await Promise.all([
+        adapter.getPlaylist("pl.1"),
+        adapter.getPlaylist("pl.1"),
+      ]);
+
+      // Then: One request is sent and both callers get the playlist
+      expect(stub.requests).toHaveLength(1);
+      expect(second).toBe(first);
+    });
+
+    test("should send separate requests for different arguments", async () => {
+      stub.handler = () => Response.json({ data: [createMockSong()] });
+      const adapter = createAdapter();
+
+      await Promise.all([
+        adapter.getPlaylistTracks("pl.1"),
+        adapter.getPlaylistTracks("pl.1", { offset: 100 }),
+      ]);
+
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    test("should send a new request once the previous one has settled", async () => {
+      stub.handler = () => Response.json({ data: [createMockPlaylist()] });
+      const adapter = createAdapter();
+
+      await adapter.getPlaylist("pl.1");
+      await adapter.getPlaylist("pl.1");
+
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    test("should not share requests when dedupeRequests is false", async () => {
+      stub.handler = () => Response.json({ data: [createMockPlaylist()] });
+      const adapter = createAppleMusicAdapter({
+        developerToken: "dev-token",
+        baseUrl: stub.url,
+        dedupeRequests: false,
+      });
+
+      await Promise.all([
+        adapter.getPlaylist("pl.1"),
+        adapter.getPlaylist("pl.1"),
+      ]);
+
+      expect(stub.requests).toHaveLength(2);
+    });
+  });
+
+  describe("Cancellation", () => {
+    /** Answers with a playlist after a delay longer than any test timeout */
+    const slowPlaylist = async () => {
+      await Bun.sleep(200);
+      return Response.json({ data: [createMockPlaylist()] });
+    };
+
+    test("should throw TimeoutError when a call exceeds its timeout", async () => {
+      // Given: The stub answers slowly
+      stub.handler = slowPlaylist;
+      const adapter = createAdapter();
+
+      // When: A playlist is requested with a short timeout
+      // Then: The call times out instead of waiting for the response
+      await expect(
+        adapter.getPlaylist("pl.1", { timeoutMs: 20 }),
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    test("should apply the timeout of the config to calls that set none", async () => {
+      stub.handler = slowPlaylist;
+      const adapter = createAppleMusicAdapter({
+        developerToken: "dev-token",
+        baseUrl: stub.url,
+        timeoutMs: 20,
+      });
+
+      await expect(adapter.getPlaylist("pl.1")).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+    });
+
+    test("should throw AbortError when the signal is already aborted", async () => {
+      // Given: An aborted signal
+      const controller = new AbortController();
+      controller.abort();
+      const adapter = createAdapter();
+
+      // When: A track is requested with the signal
+      // Then: The call is rejected with AbortError
+      await expect(
+        adapter.getTrack("1", { signal: controller.signal }),
+      ).rejects.toBeInstanceOf(AbortError);
+    });
+
+    test("should not share a request with a call that can be aborted", async () => {
+      // Given: Two concurrent reads of the same playlist, one with a signal
+      stub.handler = () => Response.json({ data: [createMockPlaylist()] });
+      const adapter = createAdapter();
+
+      // When: Both are sent at the same moment
+      await Promise.all([
+        adapter.getPlaylist("pl.1"),
+        adapter.getPlaylist("pl.1", { signal: new AbortController().signal }),
+      ]);
+
+      // Then: Each call sends its own request
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    test("should pass the signal of a bulk lookup to every batch", async () => {
+      // Given: An aborted signal
+      const controller = new AbortController();
+      controller.abort();
+      const adapter = createAdapter();
+
+      // When: Tracks are looked up in bulk with the signal
+      // Then: The lookup is rejected before any request is answered
+      await expect(
+        adapter.getTracksBulk(["1", "2"], { signal: controller.signal }),
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe("Search", () => {
+    test("should search songs with term, type and pagination", async () => {
+      // Given: The stub returns search results
+      stub.handler = () =>
+        Response.json({
+          results: { songs: { data: [createMockSong()] } },
+        });
+
+      // When: Searching tracks
+      const result = await createAdapter().searchTracks("hotel california", {
+        limit: 10,
+        offset: 5,
+      });
+
+      // Then: Query parameters and result are mapped
+      const url = lastRequestUrl();
+      expect(url.pathname).toBe("/v1/catalog/jp/search");
+      expect(url.searchParams.get("term")).toBe("hotel california");
+      expect(url.searchParams.get("types")).toBe("songs");
+      expect(url.searchParams.get("offset")).toBe("5");
+      expect(result.items).toHaveLength(1);
+      expect(result.limit).toBe(10);
+      expect(result.offset).toBe(5);
+    });
+
+    test("should cap the limit at 25", async () => {
+      stub.handler = () => Response.json({ results: {} });
+
+      const result = await createAdapter().searchAlbums("eagles", {
+        limit: 50,
+      });
+
+      expect(result.limit).toBe(25);
+      expect(lastRequestUrl().searchParams.get("limit")).toBe("25");
+    });
+
+    test("should return empty results when the group is missing", async () => {
+      // Given: The search response has no artists group
+      stub.handler = () => Response.json({ results: {} });
+
+      // When: Searching artists
+      const result = await createAdapter().searchArtists("nothing");
+
+      // Then: The result is empty
+      expect(result.items).toEqual([]);
+      expect(result.total).toBe(0);
+    });
+
+    test("should map playlists to SimplifiedPlaylist", async () => {
+      // Given: The stub returns a playlist
+      stub.handler = () =>
+        Response.json({
+          results: { playlists: { data: [createMockPlaylist()] } },
+        });
+
+      // When: Searching playlists
+      const result = await createAdapter().searchPlaylists("hits");
+
+      // Then: The playlist is simplified
+      expect(result.items[0]).toMatchObject({
+        id: "pl.f4d106fed2bd41149aaacabb233eb5eb",
+        name: "Today's Hits",
+        totalTracks: 0,
+      });
+    });
+  });
+
+  describe("Async Iterators", () => {
+    test("should follow pages until no next link is returned", async () => {
+      // Given: Two pages of playlist tracks
+      stub.handler = ({ url }) =>
+        url.searchParams.get("offset") === "0"
+          ? Response.json({
+              data: [createMockSong({ id: "1" })],
+              next: "/v1/catalog/jp/playlists/pl.1/tracks?offset=1",
+            })
+          : Response.json({ data: [createMockSong({ id: "2" })] });
+
+      // When: Iterating with a page size of 1
+      const ids: string[] = [];
+      for await (const track of createAdapter().iteratePlaylistTracks("pl.1", {
+        pageSize: 1,
+      })) {
+        ids.push(track.id);
+      }
+
+      // Then: Both pages are read
+      expect(ids).toEqual(["1", "2"]);
+      expect(
+        stub.requests.map((request) => request.url.searchParams.get("offset")),
+      ).toEqual(["0", "1"]);
+    });
+
+    test("should advance search pages by the capped page size", async () => {
+      // Given: Search results reporting 30 songs in total
+      stub.handler = ({ url }) =>
+        Response.json({
+          results: {
+            songs: {
+              data: [createMockSong({ id: url.searchParams.get("offset") })],
+              meta: { total: 30 },
+            },
+          },
+        });
+
+      // When: Iterating with the default page size
+      const ids: string[] = [];
+      for await (const track of createAdapter().iterateSearchTracks("q")) {
+        ids.push(track.id);
+      }
+
+      // Then: Pages start at 0 and 25 (Apple Music search max)
+      expect(ids).toEqual(["0", "25"]);
+    });
+  });
+
+  describe("Error Handling", () => {
+    test("should throw AuthenticationError for 401 responses", async () => {
+      stub.handler = () => new Response(null, { status: 401 });
+
+      await expect(createAdapter().getTrack("1")).rejects.toBeInstanceOf(
+        AuthenticationError,
+      );
+    });
+
+    test("should name the Music User Token in 401 errors of user adapters", async () => {
+      stub.handler = () => new Response(null, { status: 401 });
+
+      const promise = createUserAdapter().getSavedTracks();
+      await expect(promise).rejects.toBeInstanceOf(AuthenticationError);
+      await expect(promise).rejects.toMatchObject({
+        message: "Invalid or expired Music User Token or developer token",
+      });
+    });
+
+    test("should throw a non-retryable AppleMusicApiError for a malformed body", async () => {
+      // Given: A 200 response whose body is not JSON, e.g. from a proxy
+      stub.handler = () =>
+        new Response("<html>Sign in</html>", { status: 200 });
+
+      // When: A track is requested
+      const error = await createAdapter()
+        .getTrack("1")
+        .catch((error: unknown) => error);
+
+      // Then: The failure is reported as an API error that is not retried
+      expect(error).toBeInstanceOf(AppleMusicApiError);
+      expect(error).toMatchObject({ statusCode: 200, retryable: false });
+    });
+
+    test("should throw RateLimitError with Retry-After for 429 responses", async () => {
+      stub.handler = () =>
+        errorResponse(429, "Too Many Requests", { "Retry-After": "12" });
+
+      const promise = createAdapter().getAlbum("1");
+      await expect(promise).rejects.toBeInstanceOf(RateLimitError);
+      await expect(promise).rejects.toMatchObject({ retryAfter: 12 });
+    });
+
+    test("should throw AppleMusicApiError for other statuses", async () => {
+      stub.handler = () => errorResponse(500, "Upstream failure");
+
+      const promise = createAdapter().getArtist("1");
+      await expect(promise).rejects.toBeInstanceOf(AppleMusicApiError);
+      await expect(promise).rejects.toMatchObject({
+        statusCode: 500,
+        message: "Apple Music API error: 500 Upstream failure",
+      });
+    });
+
+    test("should report the service on every error", async () => {
+      // Given: The API rejects the developer token
+      stub.handler = () => new Response(null, { status: 401 });
+
+      // When: A track is requested
+      const error = await createAdapter()
+        .getTrack("1")
+        .catch((error: unknown) => error);
+
+      // Then: The error can be handled as a MusixError of Apple Music
+      expect(error).toBeInstanceOf(MusixError);
+      expect(error).toMatchObject({
+        code: "AUTHENTICATION_FAILED",
+        service: "apple-music",
+        retryable: false,
+      });
+    });
+
+    test("should throw NetworkError when the server is unreachable", async () => {
+      const adapter = createAppleMusicAdapter({
+        developerToken: "dev-token",
+        baseUrl: "http://127.0.0.1:1",
+      });
+
+      await expect(adapter.getTrack("1")).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    test("should retry server errors when a retry policy is configured", async () => {
+      // Given: The first request fails with 503
+      let calls = 0;
+      stub.handler = () =>
+        calls++ === 0
+          ? errorResponse(503, "Service Unavailable")
+          : Response.json({ data: [createMockSong()] });
+      const retried: string[] = [];
+      const adapter = createAppleMusicAdapter({
+        developerToken: "dev-token",
+        baseUrl: stub.url,
+        retry: {
+          baseDelayMs: 1,
+          onRetry: ({ method }) => retried.push(method),
+        },
+      });
+
+      // When: A track is requested
+      const track = await adapter.getTrack("1440935467");
+
+      // Then: The second attempt succeeds
+      expect(track.id).toBe("1440935467");
+      expect(stub.requests).toHaveLength(2);
+      expect(retried).toEqual(["getTrack"]);
+    });
+  });
+});
+
+describe("createAppleMusicUserAdapter", () => {
+  test("should satisfy the service-neutral MusicUserAdapter interface", () => {
+    const adapter: MusicUserAdapter = createUserAdapter();
+
+    expect(adapter.service).toBe("apple-music");
+  });
+
+  test("should send the Music User Token", async () => {
+    // When: Fetching saved tracks
+    await createUserAdapter().getSavedTracks();
+
+    // Then: Both tokens are sent
+    expect(stub.requests[0].headers.get("authorization")).toBe(
+      "Bearer dev-token",
+    );
+    expect(stub.requests[0].headers.get("music-user-token")).toBe("user-token");
+  });
+
+  test("should map library songs with library IDs", async () => {
+    // Given: The stub returns a library song
+    stub.handler = () =>
+      Response.json({
+        data: [
+          {
+            id: "i.abc123",
+            type: "library-songs",
+            attributes: {
+              name: "Hotel California",
+              artistName: "Eagles",
+              albumName: "Hotel California",
+              durationInMillis: 391376,
+            },
+          },
+        ],
+        meta: { total: 1 },
+      });
+
+    // When: Fetching saved tracks
+    const result = await createUserAdapter().getSavedTracks({ limit: 10 });
+
+    // Then: Library resources are mapped
+    expect(lastRequestUrl().pathname).toBe("/v1/me/library/songs");
+    expect(result.items[0]).toMatchObject({
+      id: "i.abc123",
+      name: "Hotel California",
+      durationMs: 391376,
+    });
+    expect(result).toMatchObject({ total: 1, limit: 10, hasNext: false });
+  });
+
+  test("should iterate over library albums", async () => {
+    // Given: One page of library albums
+    stub.handler = () =>
+      Response.json({
+        data: [
+          {
+            id: "l.abc123",
+            type: "library-albums",
+            attributes: { name: "Hotel California", artistName: "Eagles" },
+          },
+        ],
+      });
+
+    // When: Iterating over saved albums
+    const ids: string[] = [];
+    for await (const album of createUserAdapter().iterateSavedAlbums()) {
+      ids.push(album.id);
+    }
+
+    // Then: Iteration stops after the page without next link
+    expect(ids).toEqual(["l.abc123"]);
+    expect(stub.requests).toHaveLength(1);
+    expect(lastRequestUrl().searchParams.get("limit")).toBe("50");
+  });
+
+  test("should save catalog songs and albums to the library", async () => {
+    // Given: The library endpoint accepts the request
+    stub.handler = () => new Response(null, { status: 202 });
+    const adapter = createUserAdapter();
+
+    // When: Saving a track and an album
+    await adapter.saveTrack("1440935467");
+    await adapter.saveAlbum("1440935461");
+
+    // Then: IDs are passed by resource type
+    expect(stub.requests.map((request) => request.method)).toEqual([
+      "POST",
+      "POST",
+    ]);
+    expect(stub.requests[0].url.searchParams.get("ids[songs]")).toBe(
+      "1440935467",
+    );
+    expect(stub.requests[1].url.searchParams.get("ids[albums]")).toBe(
+      "1440935461",
+    );
+  });
+
+  test("should send every concurrent mutation", async () => {
+    // Given: The library endpoint accepts the request
+    stub.handler = () => new Response(null, { status: 202 });
+    const adapter = createUserAdapter();
+
+    // When: The same track is saved twice at the same moment
+    await Promise.all([
+      adapter.saveTrack("1440935467"),
+      adapter.saveTrack("1440935467"),
+    ]);
+
+    // Then: Both requests reach the service
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  test("should remove library items by library ID", async () => {
+    stub.handler = () => new Response(null, { status: 204 });
+
+    await createUserAdapter().removeSavedAlbum("l.abc123");
+
+    expect(stub.requests[0].method).toBe("DELETE");
+    expect(lastRequestUrl().pathname).toBe("/v1/me/library/albums/l.abc123");
+  });
+
+  test("should create a library playlist", async () => {
+    // Given: The stub returns the created playlist
+    stub.handler = () =>
+      Response.json(
+        {
+          data: [
+            {
+              id: "p.new",
+              type: "library-playlists",
+              attributes: { name: "Road Trip" },
+            },
+          ],
+        },
+        { status: 201 },
+      );
+
+    // When: Creating a playlist
+    const playlist = await createUserAdapter().createPlaylist("Road Trip", {
+      description: "Songs for the drive",
+    });
+
+    // Then: The body carries the attributes
+    expect(JSON.parse(stub.requests[0].body)).toEqual({
+      attributes: { name: "Road Trip", description: "Songs for the drive" },
+    });
+    expect(playlist).toMatchObject({ id: "p.new", name: "Road Trip" });
+    expect(playlist.tracks).toEqual([]);
+  });
+
+  test("should add tracks to a library playlist", async () => {
+    stub.handler = () => new Response(null, { status: 204 });
+
+    await createUserAdapter().addTracksToPlaylist("p.1", ["1", "2"]);
+
+    expect(lastRequestUrl().pathname).toBe(
+      "/v1/me/library/playlists/p.1/tracks",
+    );
+    expect(JSON.parse(stub.requests[0].body)).toEqual({
+      data: [
+        { id: "1", type: "songs" },
+        { id: "2", type: "songs" },
+      ],
+    });
+  });
+
+  test("should reject unsupported playlist operations", async () => {
+    const adapter = createUserAdapter();
+
+    await expect(
+      adapter.updatePlaylistDetails("p.1", { name: "New" }),
+    ).rejects.toBeInstanceOf(UnsupportedOperationError);
+    await expect(
+      adapter.createPlaylist("Shared", { collaborative: true }),
+    ).rejects.toBeInstanceOf(UnsupportedOperationError);
+    expect(stub.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,1707 @@
+import { type BulkLookups, createBulkLookups } from "../../core/bulk";
+import { type FetchFunction, bindFetch } from "../../core/call-options";
+import { isFeatureSupported } from "../../core/capabilities";
+import {
+  AppleMusicApiError,
+  AuthenticationError,
+  MusixError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  UnsupportedOperationError,
+  ValidationError,
+} from "../../core/errors";
+import {
+  type CatalogIterators,
+  type LibraryIterators,
+  createCatalogIterators,
+  createLibraryIterators,
+} from "../../core/pagination";
+import { parseReleaseDate } from "../../core/release-date";
+import { applyRequestOptions } from "../../core/request-options";
+import type {
+  AdapterCapabilities,
+  AdapterFeature,
+  AdapterFeatureMap,
+  Album,
+  AlbumType,
+  AppleMusicAdapter,
+  AppleMusicConfig,
+  AppleMusicUserAdapter,
+  AppleMusicUserAuthConfig,
+  Artist,
+  ArtistAlbumsOptions,
+  CallOptions,
+  Copyright,
+  CreatePlaylistOptions,
+  Image,
+  PaginatedResult,
+  Playlist,
+  SearchOptions,
+  SearchResult,
+  SimplifiedPlaylist,
+  Track,
+  User,
+} from "../../core/types";
+
+/** Default Apple Music API base URL */
+const DEFAULT_BASE_URL = "https://api.music.apple.com";
+
+/** Default storefront used for catalog requests */
+const DEFAULT_STOREFRONT = "us";
+
+/** Maximum page size of the search endpoint */
+const MAX_SEARCH_LIMIT = 25;
+
+/** Maximum page size of relationship and library endpoints */
+const MAX_PAGE_LIMIT = 100;
+
+/** Maximum number of IDs accepted by Apple Music's multiple-resource endpoints */
+const APPLE_MUSIC_MAX_BATCH_IDS = { tracks: 300, albums: 100, artists: 100 };
+
+/**
+ * Capabilities of the developer-token adapter.
+ * Only catalog data is reachable without a Music User Token.
+ */
+const APPLE_MUSIC_CAPABILITIES: AdapterCapabilities = {
+  playback: false,
+  recommendations: false,
+  relatedArtists: false,
+  collaborativePlaylists: false,
+  userProfile: false,
+  followedArtists: false,
+  listeningHistory: false,
+  newReleases: false,
+  podcasts: false,
+  audiobooks: false,
+  maxBatchIds: APPLE_MUSIC_MAX_BATCH_IDS,
+};
+
+/**
+ * Capabilities of the user-authenticated adapter.
+ * Playback is only available through MusicKit, not the REST API.
+ */
+const APPLE_MUSIC_USER_CAPABILITIES: AdapterCapabilities = {
+  ...APPLE_MUSIC_CAPABILITIES,
+};
+
+/** Apple Music artwork (URL template with {w} and {h} placeholders) */
+interface AppleMusicArtwork {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+/** Apple Music editorial notes */
+interface AppleMusicEditorialNotes {
+  standard?: string;
+  short?: string;
+}
+
+/** JSON:API relationship */
+interface AppleMusicRelationship<T> {
+  href?: string;
+  next?: string;
+  data?: T[];
+}
+
+/** JSON:API resource */
+interface AppleMusicResource<TType extends string, TAttributes> {
+  id: string;
+  type: TType;
+  href?: string;
+  attributes?: TAttributes;
+  relationships?: {
+    artists?: AppleMusicRelationship<AppleMusicArtist>;
+    albums?: AppleMusicRelationship<AppleMusicAlbum>;
+    tracks?: AppleMusicRelationship<AppleMusicSong>;
+  };
+}
+
+type AppleMusicSong = AppleMusicResource<
+  "songs",
+  {
+    name: string;
+    artistName: string;
+    albumName: string;
+    artwork?: AppleMusicArtwork;
+    durationInMillis: number;
+    releaseDate?: string;
+    url: string;
+    previews?: Array<{ url: string }>;
+    isrc?: string;
+    /** Absent when the song has no rating */
+    contentRating?: "explicit" | "clean";
+    trackNumber?: number;
+    discNumber?: number;
+  }
+>;
+
+type AppleMusicAlbum = AppleMusicResource<
+  "albums",
+  {
+    name: string;
+    artistName: string;
+    artwork?: AppleMusicArtwork;
+    releaseDate?: string;
+    trackCount: number;
+    url: string;
+    recordLabel?: string;
+    upc?: string;
+    /** Single statement, e.g. "℗ 1976 Elektra Records" */
+    copyright?: string;
+    genreNames?: string[];
+    isSingle?: boolean;
+    isCompilation?: boolean;
+  }
+>;
+
+type AppleMusicArtist = AppleMusicResource<
+  "artists",
+  {
+    name: string;
+    genreNames?: string[];
+    artwork?: AppleMusicArtwork;
+    url: string;
+  }
+>;
+
+type AppleMusicPlaylist = AppleMusicResource<
+  "playlists",
+  {
+    name: string;
+    curatorName?: string;
+    description?: AppleMusicEditorialNotes;
+    artwork?: AppleMusicArtwork;
+    trackCount?: number;
+    url: string;
+  }
+>;
+
+type AppleMusicLibrarySong = AppleMusicResource<
+  "library-songs",
+  {
+    name: string;
+    artistName: string;
+    albumName: string;
+    artwork?: AppleMusicArtwork;
+    durationInMillis: number;
+    releaseDate?: string;
+  }
+>;
+
+type AppleMusicLibraryAlbum = AppleMusicResource<
+  "library-albums",
+  {
+    name: string;
+    artistName: string;
+    artwork?: AppleMusicArtwork;
+    releaseDate?: string;
+    trackCount: number;
+  }
+>;
+
+type AppleMusicLibraryPlaylist = AppleMusicResource<
+  "library-playlists",
+  {
+    name: string;
+    description?: AppleMusicEditorialNotes;
+    artwork?: AppleMusicArtwork;
+  }
+>;
+
+/** Response containing a list of resources */
+interface AppleMusicDataResponse<T> {
+  data: T[];
+  next?: string;
+  meta?: { total?: number };
+}
+
+/** Search response grouped by resource type */
+interface AppleMusicSearchResponse {
+  results: {
+    songs?: AppleMusicDataResponse<AppleMusicSong>;
+    albums?: AppleMusicDataResponse<AppleMusicAlbum>;
+    artists?: AppleMusicDataResponse<AppleMusicArtist>;
+    playlists?: AppleMusicDataResponse<AppleMusicPlaylist>;
+  };
+}
+
+/**
+ * Error thrown by the request helper for non-2xx responses.
+ * Carries status and headers so transformError can classify it.
+ */
+class AppleMusicHttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+  /** Whether the request carried a Music User Token */
+  hasUserToken: boolean;
+
+  constructor(
+    message: string,
+    status: number,
+    headers: Record<string, string>,
+    hasUserToken: boolean,
+  ) {
+    super(message);
+    this.name = "AppleMusicHttpError";
+    this.status = status;
+    this.headers = headers;
+    this.hasUserToken = hasUserToken;
+  }
+}
+
+/** Options for a single Apple Music API request */
+interface AppleMusicRequestOptions {
+  method?: "GET" | "POST" | "DELETE";
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+/** Performs an authenticated request against the Apple Music API */
+type AppleMusicRequest = <T>(
+  path: string,
+  options?: AppleMusicRequestOptions,
+) => Promise<T>;
+
+/**
+ * Creates a request function bound to the configured base URL and tokens.
+ * @param config - Apple Music configuration
+ * @param musicUserToken - Optional Music User Token for /v1/me endpoints
+ * @param fetchImpl - Fetch bound to the signal and timeout of a call, if any
+ * @returns Request function resolving to the parsed JSON body
+ */
+function createRequest(
+  config: AppleMusicConfig,
+  musicUserToken?: string,
+  fetchImpl: FetchFunction = (input, init) => fetch(input, init),
+): AppleMusicRequest {
+  const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  return async <T>(
+    path: string,
+    options: AppleMusicRequestOptions = {},
+  ): Promise<T> => {
+    const url = new URL(`${baseUrl}${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${config.developerToken}`,
+    };
+    if (musicUserToken) {
+      headers["Music-User-Token"] = musicUserToken;
+    }
+    if (options.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const response = await fetchImpl(url, {
+      method: options.method ?? "GET",
+      headers,
+      body:
+        options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+
+    if (!response.ok) {
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key.toLowerCase()] = value;
+      });
+
+      // Prefer the JSON:API error detail, fall back to the raw body
+      let message = response.statusText || `HTTP ${response.status}`;
+      try {
+        const body = await response.text();
+        const parsed = JSON.parse(body) as {
+          errors?: Array<{ title?: string; detail?: string }>;
+        };
+        message =
+          parsed.errors?.[0]?.detail ?? parsed.errors?.[0]?.title ?? body;
+      } catch {
+        // Ignore body parsing errors
+      }
+
+      throw new AppleMusicHttpError(
+        message,
+        response.status,
+        responseHeaders,
+        Boolean(musicUserToken),
+      );
+    }
+
+    // 202 Accepted / 204 No Content responses have no body
+    const text = await response.text();
+    if (!text) {
+      return undefined as T;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new AppleMusicApiError(response.status, "Invalid JSON response");
+    }
+  };
+}
+
+/** Returns the request function to use for one adapter call */
+type AppleMusicRequestBinder = (
+  callOptions: CallOptions | undefined,
+) => AppleMusicRequest;
+
+/**
+ * Creates a request binder. Calls without a signal or timeout share one
+ * request function; other calls get one whose fetch is bound to them.
+ * @param config - Apple Music configuration
+ * @param musicUserToken - Optional Music User Token for /v1/me endpoints
+ * @returns Binder called at the start of every method
+ */
+function createRequestBinder(
+  config: AppleMusicConfig,
+  musicUserToken?: string,
+): AppleMusicRequestBinder {
+  const request = createRequest(config, musicUserToken);
+  return (callOptions) => {
+    const fetchImpl = bindFetch(callOptions, config.timeoutMs);
+    return fetchImpl
+      ? createRequest(config, musicUserToken, fetchImpl)
+      : request;
+  };
+}
+
+/**
+ * Transforms an Apple Music error to the appropriate musix.js error type.
+ * @param error - The error thrown by the request helper
+ * @param resourceType - The type of resource being accessed (for NotFoundError)
+ * @param resourceId - The ID of the resource being accessed (for NotFoundError)
+ * @returns The appropriate musix.js error
+ */
+function transformError(
+  error: unknown,
+  resourceType: "track" | "album" | "artist" | "playlist",
+  resourceId: string,
+): Error {
+  if (error instanceof AppleMusicHttpError) {
+    const options = { status: error.status };
+    switch (error.status) {
+      case 401:
+        return new AuthenticationError(
+          error.hasUserToken
+            ? "Invalid or expired Music User Token or developer token"
+            : "Invalid or expired developer token",
+          options,
+        );
+      case 404:
+        return new NotFoundError(resourceType, resourceId, options);
+      case 429: {
+        const retryAfter = error.headers["retry-after"]
+          ? Number.parseInt(error.headers["retry-after"], 10)
+          : 60; // Default to 60 seconds if header is missing
+        return new RateLimitError(retryAfter, options);
+      }
+      default:
+        return new AppleMusicApiError(
+          error.status,
+          error.message || "Unknown error",
+        );
+    }
+  }
+
+  // Errors thrown by musix.js itself, such as TimeoutError, are already classified
+  if (error instanceof MusixError) {
+    return error;
+  }
+
+  // Handle network errors (fetch failures)
+  if (error instanceof Error) {
+    return new NetworkError(error.message, error);
+  }
+
+  // Handle non-Error objects
+  return new NetworkError(String(error));
+}
+
+/**
+ * Executes an API call and maps failures to musix.js errors.
+ * @param apiCall - The API call to execute
+ * @param resourceType - The type of resource being accessed (for error messages)
+ * @param resourceId - The ID of the resource being accessed (for error messages)
+ * @returns The result of the API call
+ */
+async function execute<T>(
+  apiCall: () => Promise<T>,
+  resourceType: "track" | "album" | "artist" | "playlist",
+  resourceId: string,
+): Promise<T> {
+  try {
+    return await apiCall();
+  } catch (error) {
+    throw transformError(error, resourceType, resourceId);
+  }
+}
+
+/**
+ * Returns the first resource of a response or throws NotFoundError.
+ * Apple Music wraps single resources in a `data` array.
+ */
+function firstOrNotFound<T>(
+  response: AppleMusicDataResponse<T>,
+  resourceType: "track" | "album" | "artist" | "playlist",
+  resourceId: string,
+): T {
+  const resource = response.data[0];
+  if (!resource) {
+    throw new NotFoundError(resourceType, resourceId);
+  }
+  return resource;
+}
+
+/**
+ * Transforms Apple Music artwork to musix.js Image.
+ * The URL template is resolved to the artwork's native size.
+ * @param artwork - Apple Music artwork
+ * @returns musix.js Image
+ */
+function transformArtwork(artwork: AppleMusicArtwork): Image {
+  const width = artwork.width ?? null;
+  const height = artwork.height ?? null;
+  return {
+    url: artwork.url
+      .replace("{w}", String(width ?? 640))
+      .replace("{h}", String(height ?? 640)),
+    width,
+    height,
+  };
+}
+
+/**
+ * Converts optional artwork to an images array.
+ * @param artwork - Apple Music artwork, if present
+ * @returns Array with zero or one musix.js Image
+ */
+function transformArtworkList(artwork: AppleMusicArtwork | undefined): Image[] {
+  return artwork ? [transformArtwork(artwork)] : [];
+}
+
+/**
+ * Transforms an Apple Music artist resource to musix.js Artist.
+ * @param artist - Apple Music artist resource
+ * @returns musix.js Artist
+ */
+function transformArtist(artist: AppleMusicArtist): Artist {
+  const attributes = artist.attributes;
+  return {
+    id: artist.id,
+    name: attributes?.name ?? "",
+    genres:
+      attributes?.genreNames && attributes.genreNames.length > 0
+        ? attributes.genreNames
+        : undefined,
+    images: attributes?.artwork
+      ? [transformArtwork(attributes.artwork)]
+      : undefined,
+    externalUrl: attributes?.url ?? "",
+  };
+}
+
+/**
+ * Resolves the artists of a song or album.
+ * Uses the included artists relationship when available, otherwise
+ * falls back to the artistName attribute.
+ * @param resource - Apple Music song or album
+ * @param artistName - Display name of the artist(s)
+ * @returns Array of musix.js Artist
+ */
+function resolveArtists(
+  resource: { relationships?: AppleMusicSong["relationships"] },
+  artistName: string,
+): Artist[] {
+  const related = resource.relationships?.artists?.data ?? [];
+  if (related.length > 0) {
+    return related.map((artist) =>
+      artist.attributes
+        ? transformArtist(artist)
+        : { id: artist.id, name: artistName, externalUrl: "" },
+    );
+  }
+  return [{ id: "", name: artistName, externalUrl: "" }];
+}
+
+/**
+ * Transforms an Apple Music album resource to musix.js Album.
+ * @param album - Apple Music album resource
+ * @returns musix.js Album
+ */
+function transformAlbum(album: AppleMusicAlbum): Album {
+  const attributes = album.attributes;
+  return {
+    id: album.id,
+    name: attributes?.name ?? "",
+    artists: resolveArtists(album, attributes?.artistName ?? ""),
+    releaseDate: parseReleaseDate(attributes?.releaseDate),
+    totalTracks: attributes?.trackCount ?? 0,
+    images: transformArtworkList(attributes?.artwork),
+    externalUrl: attributes?.url ?? "",
+    albumType: attributes ? transformAlbumType(attributes) : undefined,
+    label: attributes?.recordLabel,
+    upc: attributes?.upc,
+    copyrights: attributes?.copyright
+      ? [transformCopyright(attributes.copyright)]
+      : undefined,
+    genres: attributes?.genreNames,
+  };
+}
+
+/**
+ * Derives the kind of release from the album flags.
+ * @param attributes - Attributes of an Apple Music album
+ * @returns musix.js AlbumType
+ */
+function transformAlbumType(
+  attributes: NonNullable<AppleMusicAlbum["attributes"]>,
+): AlbumType {
+  if (attributes.isCompilation) {
+    return "compilation";
+  }
+  return attributes.isSingle ? "single" : "album";
+}
+
+/**
+ * Transforms an Apple Music copyright statement to musix.js Copyright.
+ * Statements starting with "℗" cover the sound recording.
+ * @param text - Copyright attribute of an album
+ * @returns musix.js Copyright
+ */
+function transformCopyright(text: string): Copyright {
+  return { text, type: text.startsWith("℗") ? "P" : "C" };
+}
+
+/**
+ * Builds the album of a song.
+ * Uses the included albums relationship when available, otherwise derives
+ * the album from the song URL (https://music.apple.com/{sf}/album/{slug}/{albumId}?i={songId}).
+ * @param song - Apple Music song resource
+ * @param artists - Already resolved song artists
+ * @returns musix.js Album
+ */
+function resolveSongAlbum(song: AppleMusicSong, artists: Artist[]): Album {
+  const related = song.relationships?.albums?.data?.[0];
+  if (related?.attributes) {
+    return transformAlbum(related);
+  }
+
+  const attributes = song.attributes;
+  let albumId = related?.id ?? "";
+  let albumUrl = "";
+  if (attributes?.url) {
+    const url = new URL(attributes.url);
+    url.search = "";
+    albumUrl = url.toString();
+    albumId ||= url.pathname.split("/").pop() ?? "";
+  }
+
+  return {
+    id: albumId,
+    name: attributes?.albumName ?? "",
+    artists,
+    releaseDate: parseReleaseDate(attributes?.releaseDate),
+    totalTracks: 0,
+    images: transformArtworkList(attributes?.artwork),
+    externalUrl: albumUrl,
+  };
+}
+
+/**
+ * Transforms an Apple Music song resource to musix.js Track.
+ * @param song - Apple Music song resource
+ * @returns musix.js Track
+ */
+function transformSong(song: AppleMusicSong): Track {
+  const attributes = song.attributes;
+  const artists = resolveArtists(song, attributes?.artistName ?? "");
+  return {
+    id: song.id,
+    name: attributes?.name ?? "",
+    artists,
+    album: resolveSongAlbum(song, artists),
+    durationMs: attributes?.durationInMillis ?? 0,
+    previewUrl: attributes?.previews?.[0]?.url ?? null,
+    externalUrl: attributes?.url ?? "",
+    isrc: attributes?.isrc,
+    explicit: attributes ? attributes.contentRating === "explicit" : undefined,
+    trackNumber: attributes?.trackNumber,
+    discNumber: attributes?.discNumber,
+  };
+}
+
+/**
+ * Transforms an Apple Music song to musix.js Track using album info.
+ * @param song - Apple Music song resource (from album tracks endpoint)
+ * @param album - musix.js Album object to attach to the track
+ * @returns musix.js Track
+ */
+function transformSongWithAlbum(song: AppleMusicSong, album: Album): Track {
+  return {
+    ...transformSong(song),
+    album,
+  };
+}
+
+/**
+ * Builds the owner of a catalog playlist.
+ * Apple Music only exposes the curator's display name.
+ * @param curatorName - Curator name attribute
+ * @returns musix.js User
+ */
+function playlistOwner(curatorName: string | undefined): User {
+  return {
+    id: "",
+    displayName: curatorName ?? "",
+  };
+}
+
+/**
+ * Transforms an Apple Music catalog playlist to musix.js Playlist.
+ * Tracks are taken from the included tracks relationship.
+ * @param playlist - Apple Music playlist resource
+ * @returns musix.js Playlist
+ */
+function transformPlaylist(playlist: AppleMusicPlaylist): Playlist {
+  const attributes = playlist.attributes;
+  const tracks = (playlist.relationships?.tracks?.data ?? [])
+    .filter((item) => item.type === "songs")
+    .map(transformSong);
+
+  return {
+    id: playlist.id,
+    name: attributes?.name ?? "",
+    description: attributes?.description?.standard ?? null,
+    owner: playlistOwner(attributes?.curatorName),
+    tracks,
+    images: transformArtworkList(attributes?.artwork),
+    externalUrl: attributes?.url ?? "",
+  };
+}
+
+/**
+ * Transforms an Apple Music catalog playlist to musix.js SimplifiedPlaylist.
+ * @param playlist - Apple Music playlist resource
+ * @returns musix.js SimplifiedPlaylist
+ */
+function transformSimplifiedPlaylist(
+  playlist: AppleMusicPlaylist,
+): SimplifiedPlaylist {
+  const attributes = playlist.attributes;
+  return {
+    id: playlist.id,
+    name: attributes?.name ?? "",
+    description: attributes?.description?.standard ?? null,
+    owner: playlistOwner(attributes?.curatorName),
+    totalTracks: attributes?.trackCount ?? 0,
+    images: transformArtworkList(attributes?.artwork),
+    externalUrl: attributes?.url ?? "",
+  };
+}
+
+/**
+ * Transforms an Apple Music library song to musix.js Track.
+ * Library resources use library IDs and carry no web URL.
+ * @param song - Apple Music library song resource
+ * @returns musix.js Track
+ */
+function transformLibrarySong(song: AppleMusicLibrarySong): Track {
+  const attributes = song.attributes;
+  const artists: Artist[] = [
+    { id: "", name: attributes?.artistName ?? "", externalUrl: "" },
+  ];
+  return {
+    id: song.id,
+    name: attributes?.name ?? "",
+    artists,
+    album: {
+      id: "",
+      name: attributes?.albumName ?? "",
+      artists,
+      releaseDate: parseReleaseDate(attributes?.releaseDate),
+      totalTracks: 0,
+      images: transformArtworkList(attributes?.artwork),
+      externalUrl: "",
+    },
+    durationMs: attributes?.durationInMillis ?? 0,
+    previewUrl: null,
+    externalUrl: "",
+  };
+}
+
+/**
+ * Transforms an Apple Music library album to musix.js Album.
+ * @param album - Apple Music library album resource
+ * @returns musix.js Album
+ */
+function transformLibraryAlbum(album: AppleMusicLibraryAlbum): Album {
+  const attributes = album.attributes;
+  return {
+    id: album.id,
+    name: attributes?.name ?? "",
+    artists: [{ id: "", name: attributes?.artistName ?? "", externalUrl: "" }],
+    releaseDate: parseReleaseDate(attributes?.releaseDate),
+    totalTracks: attributes?.trackCount ?? 0,
+    images: transformArtworkList(attributes?.artwork),
+    externalUrl: "",
+  };
+}
+
+/**
+ * Transforms an Apple Music library playlist to musix.js SimplifiedPlaylist.
+ * Library playlists do not report a track count, so totalTracks is 0.
+ * @param playlist - Apple Music library playlist resource
+ * @returns musix.js SimplifiedPlaylist
+ */
+function transformLibraryPlaylist(
+  playlist: AppleMusicLibraryPlaylist,
+): SimplifiedPlaylist {
+  const attributes = playlist.attributes;
+  return {
+    id: playlist.id,
+    name: attributes?.name ?? "",
+    description: attributes?.description?.standard ?? null,
+    owner: { id: "", displayName: "" },
+    totalTracks: 0,
+    images: transformArtworkList(attributes?.artwork),
+    externalUrl: "",
+  };
+}
+
+/**
+ * Builds a PaginatedResult from an Apple Music list response.
+ * Apple Music reports `meta.total` only on some endpoints; the `next`
+ * link is used to determine whether more pages exist.
+ */
+function toPaginatedResult<TSource, TItem>(
+  response: AppleMusicDataResponse<TSource>,
+  transform: (item: TSource) => TItem,
+  limit: number,
+  offset: number,
+): PaginatedResult<TItem> {
+  const items = response.data.map(transform);
+  return {
+    items,
+    total: response.meta?.total ?? offset + items.length,
+    limit,
+    offset,
+    hasNext: Boolean(response.next),
+  };
+}
+
+/**
+ * Builds a SearchResult from one result group of a search response.
+ */
+function toSearchResult<TSource, TItem>(
+  group: AppleMusicDataResponse<TSource> | undefined,
+  transform: (item: TSource) => TItem,
+  limit: number,
+  offset: number,
+): SearchResult<TItem> {
+  const items = (group?.data ?? []).map(transform);
+  return {
+    items,
+    total: group?.meta?.total ?? offset + items.length,
+    limit,
+    offset,
+  };
+}
+
+/**
+ * Validates the number of IDs of a multiple-resource request.
+ * @throws {ValidationError} If more than `max` IDs are provided
+ */
+function validateBatchSize(method: string, ids: string[], max: number): void {
+  if (ids.length > max) {
+    throw new ValidationError(
+      `${method} accepts maximum ${max} IDs, received ${ids.length}`,
+    );
+  }
+}
+
+/**
+ * Creates the catalog methods shared by both Apple Music adapters.
+ * @param bindRequest - Returns the request function bound to the options of a call
+ * @param storefront - Storefront used for catalog requests
+ */
+function createCatalogMethods(
+  bindRequest: AppleMusicRequestBinder,
+  storefront: string,
+): Omit<
+  AppleMusicAdapter,
+  | "service"
+  | "capabilities"
+  | "supports"
+  | keyof CatalogIterators
+  | keyof BulkLookups
+> {
+  const catalog = `/v1/catalog/${storefront}`;
+
+  /**
+   * Searches the catalog for a single resource type.
+   */
+  async function search(
+    request: AppleMusicRequest,
+    query: string,
+    type: "songs" | "albums" | "artists" | "playlists",
+    options: SearchOptions | undefined,
+  ): Promise<{
+    response: AppleMusicSearchResponse;
+    limit: number;
+    offset: number;
+  }> {
+    // Limit is capped at 25 (Apple Music search max)
+    const limit = Math.min(options?.limit ?? 20, MAX_SEARCH_LIMIT);
+    const offset = options?.offset ?? 0;
+
+    const response = await request<AppleMusicSearchResponse>(
+      `${catalog}/search`,
+      { query: { term: query, types: type, limit, offset } },
+    );
+    return { response, limit, offset };
+  }
+
+  const methods: Omit<
+    AppleMusicAdapter,
+    | "service"
+    | "capabilities"
+    | "supports"
+    | keyof CatalogIterators
+    | keyof BulkLookups
+  > = {
+    /**
+     * Retrieves a song by its Apple Music catalog ID.
+     * @param id - The Apple Music song ID
+     * @returns Promise resolving to Track object
+     * @throws {NotFoundError} If the song does not exist
+     */
+    async getTrack(id: string, callOptions?: CallOptions): Promise<Track> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicSong>
+          >(`${catalog}/songs/${encodeURIComponent(id)}`, {
+            query: { include: "albums,artists" },
+          });
+          return transformSong(firstOrNotFound(response, "track", id));
+        },
+        "track",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves multiple songs by their catalog IDs.
+     * IDs that do not exist are omitted from the result.
+     * @param ids - Array of Apple Music song IDs (maximum 300)
+     * @returns Promise resolving to array of Track objects
+     * @throws {ValidationError} If more than 300 IDs are provided
+     */
+    async getTracks(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Track[]> {
+      const request = bindRequest(callOptions);
+      if (ids.length === 0) {
+        return [];
+      }
+      validateBatchSize("getTracks", ids, APPLE_MUSIC_MAX_BATCH_IDS.tracks);
+
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicSong>
+          >(`${catalog}/songs`, {
+            query: { ids: ids.join(","), include: "albums,artists" },
+          });
+          return response.data.map(transformSong);
+        },
+        "track",
+        ids.join(","),
+      );
+    },
+
+    /**
+     * Searches for songs matching the query.
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing tracks
+     */
+    async searchTracks(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Track>> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const { response, limit, offset } = await search(
+            request,
+            query,
+            "songs",
+            options,
+          );
+          return toSearchResult(
+            response.results.songs,
+            transformSong,
+            limit,
+            offset,
+          );
+        },
+        "track",
+        query,
+      );
+    },
+
+    /**
+     * Searches for albums matching the query.
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing albums
+     */
+    async searchAlbums(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Album>> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const { response, limit, offset } = await search(
+            request,
+            query,
+            "albums",
+            options,
+          );
+          return toSearchResult(
+            response.results.albums,
+            transformAlbum,
+            limit,
+            offset,
+          );
+        },
+        "album",
+        query,
+      );
+    },
+
+    /**
+     * Searches for artists matching the query.
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing artists
+     */
+    async searchArtists(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Artist>> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const { response, limit, offset } = await search(
+            request,
+            query,
+            "artists",
+            options,
+          );
+          return toSearchResult(
+            response.results.artists,
+            transformArtist,
+            limit,
+            offset,
+          );
+        },
+        "artist",
+        query,
+      );
+    },
+
+    /**
+     * Searches for playlists matching the query.
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing simplified playlists
+     */
+    async searchPlaylists(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<SimplifiedPlaylist>> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const { response, limit, offset } = await search(
+            request,
+            query,
+            "playlists",
+            options,
+          );
+          return toSearchResult(
+            response.results.playlists,
+            transformSimplifiedPlaylist,
+            limit,
+            offset,
+          );
+        },
+        "playlist",
+        query,
+      );
+    },
+
+    /**
+     * Retrieves an album by its Apple Music catalog ID.
+     * @param id - The Apple Music album ID
+     * @returns Promise resolving to Album object
+     * @throws {NotFoundError} If the album does not exist
+     */
+    async getAlbum(id: string, callOptions?: CallOptions): Promise<Album> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicAlbum>
+          >(`${catalog}/albums/${encodeURIComponent(id)}`, {
+            query: { include: "artists" },
+          });
+          return transformAlbum(firstOrNotFound(response, "album", id));
+        },
+        "album",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves multiple albums by their catalog IDs.
+     * @param ids - Array of Apple Music album IDs (maximum 100)
+     * @returns Promise resolving to array of Album objects
+     * @throws {ValidationError} If more than 100 IDs are provided
+     */
+    async getAlbums(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Album[]> {
+      const request = bindRequest(callOptions);
+      if (ids.length === 0) {
+        return [];
+      }
+      validateBatchSize("getAlbums", ids, APPLE_MUSIC_MAX_BATCH_IDS.albums);
+
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicAlbum>
+          >(`${catalog}/albums`, {
+            query: { ids: ids.join(","), include: "artists" },
+          });
+          return response.data.map(transformAlbum);
+        },
+        "album",
+        ids.join(","),
+      );
+    },
+
+    /**
+     * Retrieves an artist by their Apple Music catalog ID.
+     * @param id - The Apple Music artist ID
+     * @returns Promise resolving to Artist object
+     * @throws {NotFoundError} If the artist does not exist
+     */
+    async getArtist(id: string, callOptions?: CallOptions): Promise<Artist> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicArtist>
+          >(`${catalog}/artists/${encodeURIComponent(id)}`);
+          return transformArtist(firstOrNotFound(response, "artist", id));
+        },
+        "artist",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves multiple artists by their catalog IDs.
+     * @param ids - Array of Apple Music artist IDs (maximum 100)
+     * @returns Promise resolving to array of Artist objects
+     * @throws {ValidationError} If more than 100 IDs are provided
+     */
+    async getArtists(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Artist[]> {
+      const request = bindRequest(callOptions);
+      if (ids.length === 0) {
+        return [];
+      }
+      validateBatchSize("getArtists", ids, APPLE_MUSIC_MAX_BATCH_IDS.artists);
+
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicArtist>
+          >(`${catalog}/artists`, { query: { ids: ids.join(",") } });
+          return response.data.map(transformArtist);
+        },
+        "artist",
+        ids.join(","),
+      );
+    },
+
+    /**
+     * Retrieves albums by an artist.
+     * @param artistId - The Apple Music artist ID
+     * @param options - Optional pagination options (limit, offset)
+     * @returns Promise resolving to PaginatedResult containing albums
+     * @throws {UnsupportedOperationError} If includeGroups is given
+     */
+    async getArtistAlbums(
+      artistId: string,
+      options?: ArtistAlbumsOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Album>> {
+      const request = bindRequest(callOptions);
+      if (options?.includeGroups) {
+        throw new UnsupportedOperationError(
+          "Filtering artist albums by type",
+          "Apple Music",
+        );
+      }
+      const limit = Math.min(options?.limit ?? 20, MAX_PAGE_LIMIT);
+      const offset = options?.offset ?? 0;
+
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicAlbum>
+          >(`${catalog}/artists/${encodeURIComponent(artistId)}/albums`, {
+            query: { limit, offset },
+          });
+          return toPaginatedResult(response, transformAlbum, limit, offset);
+        },
+        "artist",
+        artistId,
+      );
+    },
+
+    /**
+     * Retrieves an artist's top songs.
+     * @param artistId - The Apple Music artist ID
+     * @param market - Storefront (ISO 3166-1 alpha-2 country code, e.g., "US", "JP")
+     * @returns Promise resolving to array of Track objects
+     */
+    async getArtistTopTracks(
+      artistId: string,
+      market: string,
+      callOptions?: CallOptions,
+    ): Promise<Track[]> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicSong>
+          >(
+            `/v1/catalog/${market.toLowerCase()}/artists/${encodeURIComponent(artistId)}/view/top-songs`,
+          );
+          return response.data.map(transformSong);
+        },
+        "artist",
+        artistId,
+      );
+    },
+
+    /**
+     * Retrieves tracks from an album.
+     * @param albumId - The Apple Music album ID
+     * @param options - Optional pagination options (limit, offset)
+     * @returns Promise resolving to PaginatedResult containing tracks
+     */
+    async getAlbumTracks(
+      albumId: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Track>> {
+      const request = bindRequest(callOptions);
+      const limit = Math.min(options?.limit ?? 20, MAX_PAGE_LIMIT);
+      const offset = options?.offset ?? 0;
+      const path = `${catalog}/albums/${encodeURIComponent(albumId)}`;
+
+      return execute(
+        async () => {
+          // Fetch album info and tracks in parallel
+          const [albumResponse, tracksResponse] = await Promise.all([
+            request<AppleMusicDataResponse<AppleMusicAlbum>>(path, {
+              query: { include: "artists" },
+            }),
+            request<AppleMusicDataResponse<AppleMusicSong>>(`${path}/tracks`, {
+              query: { limit, offset },
+            }),
+          ]);
+
+          const album = transformAlbum(
+            firstOrNotFound(albumResponse, "album", albumId),
+          );
+
+          // Album tracks may include music videos; only songs are tracks
+          return toPaginatedResult(
+            {
+              ...tracksResponse,
+              data: tracksResponse.data.filter((item) => item.type === "songs"),
+            },
+            (song) => transformSongWithAlbum(song, album),
+            limit,
+            offset,
+          );
+        },
+        "album",
+        albumId,
+      );
+    },
+
+    /**
+     * Retrieves a playlist by its Apple Music catalog ID.
+     * @param id - The Apple Music playlist ID
+     * @returns Promise resolving to Playlist object
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async getPlaylist(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<Playlist> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicPlaylist>
+          >(`${catalog}/playlists/${encodeURIComponent(id)}`, {
+            query: { include: "tracks" },
+          });
+          return transformPlaylist(firstOrNotFound(response, "playlist", id));
+        },
+        "playlist",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves tracks from a playlist with pagination.
+     * @param playlistId - The Apple Music playlist ID
+     * @param options - Optional pagination options (limit, offset)
+     * @returns Promise resolving to PaginatedResult containing tracks
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async getPlaylistTracks(
+      playlistId: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Track>> {
+      const request = bindRequest(callOptions);
+      const limit = Math.min(options?.limit ?? 20, MAX_PAGE_LIMIT);
+      const offset = options?.offset ?? 0;
+
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicSong>
+          >(`${catalog}/playlists/${encodeURIComponent(playlistId)}/tracks`, {
+            query: { limit, offset },
+          });
+          return toPaginatedResult(
+            {
+              ...response,
+              data: response.data.filter((item) => item.type === "songs"),
+            },
+            transformSong,
+            limit,
+            offset,
+          );
+        },
+        "playlist",
+        playlistId,
+      );
+    },
+  };
+
+  return methods;
+}
+
+/**
+ * Creates an Apple Music adapter for catalog access using a developer token.
+ *
+ * @param config - Apple Music configuration with developerToken, storefront and optional baseUrl
+ * @returns AppleMusicAdapter instance
+ *
+ * @example
+ * ```typescript
+ * const adapter = createAppleMusicAdapter({
+ *   developerToken: "your-developer-token",
+ *   storefront: "jp",
+ * });
+ *
+ * const track = await adapter.getTrack("1440935467");
+ * ```
+ */
+export function createAppleMusicAdapter(
+  config: AppleMusicConfig,
+): AppleMusicAdapter {
+  const bindRequest = createRequestBinder(config);
+  const storefront = config.storefront ?? DEFAULT_STOREFRONT;
+
+  const adapter: Omit<
+    AppleMusicAdapter,
+    keyof CatalogIterators | keyof BulkLookups
+  > = {
+    service: "apple-music",
+    capabilities: APPLE_MUSIC_CAPABILITIES,
+    region: storefront,
+
+    supports<F extends AdapterFeature>(
+      feature: F,
+    ): this is AdapterFeatureMap[F] {
+      return isFeatureSupported(APPLE_MUSIC_CAPABILITIES, feature);
+    },
+
+    ...createCatalogMethods(bindRequest, storefront),
+  };
+
+  const configured = applyRequestOptions(adapter, config);
+  return {
+    ...configured,
+    ...createCatalogIterators(configured),
+    ...createBulkLookups(configured),
+  };
+}
+
+/**
+ * Creates an Apple Music adapter with user authentication.
+ * In addition to catalog access, this adapter covers the user's library
+ * and library playlists. The Music User Token must be obtained through
+ * MusicKit authorization beforehand.
+ *
+ * Note: library resources use library IDs (e.g. "i.abc123", "l.abc123",
+ * "p.abc123"). Saving takes catalog IDs, while removal and playlist edits
+ * take the library IDs returned by the getSaved and getUserPlaylists methods.
+ *
+ * @param config - Apple Music configuration with developerToken and musicUserToken
+ * @returns AppleMusicUserAdapter instance
+ *
+ * @example
+ * ```typescript
+ * const adapter = createAppleMusicUserAdapter({
+ *   developerToken: "your-developer-token",
+ *   musicUserToken: "music-user-token",
+ * });
+ *
+ * const saved = await adapter.getSavedTracks({ limit: 50 });
+ * ```
+ */
+export function createAppleMusicUserAdapter(
+  config: AppleMusicUserAuthConfig,
+): AppleMusicUserAdapter {
+  const bindRequest = createRequestBinder(config, config.musicUserToken);
+  const storefront = config.storefront ?? DEFAULT_STOREFRONT;
+
+  /**
+   * Fetches one page of a library collection.
+   */
+  async function getLibraryPage<TSource, TItem>(
+    request: AppleMusicRequest,
+    resource: "songs" | "albums" | "playlists",
+    transform: (item: TSource) => TItem,
+    options: SearchOptions | undefined,
+  ): Promise<PaginatedResult<TItem>> {
+    const limit = Math.min(options?.limit ?? 20, MAX_PAGE_LIMIT);
+    const offset = options?.offset ?? 0;
+
+    const response = await request<AppleMusicDataResponse<TSource>>(
+      `/v1/me/library/${resource}`,
+      { query: { limit, offset } },
+    );
+    return toPaginatedResult(response, transform, limit, offset);
+  }
+
+  const adapter: Omit<
+    AppleMusicUserAdapter,
+    keyof CatalogIterators | keyof BulkLookups | keyof LibraryIterators
+  > = {
+    service: "apple-music",
+    capabilities: APPLE_MUSIC_USER_CAPABILITIES,
+    region: storefront,
+
+    supports<F extends AdapterFeature>(
+      feature: F,
+    ): this is AdapterFeatureMap[F] {
+      return isFeatureSupported(APPLE_MUSIC_USER_CAPABILITIES, feature);
+    },
+
+    ...createCatalogMethods(bindRequest, storefront),
+
+    /**
+     * Gets songs saved in the user's library.
+     * @param options - Optional pagination options (limit, offset)
+     * @returns PaginatedResult containing library songs (with library IDs)
+     * @throws {AuthenticationError} If the developer token is invalid
+     * @throws {RateLimitError} If rate limit is exceeded
+     */
+    async getSavedTracks(
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Track>> {
+      const request = bindRequest(callOptions);
+      return execute(
+        () => getLibraryPage(request, "songs", transformLibrarySong, options),
+        "track",
+        "library",
+      );
+    },
+
+    /**
+     * Adds a catalog song to the user's library.
+     * @param id - The Apple Music catalog song ID
+     */
+    async saveTrack(id: string, callOptions?: CallOptions): Promise<void> {
+      const request = bindRequest(callOptions);
+      await execute(
+        () =>
+          request("/v1/me/library", {
+            method: "POST",
+            query: { "ids[songs]": id },
+          }),
+        "track",
+        id,
+      );
+    },
+
+    /**
+     * Removes a song from the user's library.
+     * @param id - The library song ID (as returned by getSavedTracks)
+     * @throws {NotFoundError} If the library song does not exist
+     */
+    async removeSavedTrack(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const request = bindRequest(callOptions);
+      await execute(
+        () =>
+          request(`/v1/me/library/songs/${encodeURIComponent(id)}`, {
+            method: "DELETE",
+          }),
+        "track",
+        id,
+      );
+    },
+
+    /**
+     * Gets albums saved in the user's library.
+     * @param options - Optional pagination options (limit, offset)
+     * @returns PaginatedResult containing library albums (with library IDs)
+     */
+    async getSavedAlbums(
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Album>> {
+      const request = bindRequest(callOptions);
+      return execute(
+        () => getLibraryPage(request, "albums", transformLibraryAlbum, options),
+        "album",
+        "library",
+      );
+    },
+
+    /**
+     * Adds a catalog album to the user's library.
+     * @param id - The Apple Music catalog album ID
+     */
+    async saveAlbum(id: string, callOptions?: CallOptions): Promise<void> {
+      const request = bindRequest(callOptions);
+      await execute(
+        () =>
+          request("/v1/me/library", {
+            method: "POST",
+            query: { "ids[albums]": id },
+          }),
+        "album",
+        id,
+      );
+    },
+
+    /**
+     * Removes an album from the user's library.
+     * @param id - The library album ID (as returned by getSavedAlbums)
+     * @throws {NotFoundError} If the library album does not exist
+     */
+    async removeSavedAlbum(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const request = bindRequest(callOptions);
+      await execute(
+        () =>
+          request(`/v1/me/library/albums/${encodeURIComponent(id)}`, {
+            method: "DELETE",
+          }),
+        "album",
+        id,
+      );
+    },
+
+    /**
+     * Gets the playlists in the user's library.
+     * @param options - Optional pagination options (limit, offset)
+     * @returns PaginatedResult containing library playlists
+     */
+    async getUserPlaylists(
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<SimplifiedPlaylist>> {
+      const request = bindRequest(callOptions);
+      return execute(
+        () =>
+          getLibraryPage(
+            request,
+            "playlists",
+            transformLibraryPlaylist,
+            options,
+          ),
+        "playlist",
+        "library",
+      );
+    },
+
+    /**
+     * Creates a playlist in the user's library.
+     * @param name - Playlist name
+     * @param options - Optional playlist options (description)
+     * @returns The created playlist (without tracks)
+     * @throws {UnsupportedOperationError} If a collaborative playlist is requested
+     */
+    async createPlaylist(
+      name: string,
+      options?: CreatePlaylistOptions,
+      callOptions?: CallOptions,
+    ): Promise<Playlist> {
+      const request = bindRequest(callOptions);
+      if (options?.collaborative) {
+        throw new UnsupportedOperationError(
+          "Collaborative playlists",
+          "Apple Music",
+        );
+      }
+
+      return execute(
+        async () => {
+          const response = await request<
+            AppleMusicDataResponse<AppleMusicLibraryPlaylist>
+          >("/v1/me/library/playlists", {
+            method: "POST",
+            body: {
+              attributes: { name, description: options?.description },
+            },
+          });
+          const playlist = transformLibraryPlaylist(
+            firstOrNotFound(response, "playlist", name),
+          );
+          return {
+            id: playlist.id,
+            name: playlist.name,
+            description: playlist.description,
+            owner: playlist.owner,
+            tracks: [],
+            images: playlist.images,
+            externalUrl: playlist.externalUrl,
+          };
+        },
+        "playlist",
+        name,
+      );
+    },
+
+    /**
+     * Updating playlist details is not offered by the Apple Music API.
+     * @throws {UnsupportedOperationError} Always
+     */
+    async updatePlaylistDetails(): Promise<void> {
+      throw new UnsupportedOperationError(
+        "updatePlaylistDetails",
+        "Apple Music",
+      );
+    },
+
+    /**
+     * Adds catalog songs to a library playlist.
+     * @param playlistId - The library playlist ID
+     * @param trackIds - Array of Apple Music catalog song IDs to add
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async addTracksToPlaylist(
+      playlistId: string,
+      trackIds: string[],
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const request = bindRequest(callOptions);
+      if (trackIds.length === 0) {
+        return;
+      }
+
+      await execute(
+        () =>
+          request(
+            `/v1/me/library/playlists/${encodeURIComponent(playlistId)}/tracks`,
+            {
+              method: "POST",
+              body: { data: trackIds.map((id) => ({ id, type: "songs" })) },
+            },
+          ),
+        "playlist",
+        playlistId,
+      );
+    },
+
+    /**
+     * Removes songs from a library playlist.
+     * @param playlistId - The library playlist ID
+     * @param trackIds - Array of song IDs to remove
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async removeTracksFromPlaylist(
+      playlistId: string,
+      trackIds: string[],
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const request = bindRequest(callOptions);
+      if (trackIds.length === 0) {
+        return;
+      }
+
+      await execute(
+        () =>
+          request(
+            `/v1/me/library/playlists/${encodeURIComponent(playlistId)}/tracks`,
+            {
+              method: "DELETE",
+              body: { data: trackIds.map((id) => ({ id, type: "songs" })) },
+            },
+          ),
+        "playlist",
+        playlistId,
+      );
+    },
+  };
+
+  const configured = applyRequestOptions(adapter, config);
+  return {
+    ...configured,
+    ...createCatalogIterators(configured),
+    ...createBulkLookups(configured),
+    ...createLibraryIterators(configured),
+  };
+}
@@ -0,0 +1,533 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import {
+  AuthenticationError,
+  MissingScopeError,
+  SpotifyApiError,
+} from "../../core/errors";
+import { createMemoryTokenStore } from "../../core/token-store";
+import type {
+  OAuthTokens,
+  SpotifyServerAuthConfig,
+  TokenRefreshedEvent,
+  TokenStore,
+} from "../../core/types";
+import { useStubServer } from "../stub-server";
+import { createSpotifyAuth } from "./auth";
+
+// Local stub of the Spotify accounts service; each test installs its own handler
+const stub = useStubServer(() =>
+  Response.json({
+    access_token: "access-1",
+    token_type: "Bearer",
+    scope: "user-read-private user-follow-read",
+    expires_in: 3600,
+    refresh_token: "refresh-1",
+  }),
+);
+
+/** Token store for the test client backed by a Map keyed by user ID */
+const createMapTokenStore = () => {
+  const tokens = new Map<string, OAuthTokens>();
+  const store: TokenStore = {
+    get: async ({ clientId, userId }) =>
+      clientId === "client-id" ? tokens.get(userId) : undefined,
+    set: async ({ clientId, userId }, value) => {
+      expect(clientId).toBe("client-id");
+      tokens.set(userId, value);
+    },
+    clear: async ({ userId }) => {
+      tokens.delete(userId);
+    },
+  };
+  return { tokens, store };
+};
+
+const createAuth = (
+  tokenStore: TokenStore,
+  overrides: Partial<SpotifyServerAuthConfig> = {},
+) =>
+  createSpotifyAuth({
+    clientId: "client-id",
+    redirectUri: "http://localhost:3000/callback",
+    scopes: ["user-read-private", "user-follow-read"],
+    tokenStore,
+    accountsUrl: stub.url,
+    ...overrides,
+  });
+
+const expiredTokens: OAuthTokens = {
+  accessToken: "expired-access",
+  refreshToken: "refresh-0",
+  expiresAt: Date.now() - 1000,
+  scopes: ["user-read-private"],
+};
+
+describe("createAuthorizationRequest", () => {
+  test("should build an authorize URL with an S256 code challenge", async () => {
+    // Given: An auth helper
+    const auth = createAuth(createMapTokenStore().store);
+
+    // When: An authorization request is created
+    const request = await auth.createAuthorizationRequest();
+
+    // Then: The URL carries the client, redirect URI, scopes and challenge
+    const url = new URL(request.url);
+    expect(`${url.origin}${url.pathname}`).toBe(`${stub.url}/authorize`);
+    expect(url.searchParams.get("client_id")).toBe("client-id");
+    expect(url.searchParams.get("response_type")).toBe("code");
+    expect(url.searchParams.get("redirect_uri")).toBe(
+      "http://localhost:3000/callback",
+    );
+    expect(url.searchParams.get("scope")).toBe(
+      "user-read-private user-follow-read",
+    );
+    expect(url.searchParams.get("state")).toBe(request.state);
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+
+    const digest = new Bun.CryptoHasher("sha256")
+      .update(request.codeVerifier)
+      .digest("base64url");
+    expect(url.searchParams.get("code_challenge")).toBe(digest);
+    expect(request.codeVerifier).toMatch(/^[A-Za-z0-9\-._~]{64}$/);
+  });
+
+  test("should skip random bytes that would bias the verifier", async () => {
+    // Given: Random bytes alternate between 250, which maps unevenly onto
+    // the 66-character alphabet, and 0
+    let count = 0;
+    const spy = spyOn(crypto, "getRandomValues").mockImplementation(
+      <T extends ArrayBufferView | null>(array: T): T => {
+        if (array instanceof Uint8Array) {
+          array.forEach((_, index) => {
+            array[index] = count++ % 2 === 0 ? 250 : 0;
+          });
+        }
+        return array;
+      },
+    );
+    const auth = createAuth(createMapTokenStore().store);
+
+    try {
+      // When: An authorization request is created
+      const request = await auth.createAuthorizationRequest();
+
+      // Then: Only the unbiased bytes are used, refilling to the full length
+      expect(request.codeVerifier).toBe("A".repeat(64));
+      expect(request.state).toBe("A".repeat(32));
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  test("should use the given state and a new verifier each time", async () => {
+    const auth = createAuth(createMapTokenStore().store);
+
+    const first = await auth.createAuthorizationRequest({
+      state: "session-state",
+      showDialog: true,
+    });
+    const second = await auth.createAuthorizationRequest();
+
+    expect(first.state).toBe("session-state");
+    expect(new URL(first.url).searchParams.get("show_dialog")).toBe("true");
+    expect(first.codeVerifier).not.toBe(second.codeVerifier);
+  });
+});
+
+describe("exchangeCode", () => {
+  test("should exchange the code with the verifier and store the tokens", async () => {
+    // Given: An auth helper with an empty store
+    const { tokens, store } = createMapTokenStore();
+    const auth = createAuth(store);
+
+    // When: The callback code is exchanged
+    const before = Date.now();
+    const result = await auth.exchangeCode("user-1", "auth-code", "verifier");
+
+    // Then: The token endpoint receives a PKCE authorization code grant
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].method).toBe("POST");
+    expect(stub.requests[0].url.pathname).toBe("/api/token");
+    expect(stub.requests[0].headers.get("authorization")).toBeNull();
+    expect(
+      Object.fromEntries(new URLSearchParams(stub.requests[0].body)),
+    ).toEqual({
+      client_id: "client-id",
+      grant_type: "authorization_code",
+      code: "auth-code",
+      redirect_uri: "http://localhost:3000/callback",
+      code_verifier: "verifier",
+    });
+
+    // And: The tokens are returned and persisted
+    expect(result.accessToken).toBe("access-1");
+    expect(result.refreshToken).toBe("refresh-1");
+    expect(result.scopes).toEqual(["user-read-private", "user-follow-read"]);
+    expect(result.expiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000);
+    expect(tokens.get("user-1")).toEqual(result);
+  });
+
+  test("should send client credentials when a secret is configured", async () => {
+    const auth = createAuth(createMapTokenStore().store, {
+      clientSecret: "secret",
+    });
+
+    await auth.exchangeCode("user-1", "auth-code", "verifier");
+
+    expect(stub.requests[0].headers.get("authorization")).toBe(
+      `Basic ${btoa("client-id:secret")}`,
+    );
+  });
+
+  test("should throw AuthenticationError when the code is rejected", async () => {
+    // Given: The token endpoint rejects the grant
+    stub.handler = () =>
+      Response.json(
+        {
+          error: "invalid_grant",
+          error_description: "Invalid authorization code",
+        },
+        { status: 400 },
+      );
+    const { tokens, store } = createMapTokenStore();
+    const auth = createAuth(store);
+
+    // When: The code is exchanged
+    // Then: AuthenticationError carries the OAuth error description
+    const promise = auth.exchangeCode("user-1", "bad-code", "verifier");
+    await expect(promise).rejects.toThrow(AuthenticationError);
+    await expect(promise).rejects.toThrow("Invalid authorization code");
+    await expect(promise).rejects.toMatchObject({
+      service: "spotify",
+      status: 400,
+    });
+    expect(tokens.size).toBe(0);
+  });
+
+  test("should throw SpotifyApiError for server errors", async () => {
+    stub.handler = () => new Response("Service unavailable", { status: 503 });
+    const auth = createAuth(createMapTokenStore().store);
+
+    await expect(
+      auth.exchangeCode("user-1", "auth-code", "verifier"),
+    ).rejects.toThrow(SpotifyApiError);
+  });
+
+  test("should throw SpotifyApiError for a successful response that is not JSON", async () => {
+    // Given: A proxy answers the token request with an HTML page
+    stub.handler = () =>
+      new Response("<html>Sign in to the network</html>", { status: 200 });
+    const { tokens, store } = createMapTokenStore();
+    const auth = createAuth(store);
+
+    // When: The code is exchanged
+    // Then: SpotifyApiError names the service and nothing is stored
+    const promise = auth.exchangeCode("user-1", "auth-code", "verifier");
+    await expect(promise).rejects.toThrow(SpotifyApiError);
+    await expect(promise).rejects.toMatchObject({
+      service: "spotify",
+      statusCode: 200,
+    });
+    expect(tokens.size).toBe(0);
+  });
+});
+
+describe("refreshTokens", () => {
+  test("should refresh with the stored refresh token and keep it when none is returned", async () => {
+    // Given: Stored tokens and an endpoint that does not rotate refresh tokens
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", expiredTokens);
+    stub.handler = () =>
+      Response.json({
+        access_token: "access-2",
+        token_type: "Bearer",
+        expires_in: 3600,
+      });
+    const auth = createAuth(store);
+
+    // When: The tokens are refreshed
+    const result = await auth.refreshTokens("user-1");
+
+    // Then: A refresh token grant is sent and the previous refresh token is kept
+    expect(
+      Object.fromEntries(new URLSearchParams(stub.requests[0].body)),
+    ).toEqual({
+      client_id: "client-id",
+      grant_type: "refresh_token",
+      refresh_token: "refresh-0",
+    });
+    expect(result.accessToken).toBe("access-2");
+    expect(result.refreshToken).toBe("refresh-0");
+    expect(result.scopes).toEqual(["user-read-private"]);
+    expect(tokens.get("user-1")).toEqual(result);
+  });
+
+  test("should emit onTokenRefreshed after storing the new tokens", async () => {
+    // Given: An auth helper with a refresh listener
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", expiredTokens);
+    const events: TokenRefreshedEvent[] = [];
+    const auth = createAuth(store, {
+      onTokenRefreshed: (event) => {
+        // The store is already up to date when the event fires
+        expect(tokens.get("user-1")).toEqual(event.tokens);
+        events.push(event);
+      },
+    });
+
+    // When: The tokens are refreshed
+    const result = await auth.refreshTokens("user-1");
+
+    // Then: One event describes the client, user and new tokens
+    expect(events).toEqual([
+      { clientId: "client-id", userId: "user-1", tokens: result },
+    ]);
+  });
+
+  test("should not emit onTokenRefreshed for the initial code exchange", async () => {
+    const events: TokenRefreshedEvent[] = [];
+    const auth = createAuth(createMapTokenStore().store, {
+      onTokenRefreshed: (event) => events.push(event),
+    });
+
+    await auth.exchangeCode("user-1", "auth-code", "verifier");
+
+    expect(events).toEqual([]);
+  });
+
+  test("should share one request between concurrent refreshes", async () => {
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", expiredTokens);
+    const auth = createAuth(store);
+
+    const [first, second] = await Promise.all([
+      auth.refreshTokens("user-1"),
+      auth.refreshTokens("user-1"),
+    ]);
+
+    expect(stub.requests).toHaveLength(1);
+    expect(first).toBe(second);
+  });
+
+  test("should throw AuthenticationError without a refresh token", async () => {
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", { ...expiredTokens, refreshToken: undefined });
+    const auth = createAuth(store);
+
+    await expect(auth.refreshTokens("user-1")).rejects.toThrow(
+      AuthenticationError,
+    );
+    expect(stub.requests).toHaveLength(0);
+  });
+});
+
+describe("getAccessToken", () => {
+  test("should return a stored token that is still valid without a request", async () => {
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", {
+      ...expiredTokens,
+      accessToken: "valid-access",
+      expiresAt: Date.now() + 30 * 60 * 1000,
+    });
+    const auth = createAuth(store);
+
+    expect(await auth.getAccessToken("user-1")).toBe("valid-access");
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  test("should refresh a token that has expired", async () => {
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", expiredTokens);
+    const auth = createAuth(store);
+
+    expect(await auth.getAccessToken("user-1")).toBe("access-1");
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  test("should throw AuthenticationError for an unknown user", async () => {
+    const auth = createAuth(createMapTokenStore().store);
+
+    const promise = auth.getAccessToken("unknown");
+    await expect(promise).rejects.toThrow(AuthenticationError);
+    await expect(promise).rejects.toMatchObject({ service: "spotify" });
+  });
+});
+
+describe("clearTokens", () => {
+  test("should remove the stored tokens of the user only", async () => {
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", expiredTokens);
+    tokens.set("user-2", expiredTokens);
+    const auth = createAuth(store);
+
+    await auth.clearTokens("user-1");
+
+    expect([...tokens.keys()]).toEqual(["user-2"]);
+    await expect(auth.getAccessToken("user-1")).rejects.toThrow(
+      AuthenticationError,
+    );
+  });
+});
+
+describe("token store keys", () => {
+  test("should keep tokens of different clients apart in a shared store", async () => {
+    // Given: Two clients sharing one memory store
+    const tokenStore = createMemoryTokenStore();
+    const first = createAuth(tokenStore);
+    const second = createAuth(tokenStore, { clientId: "other-client" });
+
+    // When: The first client signs a user in
+    await first.exchangeCode("user-1", "auth-code", "verifier");
+
+    // Then: The second client has no tokens for the same user ID
+    expect(await first.getAccessToken("user-1")).toBe("access-1");
+    await expect(second.getAccessToken("user-1")).rejects.toThrow(
+      AuthenticationError,
+    );
+  });
+
+  test("should default to an in-memory store", async () => {
+    const auth = createSpotifyAuth({
+      clientId: "client-id",
+      redirectUri: "http://localhost:3000/callback",
+      scopes: [],
+      accountsUrl: stub.url,
+    });
+
+    await auth.exchangeCode("user-1", "auth-code", "verifier");
+
+    expect(await auth.getAccessToken("user-1")).toBe("access-1");
+  });
+});
+
+describe("createUserAdapter", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should call the Web API with the stored token, refreshed after a 401", async () => {
+    // Given: A stored token that Spotify has revoked before its expiry
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", {
+      ...expiredTokens,
+      accessToken: "revoked-access",
+      expiresAt: Date.now() + 30 * 60 * 1000,
+      scopes: ["user-read-private", "user-follow-read"],
+    });
+    const authorizations: string[] = [];
+    globalThis.fetch = (async (
+      input: string | URL | Request,
+      init?: RequestInit,
+    ) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.startsWith(stub.url)) {
+        return originalFetch(input, init);
+      }
+      const authorization = new Headers(init?.headers).get("Authorization");
+      authorizations.push(authorization ?? "");
+      return authorization === "Bearer access-1"
+        ? Response.json({
+            artists: {
+              items: [],
+              total: 0,
+              limit: 20,
+              next: null,
+              cursors: { after: null },
+            },
+          })
+        : new Response("The access token expired", { status: 401 });
+    }) as typeof fetch;
+    const adapter = createAuth(store).createUserAdapter("user-1");
+
+    // When: A user endpoint is called
+    const result = await adapter.getFollowedArtists();
+
+    // Then: The stored token is refreshed and the request retried
+    expect(result.items).toEqual([]);
+    expect(authorizations).toEqual([
+      "Bearer revoked-access",
+      "Bearer access-1",
+    ]);
+    expect(tokens.get("user-1")?.accessToken).toBe("access-1");
+  });
+
+  test("should reject a call needing a scope that was not requested without sending it", async () => {
+    // Given: Stored tokens of an authorization without user-library-modify
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", {
+      ...expiredTokens,
+      expiresAt: Date.now() + 30 * 60 * 1000,
+    });
+    let fetches = 0;
+    globalThis.fetch = (async () => {
+      fetches++;
+      return new Response(null, { status: 200 });
+    }) as unknown as typeof fetch;
+    const adapter = createAuth(store).createUserAdapter("user-1");
+
+    // When: A track is saved
+    const error = await adapter.saveTrack("track-1").catch((e) => e);
+
+    // Then: The missing scope is reported and nothing is fetched
+    expect(error).toBeInstanceOf(MissingScopeError);
+    expect(error.requiredScopes).toEqual(["user-library-modify"]);
+    expect(fetches).toBe(0);
+  });
+
+  test("should check the scopes granted to the user rather than the configured ones", async () => {
+    // Given: A user who consented before user-follow-read was configured
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", {
+      ...expiredTokens,
+      expiresAt: Date.now() + 30 * 60 * 1000,
+    });
+    let fetches = 0;
+    globalThis.fetch = (async () => {
+      fetches++;
+      return new Response(null, { status: 200 });
+    }) as unknown as typeof fetch;
+    const adapter = createAuth(store).createUserAdapter("user-1");
+
+    // When: Followed artists are requested
+    const error = await adapter.getFollowedArtists().catch((e) => e);
+
+    // Then: The scope missing from the stored tokens is reported unsent
+    expect(error).toBeInstanceOf(MissingScopeError);
+    expect(error.requiredScopes).toEqual(["user-follow-read"]);
+    expect(fetches).toBe(0);
+  });
+
+  test("should use the scopes of refreshed tokens", async () => {
+    // Given: Expired tokens without user-follow-read, refreshed with it
+    const { tokens, store } = createMapTokenStore();
+    tokens.set("user-1", expiredTokens);
+    globalThis.fetch = (async (
+      input: string | URL | Request,
+      init?: RequestInit,
+    ) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.startsWith(stub.url)) {
+        return originalFetch(input, init);
+      }
+      return Response.json({
+        artists: {
+          items: [],
+          total: 0,
+          limit: 20,
+          next: null,
+          cursors: { after: null },
+        },
+      });
+    }) as typeof fetch;
+    const auth = createAuth(store);
+    await auth.refreshTokens("user-1");
+
+    // When: Followed artists are requested
+    const result = await auth.createUserAdapter("user-1").getFollowedArtists();
+
+    // Then: The scope granted on refresh lets the call through
+    expect(result.items).toEqual([]);
+  });
+});
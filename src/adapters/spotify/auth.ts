@@ -0,0 +1,388 @@
+import {
+  AuthenticationError,
+  NetworkError,
+  RateLimitError,
+  SpotifyApiError,
+} from "../../core/errors";
+import { createMemoryTokenStore } from "../../core/token-store";
+import type {
+  AuthorizationRequest,
+  OAuthTokens,
+  SpotifyAuth,
+  SpotifyServerAuthConfig,
+  SpotifyUserAdapter,
+  TokenKey,
+} from "../../core/types";
+import { createSpotifyTokenAdapter } from "./index";
+
+/** Default Spotify accounts service */
+const DEFAULT_ACCOUNTS_URL = "https://accounts.spotify.com";
+
+/** Access tokens expiring within this window are refreshed before use */
+const EXPIRY_MARGIN_MS = 60_000;
+
+/** Options of every error thrown by the auth helper */
+const ERROR_OPTIONS = { service: "spotify" } as const;
+
+/** Characters allowed in a PKCE code verifier (RFC 7636) */
+const VERIFIER_CHARSET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~";
+
+/** Length of generated code verifiers (RFC 7636 allows 43 to 128) */
+const VERIFIER_LENGTH = 64;
+
+/**
+ * Bytes at or above this bound are rejected, so that every character of the
+ * alphabet is equally likely (the largest multiple of its length below 256)
+ */
+const UNBIASED_BYTE_LIMIT = 256 - (256 % VERIFIER_CHARSET.length);
+
+/** Token endpoint response */
+interface SpotifyTokenResponse {
+  access_token: string;
+  token_type: string;
+  scope?: string;
+  expires_in: number;
+  refresh_token?: string;
+}
+
+/**
+ * Generates a random string from the code verifier alphabet.
+ * @param length - Number of characters
+ * @returns Cryptographically random string
+ */
+function randomString(length: number): string {
+  let result = "";
+  while (result.length < length) {
+    const bytes = crypto.getRandomValues(
+      new Uint8Array(length - result.length),
+    );
+    for (const byte of bytes) {
+      if (byte < UNBIASED_BYTE_LIMIT) {
+        result += VERIFIER_CHARSET[byte % VERIFIER_CHARSET.length];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Derives the S256 code challenge of a code verifier.
+ * @param codeVerifier - PKCE code verifier
+ * @returns Base64url-encoded SHA-256 digest without padding
+ */
+async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier),
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Converts a token endpoint response to musix.js tokens.
+ * Refresh responses may omit the refresh token and scopes, in which case
+ * the previous values are kept.
+ * @param response - Token endpoint response
+ * @param previous - Tokens being refreshed, if any
+ * @returns musix.js OAuthTokens
+ */
+function transformTokens(
+  response: SpotifyTokenResponse,
+  previous?: OAuthTokens,
+): OAuthTokens {
+  return {
+    accessToken: response.access_token,
+    refreshToken: response.refresh_token ?? previous?.refreshToken,
+    expiresAt: Date.now() + response.expires_in * 1000,
+    scopes: response.scope
+      ? response.scope.split(" ").filter(Boolean)
+      : (previous?.scopes ?? []),
+  };
+}
+
+/**
+ * Creates a server-side authorization helper for Spotify.
+ * It implements the authorization code flow with PKCE without relying on
+ * browser redirects or localStorage, so it works in Node services and CLIs.
+ * Tokens are persisted through the configured TokenStore, keyed by client
+ * and user, and onTokenRefreshed is called after every refresh.
+ *
+ * @param config - Client, redirect URI, scopes and token store
+ * @returns SpotifyAuth helper
+ *
+ * @example
+ * ```typescript
+ * const auth = createSpotifyAuth({
+ *   clientId: "your-client-id",
+ *   redirectUri: "http://localhost:3000/callback",
+ *   scopes: ["user-read-private"],
+ *   tokenStore: createJsonFileTokenStore("./data/tokens.json"),
+ * });
+ *
+ * // 1. Redirect the user, keeping codeVerifier and state in the session
+ * const { url, codeVerifier, state } = await auth.createAuthorizationRequest();
+ *
+ * // 2. In the callback handler
+ * await auth.exchangeCode(userId, code, codeVerifier);
+ *
+ * // 3. Later, in any process sharing the token store
+ * const adapter = auth.createUserAdapter(userId);
+ * ```
+ */
+export function createSpotifyAuth(
+  config: SpotifyServerAuthConfig,
+): SpotifyAuth {
+  const tokenStore = config.tokenStore ?? createMemoryTokenStore();
+  const keyOf = (userId: string): TokenKey => ({
+    clientId: config.clientId,
+    userId,
+  });
+  const accountsUrl = (config.accountsUrl ?? DEFAULT_ACCOUNTS_URL).replace(
+    /\/+$/,
+    "",
+  );
+
+  // Concurrent refreshes for a user share one request, since Spotify may
+  // rotate the refresh token and reject the second use of the old one
+  const pendingRefreshes = new Map<string, Promise<OAuthTokens>>();
+
+  /**
+   * Sends a form-encoded request to the token endpoint.
+   * @param params - Grant parameters
+   * @returns Token endpoint response
+   * @throws {AuthenticationError} If the grant or client is rejected
+   * @throws {RateLimitError} If rate limit is exceeded
+   * @throws {SpotifyApiError} For other error responses and malformed bodies
+   * @throws {NetworkError} If the request fails
+   */
+  async function requestToken(
+    params: Record<string, string>,
+  ): Promise<SpotifyTokenResponse> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+    if (config.clientSecret) {
+      headers.Authorization = `Basic ${btoa(`${config.clientId}:${config.clientSecret}`)}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${accountsUrl}/api/token`, {
+        method: "POST",
+        headers,
+        body: new URLSearchParams({ client_id: config.clientId, ...params }),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new NetworkError(error.message, error, ERROR_OPTIONS);
+      }
+      throw new NetworkError(String(error), undefined, ERROR_OPTIONS);
+    }
+
+    const options = { ...ERROR_OPTIONS, status: response.status };
+    if (response.ok) {
+      try {
+        return (await response.json()) as SpotifyTokenResponse;
+      } catch {
+        // e.g. an HTML page served by a proxy or captive portal
+        throw new SpotifyApiError(
+          response.status,
+          "Invalid JSON response from the token endpoint",
+          options,
+        );
+      }
+    }
+
+    // Prefer the OAuth error description, fall back to the raw body
+    let message = response.statusText || `HTTP ${response.status}`;
+    try {
+      const body = await response.text();
+      const parsed = JSON.parse(body) as {
+        error?: string;
+        error_description?: string;
+      };
+      message = parsed.error_description ?? parsed.error ?? body;
+    } catch {
+      // Ignore body parsing errors
+    }
+
+    switch (response.status) {
+      case 400:
+      case 401:
+        throw new AuthenticationError(
+          `Token request failed: ${message}`,
+          options,
+        );
+      case 429: {
+        const retryAfter = response.headers.get("retry-after");
+        throw new RateLimitError(
+          retryAfter ? Number.parseInt(retryAfter, 10) : 60,
+          options,
+        );
+      }
+      default:
+        throw new SpotifyApiError(response.status, message, options);
+    }
+  }
+
+  /**
+   * Reads the stored tokens of a user.
+   * @throws {AuthenticationError} If the user has not completed authorization
+   */
+  async function getStoredTokens(userId: string): Promise<OAuthTokens> {
+    const tokens = await tokenStore.get(keyOf(userId));
+    if (!tokens) {
+      throw new AuthenticationError(
+        `No tokens stored for user ${userId}; complete authorization first`,
+        ERROR_OPTIONS,
+      );
+    }
+    return tokens;
+  }
+
+  const auth: SpotifyAuth = {
+    /**
+     * Builds the authorization URL with a fresh code verifier and state.
+     * Keep codeVerifier and state (e.g. in the session) until the callback.
+     * @param options - Optional fixed state and whether to force the consent dialog
+     * @returns URL to redirect to, with the code verifier and state
+     */
+    async createAuthorizationRequest(options): Promise<AuthorizationRequest> {
+      const codeVerifier = randomString(VERIFIER_LENGTH);
+      const state = options?.state ?? randomString(32);
+
+      const url = new URL(`${accountsUrl}/authorize`);
+      url.searchParams.set("client_id", config.clientId);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("redirect_uri", config.redirectUri);
+      url.searchParams.set("code_challenge_method", "S256");
+      url.searchParams.set(
+        "code_challenge",
+        await createCodeChallenge(codeVerifier),
+      );
+      url.searchParams.set("state", state);
+      if (config.scopes.length > 0) {
+        url.searchParams.set("scope", config.scopes.join(" "));
+      }
+      if (options?.showDialog) {
+        url.searchParams.set("show_dialog", "true");
+      }
+
+      return { url: url.toString(), codeVerifier, state };
+    },
+
+    /**
+     * Exchanges the code received on the redirect URI for tokens.
+     * @param userId - User the tokens belong to
+     * @param code - The `code` query parameter of the callback
+     * @param codeVerifier - Verifier returned by createAuthorizationRequest
+     * @returns The issued tokens
+     * @throws {AuthenticationError} If the code or verifier is rejected
+     */
+    async exchangeCode(userId, code, codeVerifier) {
+      const response = await requestToken({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: config.redirectUri,
+        code_verifier: codeVerifier,
+      });
+      const tokens = transformTokens(response);
+      await tokenStore.set(keyOf(userId), tokens);
+      return tokens;
+    },
+
+    /**
+     * Exchanges the stored refresh token for new tokens.
+     * @param userId - User the tokens belong to
+     * @returns The refreshed tokens
+     * @throws {AuthenticationError} If no refresh token is stored or it is rejected
+     */
+    refreshTokens(userId) {
+      const pending = pendingRefreshes.get(userId);
+      if (pending) {
+        return pending;
+      }
+
+      const refresh = (async () => {
+        const previous = await getStoredTokens(userId);
+        if (!previous.refreshToken) {
+          throw new AuthenticationError(
+            `No refresh token stored for user ${userId}`,
+            ERROR_OPTIONS,
+          );
+        }
+        const response = await requestToken({
+          grant_type: "refresh_token",
+          refresh_token: previous.refreshToken,
+        });
+        const tokens = transformTokens(response, previous);
+        await tokenStore.set(keyOf(userId), tokens);
+        config.onTokenRefreshed?.({ ...keyOf(userId), tokens });
+        return tokens;
+      })().finally(() => pendingRefreshes.delete(userId));
+
+      pendingRefreshes.set(userId, refresh);
+      return refresh;
+    },
+
+    /**
+     * Returns the stored access token, refreshing it first when it expires
+     * within a minute.
+     * @param userId - User the tokens belong to
+     * @returns A valid access token
+     * @throws {AuthenticationError} If the user has not completed authorization
+     */
+    async getAccessToken(userId) {
+      const tokens = await getStoredTokens(userId);
+      if (tokens.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+        return tokens.accessToken;
+      }
+      return (await auth.refreshTokens(userId)).accessToken;
+    },
+
+    /**
+     * Removes the stored tokens of the user, e.g. when they sign out.
+     * @param userId - User the tokens belong to
+     */
+    async clearTokens(userId) {
+      await tokenStore.clear(keyOf(userId));
+    },
+
+    /**
+     * Creates a user adapter that reads its tokens from the token store.
+     * Calls needing a scope the user has not granted are rejected with
+     * MissingScopeError before any request is sent. The granted scopes are
+     * read from the stored tokens on each call, so they follow refreshes and
+     * users who consented before a scope was added to the config are caught.
+     * @param userId - User the tokens belong to
+     * @returns SpotifyUserAdapter instance
+     */
+    createUserAdapter(userId): SpotifyUserAdapter {
+      // The token adapter calls the provider once up front and again only
+      // after a 401, when the stored token must be replaced even if unexpired
+      let issued = false;
+      return createSpotifyTokenAdapter({
+        retry: config.retry,
+        scheduler: config.scheduler,
+        priority: config.priority,
+        coalesceLookups: config.coalesceLookups,
+        dedupeRequests: config.dedupeRequests,
+        timeoutMs: config.timeoutMs,
+        scopes: async () => (await getStoredTokens(userId)).scopes,
+        getAccessToken: async () => {
+          if (!issued) {
+            issued = true;
+            return auth.getAccessToken(userId);
+          }
+          return (await auth.refreshTokens(userId)).accessToken;
+        },
+      });
+    },
+  };
+
+  return auth;
+}
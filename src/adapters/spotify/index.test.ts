@@ -1,19 +1,30 @@
 import { afterEach, describe, expect, mock, test } from "bun:test";
 import { SpotifyApi } from "@spotify/web-api-ts-sdk";
 import {
+  AbortError,
   AuthenticationError,
+  MissingScopeError,
   NetworkError,
   NoActiveDeviceError,
   NotFoundError,
   PremiumRequiredError,
   RateLimitError,
   SpotifyApiError,
+  TimeoutError,
   ValidationError,
 } from "../../core/errors";
-import type { SpotifyAdapter, SpotifyConfig } from "../../core/types";
+import type {
+  MusicAdapter,
+  MusicUserAdapter,
+  RequestPriority,
+  RequestScheduler,
+  SpotifyAdapter,
+  SpotifyConfig,
+} from "../../core/types";
 
 // Import the factory function (will fail until FR-001 is implemented)
-import { createSpotifyAdapter } from "./index";
+import { createSpotifyAdapter, createSpotifyTokenAdapter } from "./index";
+import { getSpotifyScopes } from "./scopes";
 
 // Store original withClientCredentials to restore after each test
 const originalWithClientCredentials = SpotifyApi.withClientCredentials;
@@ -230,6 +241,52 @@ describe("createSpotifyAdapter", () => {
       const typedAdapter: SpotifyAdapter = adapter;
       expect(typedAdapter).toBeDefined();
     });
+
+    test("should satisfy the service-neutral MusicAdapter interface", () => {
+      // Given: valid config
+      const config: SpotifyConfig = {
+        clientId: "test-client-id",
+        clientSecret: "test-client-secret",
+      };
+
+      // When: adapter is created and used through the core interface
+      const adapter: MusicAdapter = createSpotifyAdapter(config);
+
+      // Then: service discriminator identifies Spotify
+      expect(adapter.service).toBe("spotify");
+    });
+  });
+
+  describe("Capabilities", () => {
+    test("should expose Spotify batch limits", () => {
+      // Given: an adapter using Client Credentials
+      const adapter = createSpotifyAdapter({
+        clientId: "test-client-id",
+        clientSecret: "test-client-secret",
+      });
+
+      // Then: batch limits match Spotify's endpoint limits
+      expect(adapter.capabilities.maxBatchIds).toEqual({
+        tracks: 50,
+        albums: 20,
+        artists: 50,
+      });
+    });
+
+    test("should not support user-only features", () => {
+      // Given: an adapter without a user token
+      const adapter = createSpotifyAdapter({
+        clientId: "test-client-id",
+        clientSecret: "test-client-secret",
+      });
+
+      // Then: playback and discovery features are unavailable
+      expect(adapter.capabilities.playback).toBe(false);
+      expect(adapter.supports("playback")).toBe(false);
+      expect(adapter.supports("recommendations")).toBe(false);
+      expect(adapter.supports("relatedArtists")).toBe(false);
+      expect(adapter.supports("collaborativePlaylists")).toBe(false);
+    });
   });
 
   describe("Configuration Handling", () => {
@@ -438,7 +495,7 @@ describe("getTrack", () => {
       expect(typeof track.album.id).toBe("string");
       expect(typeof track.album.name).toBe("string");
       expect(Array.isArray(track.album.artists)).toBe(true);
-      expect(typeof track.album.releaseDate).toBe("string");
+      expect(typeof track.album.releaseDate?.year).toBe("number");
       expect(typeof track.album.totalTracks).toBe("number");
       expect(Array.isArray(track.album.images)).toBe(true);
       expect(typeof track.album.externalUrl).toBe("string");
@@ -467,6 +524,38 @@ describe("getTrack", () => {
       expect(track.previewUrl).toBeNull();
     });
 
+    test("should return ISRC, popularity, track position and playability", async () => {
+      // Given: A track restricted in the requested market
+      const mockSdk = createMockSdk(
+        createMockSpotifyTrack({
+          external_ids: { isrc: "USEE10001993", ean: "", upc: "" },
+          explicit: false,
+          popularity: 82,
+          track_number: 1,
+          disc_number: 1,
+          is_playable: false,
+          restrictions: { reason: "market" },
+          available_markets: ["JP", "US"],
+        }),
+      );
+      const adapter = createMockedAdapter(mockSdk);
+
+      // When: getTrack is called
+      const track = await adapter.getTrack("4iV5W9uYEdYUVa79Axb7Rh");
+
+      // Then: The optional metadata is populated
+      expect(track).toMatchObject({
+        isrc: "USEE10001993",
+        explicit: false,
+        popularity: 82,
+        trackNumber: 1,
+        discNumber: 1,
+        isPlayable: false,
+        restrictions: ["market"],
+        availableMarkets: ["JP", "US"],
+      });
+    });
+
     // AC-003: previewUrl with actual URL
     test("should return Track with previewUrl when available", async () => {
       // Given: valid authentication config with mocked SDK
@@ -1591,6 +1680,40 @@ describe("getAlbum", () => {
   };
 
   describe("Successful Album Retrieval", () => {
+    test("should return label, UPC, copyrights, genres and popularity", async () => {
+      // Given: A full album response
+      const mockSdk = createMockSdkForAlbum(
+        createMockSpotifyAlbum({
+          album_type: "album",
+          label: "Asylum",
+          external_ids: { upc: "075596050927" },
+          copyrights: [
+            { text: "1976 Elektra/Asylum Records", type: "C" },
+            { text: "1976 Elektra/Asylum Records", type: "P" },
+          ],
+          genres: ["rock"],
+          popularity: 77,
+        }),
+      );
+      const adapter = createMockedAdapterForAlbum(mockSdk);
+
+      // When: getAlbum is called
+      const album = await adapter.getAlbum("2widuo17g5CEC66IbzveRu");
+
+      // Then: The optional metadata is populated
+      expect(album).toMatchObject({
+        albumType: "album",
+        label: "Asylum",
+        upc: "075596050927",
+        copyrights: [
+          { text: "1976 Elektra/Asylum Records", type: "C" },
+          { text: "1976 Elektra/Asylum Records", type: "P" },
+        ],
+        genres: ["rock"],
+        popularity: 77,
+      });
+    });
+
     // AC-006: Given valid auth config, When existing album ID, Then returns Album object
     test("should return Album object with all required properties when album exists", async () => {
       // Given: valid authentication config with mocked SDK
@@ -1694,7 +1817,7 @@ describe("getAlbum", () => {
       }
 
       // Release date
-      expect(typeof album.releaseDate).toBe("string");
+      expect(typeof album.releaseDate?.year).toBe("number");
 
       // Total tracks
       expect(typeof album.totalTracks).toBe("number");
@@ -1775,7 +1898,7 @@ describe("getAlbum", () => {
     });
 
     // AC-006: Release date format
-    test("should return Album with releaseDate in string format", async () => {
+    test("should return Album with a structured releaseDate", async () => {
       // Given: valid authentication config with mocked SDK
       const mockSdk = createMockSdkForAlbum();
       const adapter = createMockedAdapterForAlbum(mockSdk);
@@ -1783,9 +1906,13 @@ describe("getAlbum", () => {
       // When: getAlbum is called
       const album = await adapter.getAlbum("2widuo17g5CEC66IbzveRu");
 
-      // Then: releaseDate is a string
-      expect(typeof album.releaseDate).toBe("string");
-      expect(album.releaseDate.length).toBeGreaterThan(0);
+      // Then: releaseDate is parsed from the date string
+      expect(album.releaseDate).toEqual({
+        year: 1976,
+        month: 12,
+        day: 8,
+        precision: "day",
+      });
     });
 
     // AC-006: External URL format validation
@@ -6191,6 +6318,96 @@ describe("Token Auto Refresh [NFR-003]", () => {
       });
     });
 
+    describe("Album types", () => {
+      test("should pass includeGroups to the SDK and report album types", async () => {
+        // Given: A single and an album the artist appears on
+        const mockResponse = createMockPaginatedResponse(2, 20, 0, [
+          createMockAlbum({
+            id: "single",
+            album_type: "single",
+            album_group: "single",
+          }),
+          createMockAlbum({
+            id: "appears-on",
+            album_type: "compilation",
+            album_group: "appears_on",
+          }),
+        ]);
+        const albumsMock = mock(async () => mockResponse);
+
+        SpotifyApi.withClientCredentials = mock(
+          () =>
+            ({
+              artists: { albums: albumsMock },
+              logOut: mock(() => {}),
+            }) as unknown as ReturnType<
+              typeof SpotifyApi.withClientCredentials
+            >,
+        );
+        const adapter = createSpotifyAdapter({
+          clientId: "test-id",
+          clientSecret: "test-secret",
+        });
+
+        // When: Singles and appearances are requested
+        const result = await adapter.getArtistAlbums("artist-id", {
+          includeGroups: ["single", "appears_on"],
+        });
+
+        // Then: The groups are sent comma separated and the types are reported
+        expect(albumsMock).toHaveBeenCalledWith(
+          "artist-id",
+          "single,appears_on",
+          undefined,
+          20,
+          0,
+        );
+        expect(result.items.map((album) => album.albumType)).toEqual([
+          "single",
+          "appears_on",
+        ]);
+      });
+
+      test("should keep includeGroups while iterating", async () => {
+        // Given: One page of albums
+        const albumsMock = mock(async () =>
+          createMockPaginatedResponse(1, 50, 0, [createMockAlbum()]),
+        );
+
+        SpotifyApi.withClientCredentials = mock(
+          () =>
+            ({
+              artists: { albums: albumsMock },
+              logOut: mock(() => {}),
+            }) as unknown as ReturnType<
+              typeof SpotifyApi.withClientCredentials
+            >,
+        );
+        const adapter = createSpotifyAdapter({
+          clientId: "test-id",
+          clientSecret: "test-secret",
+        });
+
+        // When: Albums are iterated with a filter
+        const albums = [];
+        for await (const album of adapter.iterateArtistAlbums("artist-id", {
+          includeGroups: ["album"],
+        })) {
+          albums.push(album);
+        }
+
+        // Then: Every page request carries the filter
+        expect(albums).toHaveLength(1);
+        expect(albumsMock).toHaveBeenCalledWith(
+          "artist-id",
+          "album",
+          undefined,
+          50,
+          0,
+        );
+      });
+    });
+
     // AC-012: Get Artist Albums - Pagination
     describe("AC-012: Get Artist Albums - Pagination", () => {
       test("should pass limit and offset to SDK", async () => {
@@ -6637,6 +6854,47 @@ describe("Token Auto Refresh [NFR-003]", () => {
         expect(result.items[0].externalUrl).toBeDefined();
       });
 
+      test("should return track positions and flags of album tracks", async () => {
+        // Given: An explicit second track on the second disc
+        const mockTracksResponse = createMockPaginatedResponse(1, 20, 0, [
+          createMockSimplifiedTrack({
+            track_number: 2,
+            disc_number: 2,
+            explicit: true,
+            is_playable: true,
+          }),
+        ]);
+
+        SpotifyApi.withClientCredentials = mock(
+          () =>
+            ({
+              albums: {
+                get: mock(async () => createMockAlbum()),
+                tracks: mock(async () => mockTracksResponse),
+              },
+              logOut: mock(() => {}),
+            }) as unknown as ReturnType<
+              typeof SpotifyApi.withClientCredentials
+            >,
+        );
+        const adapter = createSpotifyAdapter({
+          clientId: "test-id",
+          clientSecret: "test-secret",
+        });
+
+        // When: getAlbumTracks is called
+        const result = await adapter.getAlbumTracks("album-id");
+
+        // Then: The fields of the simplified track are mapped
+        expect(result.items[0]).toMatchObject({
+          trackNumber: 2,
+          discNumber: 2,
+          explicit: true,
+          isPlayable: true,
+        });
+        expect(result.items[0].isrc).toBeUndefined();
+      });
+
       test("should set hasNext to true when more items are available", async () => {
         // Given: Total is greater than offset + items.length
         const mockTrack = createMockSimplifiedTrack();
@@ -6846,6 +7104,57 @@ describe("createSpotifyUserAdapter", () => {
       expect(typeof adapter.searchTracks).toBe("function");
     });
 
+    test("should satisfy the service-neutral MusicUserAdapter interface", async () => {
+      // Given: Valid client ID and redirect URI
+      SpotifyApi.withUserAuthorization = mock(
+        () =>
+          ({
+            logOut: mock(() => {}),
+          }) as unknown as ReturnType<typeof SpotifyApi.withUserAuthorization>,
+      );
+
+      const { createSpotifyUserAdapter } = await import("./index");
+
+      // When: adapter is created and used through the core interface
+      const adapter: MusicUserAdapter = createSpotifyUserAdapter({
+        clientId: "test-client-id",
+        redirectUri: "http://localhost:3000/callback",
+        scopes: [],
+      });
+
+      // Then: service discriminator identifies Spotify
+      expect(adapter.service).toBe("spotify");
+    });
+
+    test("should report user capabilities", async () => {
+      // Given: a user adapter
+      SpotifyApi.withUserAuthorization = mock(
+        () =>
+          ({
+            logOut: mock(() => {}),
+          }) as unknown as ReturnType<typeof SpotifyApi.withUserAuthorization>,
+      );
+
+      const { createSpotifyUserAdapter } = await import("./index");
+      const adapter: MusicUserAdapter = createSpotifyUserAdapter({
+        clientId: "test-client-id",
+        redirectUri: "http://localhost:3000/callback",
+        scopes: [],
+      });
+
+      // Then: playback is supported and deprecated features are flagged
+      expect(adapter.capabilities.playback).toBe(true);
+      expect(adapter.capabilities.recommendations).toBe("deprecated");
+      expect(adapter.capabilities.relatedArtists).toBe("deprecated");
+      expect(adapter.supports("recommendations")).toBe(true);
+
+      // And: supports() narrows to the playback methods
+      if (!adapter.supports("playback")) {
+        throw new Error("playback should be supported");
+      }
+      expect(typeof adapter.play).toBe("function");
+    });
+
     test("should pass correct config to SDK withUserAuthorization", async () => {
       // Given: Valid config
       const withUserAuthMock = mock(
@@ -8114,6 +8423,7 @@ describe("createSpotifyUserAdapter", () => {
         is_playing: true,
         progress_ms: 45000,
         item: {
+          type: "track",
           id: "4iV5W9uYEdYUVa79Axb7Rh",
           name: "Hotel California",
           duration_ms: 391376,
@@ -8207,9 +8517,9 @@ describe("createSpotifyUserAdapter", () => {
       // Then: Returns PlaybackState with all fields populated
       expect(result).not.toBeNull();
       expect(result?.isPlaying).toBe(true);
-      expect(result?.track).not.toBeNull();
-      expect(result?.track?.id).toBe("4iV5W9uYEdYUVa79Axb7Rh");
-      expect(result?.track?.name).toBe("Hotel California");
+      expect(result?.item?.type).toBe("track");
+      expect(result?.item?.id).toBe("4iV5W9uYEdYUVa79Axb7Rh");
+      expect(result?.item?.name).toBe("Hotel California");
       expect(result?.progressMs).toBe(45000);
       expect(result?.durationMs).toBe(391376);
       expect(result?.device.id).toBe("device-123");
@@ -8270,6 +8580,7 @@ describe("createSpotifyUserAdapter", () => {
         is_playing: true,
         progress_ms: 45000,
         item: {
+          type: "track",
           id: "4iV5W9uYEdYUVa79Axb7Rh",
           name: "Hotel California",
           duration_ms: 391376,
@@ -10384,14 +10695,24 @@ describe("createSpotifyUserAdapter", () => {
       // Verify first album
       expect(result.items[0].id).toBe("album-001");
       expect(result.items[0].name).toBe("Abbey Road");
-      expect(result.items[0].releaseDate).toBe("1969-09-26");
+      expect(result.items[0].releaseDate).toEqual({
+        year: 1969,
+        month: 9,
+        day: 26,
+        precision: "day",
+      });
       expect(result.items[0].totalTracks).toBe(17);
       expect(result.items[0].artists[0].name).toBe("The Beatles");
 
       // Verify second album
       expect(result.items[1].id).toBe("album-002");
       expect(result.items[1].name).toBe("Dark Side of the Moon");
-      expect(result.items[1].releaseDate).toBe("1973-03-01");
+      expect(result.items[1].releaseDate).toEqual({
+        year: 1973,
+        month: 3,
+        day: 1,
+        precision: "day",
+      });
       expect(result.items[1].totalTracks).toBe(10);
       expect(result.items[1].artists[0].name).toBe("Pink Floyd");
 
@@ -11127,6 +11448,7 @@ describe("createSpotifyUserAdapter", () => {
           next: "https://api.spotify.com/v1/me/following?type=artist&after=artist-2&limit=20",
           previous: null,
           href: "https://api.spotify.com/v1/me/following?type=artist",
+          cursors: { after: "artist-2" },
         },
       }));
 
@@ -11161,13 +11483,14 @@ describe("createSpotifyUserAdapter", () => {
       // When: getFollowedArtists() is called
       const result = await adapter.getFollowedArtists();
 
-      // Then: Returns PaginatedResult<Artist> with followed artists
+      // Then: Returns CursorPaginatedResult<Artist> with followed artists
       expect(result).toBeObject();
       expect(result.items).toBeArray();
       expect(result.items).toHaveLength(2);
       expect(result.total).toBe(25);
       expect(result.limit).toBe(20);
-      expect(result.offset).toBe(0);
+      expect(result.after).toBe("artist-2");
+      expect(result.before).toBeNull();
       expect(result.hasNext).toBe(true);
 
       // Verify artist structure
@@ -11260,17 +11583,20 @@ describe("createSpotifyUserAdapter", () => {
         },
       ];
 
-      const followedArtistsMock = mock(async () => ({
-        artists: {
-          items: mockArtists,
-          total: 100,
-          limit: 20,
-          offset: 40,
-          next: "https://api.spotify.com/v1/me/following?type=artist&after=artist-1&limit=20",
-          previous: null,
-          href: "https://api.spotify.com/v1/me/following?type=artist",
-        },
-      }));
+      const followedArtistsMock = mock(
+        async (_after?: string, _limit?: number) => ({
+          artists: {
+            items: mockArtists,
+            total: 100,
+            limit: 20,
+            offset: 0,
+            next: "https://api.spotify.com/v1/me/following?type=artist&after=artist-1&limit=20",
+            previous: null,
+            href: "https://api.spotify.com/v1/me/following?type=artist",
+            cursors: { after: "artist-1" },
+          },
+        }),
+      );
 
       const mockSdk = {
         currentUser: {
@@ -11300,15 +11626,16 @@ describe("createSpotifyUserAdapter", () => {
         scopes: ["user-follow-read"],
       });
 
-      // When: getFollowedArtists() is called
+      // When: getFollowedArtists() is called with the cursor of a previous page
       const result = await adapter.getFollowedArtists({
         limit: 20,
-        offset: 40,
+        after: "artist-0",
       });
 
-      // Then: hasNext is true because offset (40) + items.length (1) = 41 < total (100)
+      // Then: The cursor is forwarded and the next cursor is returned
+      expect(followedArtistsMock).toHaveBeenCalledWith("artist-0", 20);
       expect(result.hasNext).toBe(true);
-      expect(result.offset).toBe(40);
+      expect(result.after).toBe("artist-1");
       expect(result.total).toBe(100);
     });
 
@@ -11370,12 +11697,12 @@ describe("createSpotifyUserAdapter", () => {
       // When: getFollowedArtists() is called at the last page
       const result = await adapter.getFollowedArtists({
         limit: 20,
-        offset: 49,
+        after: "artist-48",
       });
 
-      // Then: hasNext is false because offset (49) + items.length (1) = 50 >= total (50)
+      // Then: hasNext is false because Spotify returned no next page
       expect(result.hasNext).toBe(false);
-      expect(result.offset).toBe(49);
+      expect(result.after).toBeNull();
       expect(result.total).toBe(50);
     });
 
@@ -11818,6 +12145,199 @@ describe("createSpotifyUserAdapter", () => {
   });
 });
 
+describe("User adapter error mapping", () => {
+  /** Status error as thrown by the response validator */
+  const httpError = (status: number) =>
+    Object.assign(new Error(`HTTP ${status}`), { status, headers: {} });
+
+  /**
+   * Creates a PKCE user adapter on top of a mocked SDK.
+   * @returns The adapter and the logOut mock of the SDK
+   */
+  const createAdapter = async (sdk: Record<string, unknown>) => {
+    const logOut = mock(() => {});
+    SpotifyApi.withUserAuthorization = mock(
+      () =>
+        ({ ...sdk, logOut }) as unknown as ReturnType<
+          typeof SpotifyApi.withUserAuthorization
+        >,
+    );
+    const { createSpotifyUserAdapter } = await import("./index");
+    const adapter = createSpotifyUserAdapter({
+      clientId: "test-client-id",
+      redirectUri: "http://localhost:3000/callback",
+      scopes: [
+        "user-library-read",
+        "user-library-modify",
+        "user-read-playback-state",
+        "user-modify-playback-state",
+      ],
+    });
+    return { adapter, logOut };
+  };
+
+  test("should translate server errors of methods that used to leak them", async () => {
+    // Given: Every read answers 500
+    const fail = mock(async () => {
+      throw httpError(500);
+    });
+    const { adapter } = await createAdapter({
+      currentUser: { profile: fail, tracks: { savedTracks: fail } },
+      player: { getPlaybackState: fail, getAvailableDevices: fail },
+    });
+
+    // When: The reads are called
+    // Then: Each fails with SpotifyApiError
+    for (const call of [
+      () => adapter.getCurrentUser(),
+      () => adapter.getSavedTracks(),
+      () => adapter.getPlaybackState(),
+      () => adapter.getAvailableDevices(),
+    ]) {
+      await expect(call()).rejects.toBeInstanceOf(SpotifyApiError);
+    }
+  });
+
+  test("should clear the token and retry once after a 401", async () => {
+    // Given: The first request is rejected with 401
+    let calls = 0;
+    const { adapter, logOut } = await createAdapter({
+      currentUser: {
+        tracks: {
+          saveTracks: mock(async () => {
+            if (calls++ === 0) {
+              throw httpError(401);
+            }
+          }),
+        },
+      },
+    });
+
+    // When: A track is saved
+    await adapter.saveTrack("track-1");
+
+    // Then: The token is cleared and the request sent again
+    expect(logOut).toHaveBeenCalledTimes(1);
+    expect(calls).toBe(2);
+  });
+
+  test("should report missing users, queues and devices as NotFoundError", async () => {
+    // Given: Every request answers 404
+    const fail = mock(async () => {
+      throw httpError(404);
+    });
+    const { adapter } = await createAdapter({
+      currentUser: { profile: fail },
+      player: { getUsersQueue: fail, startResumePlayback: fail },
+    });
+
+    // When: The user, the queue and playback on a device are requested
+    // Then: NotFoundError names the missing resource
+    await expect(adapter.getCurrentUser()).rejects.toMatchObject({
+      name: "NotFoundError",
+      resourceType: "user",
+    });
+    await expect(adapter.getQueue()).rejects.toMatchObject({
+      name: "NotFoundError",
+      resourceType: "queue",
+    });
+    await expect(adapter.play({ deviceId: "device-1" })).rejects.toMatchObject({
+      name: "NotFoundError",
+      resourceType: "device",
+      resourceId: "device-1",
+    });
+  });
+
+  test("should report a missing Premium subscription for every player command", async () => {
+    // Given: The player answers 403
+    const fail = mock(async () => {
+      throw httpError(403);
+    });
+    const { adapter } = await createAdapter({
+      player: { addItemToPlaybackQueue: fail, setRepeatMode: fail },
+    });
+
+    // When: Player commands are sent
+    // Then: PremiumRequiredError is thrown
+    await expect(adapter.addToQueue("track-1")).rejects.toBeInstanceOf(
+      PremiumRequiredError,
+    );
+    await expect(adapter.setRepeat("off")).rejects.toBeInstanceOf(
+      PremiumRequiredError,
+    );
+  });
+
+  test("should reject a method lacking a configured scope before sending it", async () => {
+    // Given: A token adapter granted only user-library-read
+    const fetchMock = mock(async () => new Response(null, { status: 200 }));
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      const adapter = createSpotifyTokenAdapter({
+        accessToken: "token",
+        scopes: ["user-library-read"],
+      });
+
+      // When: saveTrack is called
+      const error = await adapter.saveTrack("track-1").catch((e) => e);
+
+      // Then: MissingScopeError names the scope and nothing is requested
+      expect(error).toBeInstanceOf(MissingScopeError);
+      expect(error.operation).toBe("saveTrack");
+      expect(error.requiredScopes).toEqual(["user-library-modify"]);
+      expect(error.service).toBe("spotify");
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("should report a 403 for a missing scope as MissingScopeError", async () => {
+    // Given: Spotify rejects a player command for an insufficient scope
+    const scopeError = Object.assign(
+      new Error(
+        '{"error":{"status":403,"message":"Insufficient client scope"}}',
+      ),
+      { status: 403, headers: {} },
+    );
+    const { adapter } = await createAdapter({
+      player: {
+        pausePlayback: mock(async () => {
+          throw scopeError;
+        }),
+      },
+    });
+
+    // When: pause is called
+    const error = await adapter.pause().catch((e) => e);
+
+    // Then: The scope is reported instead of a missing Premium subscription
+    expect(error).toBeInstanceOf(MissingScopeError);
+    expect(error.operation).toBe("pause");
+    expect(error.requiredScopes).toEqual(["user-modify-playback-state"]);
+    expect(error.status).toBe(403);
+  });
+
+  test("should list the scopes to request for a set of methods", () => {
+    // Given: A token granted one of the two playlist-modify scopes
+    const granted = ["playlist-modify-private", "user-library-read"];
+
+    // When: The scopes of library and playlist writes are listed
+    const scopes = getSpotifyScopes(
+      ["getSavedTracks", "saveTrack", "addTracksToPlaylist", "getTrack"],
+      granted,
+    );
+
+    // Then: Only the missing library scope is returned
+    expect(scopes).toEqual(["user-library-modify"]);
+    expect(getSpotifyScopes(["createPlaylist"])).toEqual([
+      "playlist-modify-public",
+      "playlist-modify-private",
+    ]);
+  });
+});
+
 // CH-027: Get Recommendations
 describe("getRecommendations", () => {
   describe("AC-039: Get Recommendations [CH-027]", () => {
@@ -13155,7 +13675,12 @@ describe("getNewReleases", () => {
       // Verify album structure
       expect(result.items[0].id).toBe("new-album-1");
       expect(result.items[0].name).toBe("New Release 1");
-      expect(result.items[0].releaseDate).toBe("2025-12-20");
+      expect(result.items[0].releaseDate).toEqual({
+        year: 2025,
+        month: 12,
+        day: 20,
+        precision: "day",
+      });
       expect(result.items[0].totalTracks).toBe(12);
       expect(result.items[0].externalUrl).toBe(
         "https://open.spotify.com/album/new-album-1",
@@ -13669,7 +14194,7 @@ describe("getNewReleases", () => {
 // CH-030: Get Recently Played
 describe("getRecentlyPlayed", () => {
   describe("AC-043: Get Recently Played [CH-030]", () => {
-    test("should return PaginatedResult<RecentlyPlayedItem> with play history when called without options", async () => {
+    test("should return CursorPaginatedResult<RecentlyPlayedItem> with play history when called without options", async () => {
       // Given: Valid adapter with user authentication
       const mockPlayedAt1 = "2025-12-21T10:30:00.000Z";
       const mockPlayedAt2 = "2025-12-21T10:25:00.000Z";
@@ -13802,14 +14327,15 @@ describe("getRecentlyPlayed", () => {
       // When: getRecentlyPlayed() is called
       const result = await adapter.getRecentlyPlayed();
 
-      // Then: Returns PaginatedResult<RecentlyPlayedItem> with play history
+      // Then: Returns CursorPaginatedResult<RecentlyPlayedItem> with play history
       expect(result).toBeObject();
       expect(result.items).toBeArray();
       expect(result.items).toHaveLength(2);
       expect(result.total).toBe(50);
       expect(result.limit).toBe(20);
-      expect(result.offset).toBe(0);
-      expect(result.hasNext).toBe(true); // 0 + 2 < 50
+      expect(result.after).toBe("12345");
+      expect(result.before).toBe("67890");
+      expect(result.hasNext).toBe(true);
 
       // Verify RecentlyPlayedItem structure - each item includes track and playedAt
       expect(result.items[0].track).toBeDefined();
@@ -14202,7 +14728,189 @@ describe("getRecentlyPlayed", () => {
       // Then: NetworkError is thrown
       await expect(adapter.getRecentlyPlayed()).rejects.toThrow(NetworkError);
     });
-  });
+
+    test("should pass a Date given as after as a Unix timestamp in milliseconds", async () => {
+      // Given: Valid adapter with user authentication
+      const getRecentlyPlayedMock = mock(
+        async (
+          _limit?: number,
+          _queryRange?: { type: "before" | "after"; timestamp: number },
+        ) => ({
+          items: [],
+          limit: 20,
+          next: null,
+          cursors: null,
+          href: "https://api.spotify.com/v1/me/player/recently-played",
+        }),
+      );
+
+      const mockSdk = {
+        player: {
+          getRecentlyPlayedTracks: getRecentlyPlayedMock,
+        },
+        logOut: mock(() => {}),
+      };
+
+      SpotifyApi.withUserAuthorization = mock(
+        () =>
+          mockSdk as unknown as ReturnType<
+            typeof SpotifyApi.withUserAuthorization
+          >,
+      );
+
+      const { createSpotifyUserAdapter } = await import("./index");
+      const adapter = createSpotifyUserAdapter({
+        clientId: "test-client-id",
+        redirectUri: "http://localhost:3000/callback",
+        scopes: ["user-read-recently-played"],
+      });
+
+      // When: getRecentlyPlayed is called with an after date
+      const after = new Date("2025-12-21T10:00:00.000Z");
+      const result = await adapter.getRecentlyPlayed({ limit: 20, after });
+
+      // Then: The SDK receives an after query range
+      expect(getRecentlyPlayedMock).toHaveBeenCalledWith(20, {
+        type: "after",
+        timestamp: after.getTime(),
+      });
+      expect(result.hasNext).toBe(false);
+      expect(result.total).toBeUndefined();
+    });
+
+    test("should accept the before cursor of a previous page", async () => {
+      // Given: Valid adapter with user authentication
+      const getRecentlyPlayedMock = mock(
+        async (
+          _limit?: number,
+          _queryRange?: { type: "before" | "after"; timestamp: number },
+        ) => ({
+          items: [],
+          limit: 20,
+          next: null,
+          cursors: null,
+          href: "https://api.spotify.com/v1/me/player/recently-played",
+        }),
+      );
+
+      const mockSdk = {
+        player: {
+          getRecentlyPlayedTracks: getRecentlyPlayedMock,
+        },
+        logOut: mock(() => {}),
+      };
+
+      SpotifyApi.withUserAuthorization = mock(
+        () =>
+          mockSdk as unknown as ReturnType<
+            typeof SpotifyApi.withUserAuthorization
+          >,
+      );
+
+      const { createSpotifyUserAdapter } = await import("./index");
+      const adapter = createSpotifyUserAdapter({
+        clientId: "test-client-id",
+        redirectUri: "http://localhost:3000/callback",
+        scopes: ["user-read-recently-played"],
+      });
+
+      // When: getRecentlyPlayed is called with the cursor returned by a previous page
+      await adapter.getRecentlyPlayed({ before: "1766311200000" });
+
+      // Then: The SDK receives a before query range
+      expect(getRecentlyPlayedMock).toHaveBeenCalledWith(20, {
+        type: "before",
+        timestamp: 1766311200000,
+      });
+    });
+
+    test("should throw ValidationError when both after and before are given", async () => {
+      // Given: Valid adapter with user authentication
+      const getRecentlyPlayedMock = mock(
+        async (
+          _limit?: number,
+          _queryRange?: { type: "before" | "after"; timestamp: number },
+        ) => ({
+          items: [],
+          limit: 20,
+          next: null,
+          cursors: null,
+          href: "https://api.spotify.com/v1/me/player/recently-played",
+        }),
+      );
+
+      const mockSdk = {
+        player: {
+          getRecentlyPlayedTracks: getRecentlyPlayedMock,
+        },
+        logOut: mock(() => {}),
+      };
+
+      SpotifyApi.withUserAuthorization = mock(
+        () =>
+          mockSdk as unknown as ReturnType<
+            typeof SpotifyApi.withUserAuthorization
+          >,
+      );
+
+      const { createSpotifyUserAdapter } = await import("./index");
+      const adapter = createSpotifyUserAdapter({
+        clientId: "test-client-id",
+        redirectUri: "http://localhost:3000/callback",
+        scopes: ["user-read-recently-played"],
+      });
+
+      // When: getRecentlyPlayed is called with both filters
+      // Then: ValidationError is thrown without calling the API
+      await expect(
+        adapter.getRecentlyPlayed({ after: 1, before: 2 }),
+      ).rejects.toThrow(ValidationError);
+      expect(getRecentlyPlayedMock).not.toHaveBeenCalled();
+    });
+
+    test("should throw ValidationError when the time filter is not a timestamp", async () => {
+      // Given: Valid adapter with user authentication
+      const getRecentlyPlayedMock = mock(
+        async (
+          _limit?: number,
+          _queryRange?: { type: "before" | "after"; timestamp: number },
+        ) => ({
+          items: [],
+          limit: 20,
+          next: null,
+          cursors: null,
+          href: "https://api.spotify.com/v1/me/player/recently-played",
+        }),
+      );
+
+      const mockSdk = {
+        player: {
+          getRecentlyPlayedTracks: getRecentlyPlayedMock,
+        },
+        logOut: mock(() => {}),
+      };
+
+      SpotifyApi.withUserAuthorization = mock(
+        () =>
+          mockSdk as unknown as ReturnType<
+            typeof SpotifyApi.withUserAuthorization
+          >,
+      );
+
+      const { createSpotifyUserAdapter } = await import("./index");
+      const adapter = createSpotifyUserAdapter({
+        clientId: "test-client-id",
+        redirectUri: "http://localhost:3000/callback",
+        scopes: ["user-read-recently-played"],
+      });
+
+      // When: getRecentlyPlayed is called with an invalid cursor
+      // Then: ValidationError is thrown
+      await expect(
+        adapter.getRecentlyPlayed({ before: "yesterday" }),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
 });
 
 describe("getTopTracks", () => {
@@ -18774,7 +19482,7 @@ describe("getPlaylistTracks", () => {
       const adapter = createSpotifyUserAdapter({
         clientId: "test-client-id",
         redirectUri: "http://localhost:3000/callback",
-        scopes: [],
+        scopes: ["user-modify-playback-state"],
       });
 
       // When: setRepeat("off") is called
@@ -18815,7 +19523,7 @@ describe("getPlaylistTracks", () => {
       const adapter = createSpotifyUserAdapter({
         clientId: "test-client-id",
         redirectUri: "http://localhost:3000/callback",
-        scopes: [],
+        scopes: ["user-modify-playback-state"],
       });
 
       // When: setRepeat("track") is called
@@ -18856,7 +19564,7 @@ describe("getPlaylistTracks", () => {
       const adapter = createSpotifyUserAdapter({
         clientId: "test-client-id",
         redirectUri: "http://localhost:3000/callback",
-        scopes: [],
+        scopes: ["user-modify-playback-state"],
       });
 
       // When: setRepeat("context") is called
@@ -18906,7 +19614,7 @@ describe("getPlaylistTracks", () => {
       const adapter = createSpotifyUserAdapter({
         clientId: "test-client-id",
         redirectUri: "http://localhost:3000/callback",
-        scopes: [],
+        scopes: ["user-modify-playback-state"],
       });
 
       // When: setRepeat is called
@@ -18956,7 +19664,7 @@ describe("getPlaylistTracks", () => {
       const adapter = createSpotifyUserAdapter({
         clientId: "test-client-id",
         redirectUri: "http://localhost:3000/callback",
-        scopes: [],
+        scopes: ["user-modify-playback-state"],
       });
 
       // When: setRepeat is called
@@ -19006,7 +19714,7 @@ describe("getPlaylistTracks", () => {
       const adapter = createSpotifyUserAdapter({
         clientId: "test-client-id",
         redirectUri: "http://localhost:3000/callback",
-        scopes: [],
+        scopes: ["user-modify-playback-state"],
       });
 
       // When: setRepeat is called during rate limit
@@ -19020,6 +19728,7 @@ describe("getPlaylistTracks", () => {
       // Given: User is authenticated and has active playback with queue
       const mockQueueData = {
         currently_playing: {
+          type: "track",
           id: "4iV5W9uYEdYUVa79Axb7Rh",
           name: "Hotel California",
           duration_ms: 391376,
@@ -19066,6 +19775,7 @@ describe("getPlaylistTracks", () => {
         },
         queue: [
           {
+            type: "track",
             id: "3n3Ppam7vgaVa1iaRUc9Lp",
             name: "Mr. Brightside",
             duration_ms: 222973,
@@ -19167,6 +19877,7 @@ describe("getPlaylistTracks", () => {
         currently_playing: null,
         queue: [
           {
+            type: "track",
             id: "3n3Ppam7vgaVa1iaRUc9Lp",
             name: "Mr. Brightside",
             duration_ms: 222973,
@@ -19262,6 +19973,7 @@ describe("getPlaylistTracks", () => {
       // Given: User is authenticated with active playback but empty queue
       const mockQueueData = {
         currently_playing: {
+          type: "track",
           id: "4iV5W9uYEdYUVa79Axb7Rh",
           name: "Hotel California",
           duration_ms: 391376,
@@ -19597,3 +20309,1100 @@ describe("getPlaylistTracks", () => {
     });
   });
 });
+
+describe("Podcasts", () => {
+  const createUserAdapterWithSdk = async (mockSdk: Record<string, unknown>) => {
+    SpotifyApi.withUserAuthorization = mock(
+      () =>
+        mockSdk as unknown as ReturnType<
+          typeof SpotifyApi.withUserAuthorization
+        >,
+    );
+
+    const { createSpotifyUserAdapter } = await import("./index");
+    return createSpotifyUserAdapter({
+      clientId: "test-client-id",
+      redirectUri: "http://localhost:3000/callback",
+      scopes: ["user-read-playback-state", "user-library-read"],
+    });
+  };
+
+  const createMockShow = (overrides: Record<string, unknown> = {}) => ({
+    id: "show-1",
+    name: "Tech Talk",
+    publisher: "Tech Media",
+    description: "Weekly news about technology",
+    explicit: false,
+    languages: ["en"],
+    total_episodes: 120,
+    images: [{ url: "https://i.scdn.co/image/show", width: 640, height: 640 }],
+    external_urls: { spotify: "https://open.spotify.com/show/show-1" },
+    type: "show",
+    ...overrides,
+  });
+
+  const createMockEpisode = (overrides: Record<string, unknown> = {}) => ({
+    id: "episode-1",
+    name: "Episode 1",
+    description: "The first episode",
+    duration_ms: 1800000,
+    release_date: "2025-03-14",
+    release_date_precision: "day",
+    audio_preview_url: "https://p.scdn.co/mp3-preview/episode",
+    explicit: false,
+    is_playable: true,
+    languages: ["en"],
+    images: [
+      { url: "https://i.scdn.co/image/episode", width: 640, height: 640 },
+    ],
+    external_urls: { spotify: "https://open.spotify.com/episode/episode-1" },
+    resume_point: { fully_played: false, resume_position_ms: 600000 },
+    type: "episode",
+    ...overrides,
+  });
+
+  test("should report an episode being played with its show", async () => {
+    // Given: The user is listening to a podcast episode
+    const getPlaybackStateMock = mock(async () => ({
+      is_playing: true,
+      progress_ms: 600000,
+      item: createMockEpisode({ show: createMockShow() }),
+      device: {
+        id: "device-1",
+        name: "Phone",
+        type: "Smartphone",
+        is_active: true,
+        volume_percent: 50,
+      },
+      shuffle_state: false,
+      repeat_state: "off",
+    }));
+    const adapter = await createUserAdapterWithSdk({
+      player: { getPlaybackState: getPlaybackStateMock },
+    });
+
+    // When: The playback state is requested
+    const state = await adapter.getPlaybackState();
+
+    // Then: Episodes are requested and the item is reported as an episode
+    expect(getPlaybackStateMock).toHaveBeenCalledWith(undefined, "episode");
+    expect(state?.durationMs).toBe(1800000);
+    const item = state?.item;
+    expect(item?.type).toBe("episode");
+    if (item?.type === "episode") {
+      expect(item.show?.name).toBe("Tech Talk");
+      expect(item.releaseDate).toEqual({
+        year: 2025,
+        month: 3,
+        day: 14,
+        precision: "day",
+      });
+      expect(item.resumePoint).toEqual({
+        fullyPlayed: false,
+        positionMs: 600000,
+      });
+    }
+  });
+
+  test("should keep episodes in the queue", async () => {
+    // Given: A queue mixing a track and an episode
+    const adapter = await createUserAdapterWithSdk({
+      player: {
+        getUsersQueue: mock(async () => ({
+          currently_playing: createMockEpisode({ show: createMockShow() }),
+          queue: [
+            createMockSpotifyTrack({ type: "track" }),
+            createMockEpisode({ id: "episode-2", show: createMockShow() }),
+          ],
+        })),
+      },
+    });
+
+    // When: The queue is requested
+    const queue = await adapter.getQueue();
+
+    // Then: Both kinds of items are reported in order
+    expect(queue.currentlyPlaying?.type).toBe("episode");
+    expect(queue.queue.map((item) => [item.type, item.id])).toEqual([
+      ["track", "4iV5W9uYEdYUVa79Axb7Rh"],
+      ["episode", "episode-2"],
+    ]);
+  });
+
+  test("should attach the show to each of its episodes", async () => {
+    // Given: A show with 3 episodes
+    const episodesMock = mock(async () => ({
+      items: [createMockEpisode(), createMockEpisode({ id: "episode-2" })],
+      total: 3,
+      limit: 2,
+      offset: 0,
+    }));
+    const adapter = await createUserAdapterWithSdk({
+      shows: {
+        get: mock(async () => createMockShow()),
+        episodes: episodesMock,
+      },
+    });
+
+    // When: The first page of episodes is requested
+    const result = await adapter.getShowEpisodes("show-1", { limit: 2 });
+
+    // Then: Each episode names its show and more pages are reported
+    expect(episodesMock).toHaveBeenCalledWith("show-1", undefined, 2, 0);
+    expect(result.items.map((episode) => episode.show?.id)).toEqual([
+      "show-1",
+      "show-1",
+    ]);
+    expect(result.hasNext).toBe(true);
+  });
+
+  test("should leave out unavailable search results and the unknown show", async () => {
+    // Given: Search results including an episode unavailable to the user
+    const searchMock = mock(async () => ({
+      episodes: {
+        items: [createMockEpisode(), null],
+        total: 2,
+        limit: 20,
+        offset: 0,
+      },
+    }));
+    const adapter = await createUserAdapterWithSdk({ search: searchMock });
+
+    // When: Episodes are searched
+    const result = await adapter.searchEpisodes("technology");
+
+    // Then: Only the available episode is returned, without a show
+    expect(searchMock).toHaveBeenCalledWith(
+      "technology",
+      ["episode"],
+      undefined,
+      20,
+      0,
+    );
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].show).toBeUndefined();
+  });
+
+  test("should look up shows in the given market without a user", async () => {
+    // Given: A catalog adapter
+    const getMock = mock(async () => createMockShow());
+    SpotifyApi.withClientCredentials = mock(
+      () =>
+        ({ shows: { get: getMock } }) as unknown as ReturnType<
+          typeof SpotifyApi.withClientCredentials
+        >,
+    );
+    const adapter = createSpotifyAdapter({
+      clientId: "test-client-id",
+      clientSecret: "test-client-secret",
+    });
+
+    // When: A show is requested for the US market
+    const show = await adapter.getShow("show-1", { market: "US" });
+
+    // Then: The market is sent and the show is returned
+    expect(adapter.supports("podcasts")).toBe(true);
+    expect(getMock).toHaveBeenCalledWith("show-1", "US");
+    expect(show.totalEpisodes).toBe(120);
+  });
+
+  test("should cap the show search limit at 50", async () => {
+    // Given: Search results for shows
+    const searchMock = mock(async () => ({
+      shows: { items: [createMockShow()], total: 1, limit: 50, offset: 0 },
+    }));
+    const adapter = await createUserAdapterWithSdk({ search: searchMock });
+
+    // When: Shows are searched with a limit beyond the API maximum
+    await adapter.searchShows("technology", { limit: 100 });
+
+    // Then: The maximum is requested instead
+    expect(searchMock).toHaveBeenCalledWith(
+      "technology",
+      ["show"],
+      undefined,
+      50,
+      0,
+    );
+  });
+
+  test("should iterate over every saved show", async () => {
+    // Given: A library with 3 saved shows served in pages of 2
+    const savedShowsMock = mock(async (limit: number, offset: number) => ({
+      items: [0, 1, 2].slice(offset, offset + limit).map((index) => ({
+        added_at: "2025-01-01T00:00:00Z",
+        show: createMockShow({ id: `show-${index}` }),
+      })),
+      total: 3,
+      limit,
+      offset,
+    }));
+    const adapter = await createUserAdapterWithSdk({
+      currentUser: { shows: { savedShows: savedShowsMock } },
+    });
+
+    // When: Saved shows are iterated
+    const ids: string[] = [];
+    for await (const show of adapter.iterateSavedShows({ pageSize: 2 })) {
+      ids.push(show.id);
+    }
+
+    // Then: Every page is fetched once
+    expect(ids).toEqual(["show-0", "show-1", "show-2"]);
+    expect(savedShowsMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("should require user-library-modify to save a show", async () => {
+    // Given: An adapter granted only read scopes
+    const saveShowsMock = mock(async () => {});
+    const adapter = await createUserAdapterWithSdk({
+      currentUser: { shows: { saveShows: saveShowsMock } },
+    });
+
+    // When: A show is saved
+    const error = await adapter.saveShow("show-1").catch((e) => e);
+
+    // Then: The missing scope is reported and nothing is requested
+    expect(error).toBeInstanceOf(MissingScopeError);
+    expect(error.requiredScopes).toEqual(["user-library-modify"]);
+    expect(saveShowsMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("Audiobooks", () => {
+  const createCatalogAdapterWithSdk = (mockSdk: Record<string, unknown>) => {
+    SpotifyApi.withClientCredentials = mock(
+      () =>
+        mockSdk as unknown as ReturnType<
+          typeof SpotifyApi.withClientCredentials
+        >,
+    );
+    return createSpotifyAdapter({
+      clientId: "test-client-id",
+      clientSecret: "test-client-secret",
+    });
+  };
+
+  const createUserAdapterWithSdk = async (mockSdk: Record<string, unknown>) => {
+    SpotifyApi.withUserAuthorization = mock(
+      () =>
+        mockSdk as unknown as ReturnType<
+          typeof SpotifyApi.withUserAuthorization
+        >,
+    );
+
+    const { createSpotifyUserAdapter } = await import("./index");
+    return createSpotifyUserAdapter({
+      clientId: "test-client-id",
+      redirectUri: "http://localhost:3000/callback",
+      scopes: ["user-read-playback-state", "user-library-read"],
+    });
+  };
+
+  const createMockAudiobook = (overrides: Record<string, unknown> = {}) => ({
+    id: "audiobook-1",
+    name: "The Great Novel",
+    authors: [{ name: "Jane Writer" }],
+    narrators: [{ name: "John Reader" }, { name: "Ann Voice" }],
+    publisher: "Big Books",
+    description: "A story of great length",
+    edition: "Unabridged",
+    explicit: false,
+    languages: ["en"],
+    total_chapters: 30,
+    images: [
+      { url: "https://i.scdn.co/image/audiobook", width: 640, height: 640 },
+    ],
+    external_urls: {
+      spotify: "https://open.spotify.com/audiobook/audiobook-1",
+    },
+    type: "audiobook",
+    ...overrides,
+  });
+
+  const createMockChapter = (overrides: Record<string, unknown> = {}) => ({
+    id: "chapter-1",
+    name: "Chapter 1",
+    description: "The beginning",
+    chapter_number: 1,
+    duration_ms: 1200000,
+    release_date: "2024",
+    release_date_precision: "year",
+    audio_preview_url: "https://p.scdn.co/mp3-preview/chapter",
+    explicit: false,
+    is_playable: false,
+    restrictions: { reason: "payment_required" },
+    languages: ["en"],
+    images: [
+      { url: "https://i.scdn.co/image/chapter", width: 640, height: 640 },
+    ],
+    external_urls: { spotify: "https://open.spotify.com/chapter/chapter-1" },
+    type: "chapter",
+    ...overrides,
+  });
+
+  test("should look up audiobooks in the given market without a user", async () => {
+    // Given: A catalog adapter and an audiobook with 3 chapters
+    const getMock = mock(async () => createMockAudiobook());
+    const getAudiobookChaptersMock = mock(async () => ({
+      items: [createMockChapter(), createMockChapter({ id: "chapter-2" })],
+      total: 3,
+      limit: 2,
+      offset: 0,
+    }));
+    const adapter = createCatalogAdapterWithSdk({
+      audiobooks: {
+        get: getMock,
+        getAudiobookChapters: getAudiobookChaptersMock,
+      },
+    });
+
+    // When: The first page of chapters is requested for the US market
+    const result = await adapter.getAudiobookChapters("audiobook-1", {
+      limit: 2,
+      market: "US",
+    });
+
+    // Then: Both requests name the market and each chapter names its audiobook
+    expect(getMock).toHaveBeenCalledWith("audiobook-1", "US");
+    expect(getAudiobookChaptersMock).toHaveBeenCalledWith(
+      "audiobook-1",
+      "US",
+      2,
+      0,
+    );
+    expect(result.items[0].audiobook).toMatchObject({
+      authors: ["Jane Writer"],
+      narrators: ["John Reader", "Ann Voice"],
+      totalChapters: 30,
+      edition: "Unabridged",
+    });
+    expect(result.items[0]).toMatchObject({
+      chapterNumber: 1,
+      releaseDate: { year: 2024, precision: "year" },
+      isPlayable: false,
+      restrictions: ["payment_required"],
+    });
+    expect(result.hasNext).toBe(true);
+  });
+
+  test("should keep the market while iterating over chapters", async () => {
+    // Given: An audiobook with 3 chapters served in pages of 2
+    const getAudiobookChaptersMock = mock(
+      async (_id: string, _market: string, limit: number, offset: number) => ({
+        items: [0, 1, 2]
+          .slice(offset, offset + limit)
+          .map((index) => createMockChapter({ id: `chapter-${index}` })),
+        total: 3,
+        limit,
+        offset,
+      }),
+    );
+    const adapter = createCatalogAdapterWithSdk({
+      audiobooks: {
+        get: mock(async () => createMockAudiobook()),
+        getAudiobookChapters: getAudiobookChaptersMock,
+      },
+    });
+
+    // When: The chapters are iterated in the GB market
+    const ids: string[] = [];
+    for await (const chapter of adapter.iterateAudiobookChapters(
+      "audiobook-1",
+      { pageSize: 2, market: "GB" },
+    )) {
+      ids.push(chapter.id);
+    }
+
+    // Then: Every page is requested for the market
+    expect(ids).toEqual(["chapter-0", "chapter-1", "chapter-2"]);
+    expect(
+      getAudiobookChaptersMock.mock.calls.map(([, market]) => market),
+    ).toEqual(["GB", "GB"]);
+  });
+
+  test("should report an unknown chapter as NotFoundError", async () => {
+    // Given: Spotify does not know the chapter
+    const adapter = createCatalogAdapterWithSdk({
+      chapters: {
+        get: mock(async () => {
+          throw Object.assign(new Error("Not found"), { status: 404 });
+        }),
+      },
+    });
+
+    // When: The chapter is requested
+    const error = await adapter
+      .getChapter("missing-chapter", { market: "US" })
+      .catch((e) => e);
+
+    // Then: The chapter is named as the missing resource
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.resourceType).toBe("chapter");
+    expect(error.resourceId).toBe("missing-chapter");
+  });
+
+  test("should report a chapter being played with its audiobook", async () => {
+    // Given: The user is listening to an audiobook
+    const adapter = await createUserAdapterWithSdk({
+      player: {
+        getPlaybackState: mock(async () => ({
+          is_playing: true,
+          progress_ms: 5000,
+          item: createMockChapter({ audiobook: createMockAudiobook() }),
+          device: {
+            id: "device-1",
+            name: "Phone",
+            type: "Smartphone",
+            is_active: true,
+            volume_percent: 50,
+          },
+          shuffle_state: false,
+          repeat_state: "off",
+        })),
+      },
+    });
+
+    // When: The playback state is requested
+    const state = await adapter.getPlaybackState();
+
+    // Then: The item is reported as a chapter
+    const item = state?.item;
+    expect(item?.type).toBe("chapter");
+    if (item?.type === "chapter") {
+      expect(item.audiobook.name).toBe("The Great Novel");
+    }
+  });
+
+  test("should list the audiobooks saved by the user", async () => {
+    // Given: A library with one saved audiobook
+    const savedAudiobooksMock = mock(async () => ({
+      items: [createMockAudiobook()],
+      total: 1,
+      limit: 20,
+      offset: 0,
+    }));
+    const adapter = await createUserAdapterWithSdk({
+      currentUser: { audiobooks: { savedAudiobooks: savedAudiobooksMock } },
+    });
+
+    // When: Saved audiobooks are requested
+    const result = await adapter.getSavedAudiobooks();
+
+    // Then: The audiobook is returned on a single page
+    expect(savedAudiobooksMock).toHaveBeenCalledWith(20, 0);
+    expect(result.items.map((audiobook) => audiobook.id)).toEqual([
+      "audiobook-1",
+    ]);
+    expect(result.hasNext).toBe(false);
+  });
+});
+
+describe("Bulk Lookups", () => {
+  const createUserAdapterWithSdk = async (mockSdk: Record<string, unknown>) => {
+    SpotifyApi.withUserAuthorization = mock(
+      () =>
+        mockSdk as unknown as ReturnType<
+          typeof SpotifyApi.withUserAuthorization
+        >,
+    );
+
+    const { createSpotifyUserAdapter } = await import("./index");
+    return createSpotifyUserAdapter({
+      clientId: "test-client-id",
+      redirectUri: "http://localhost:3000/callback",
+      scopes: [],
+    });
+  };
+
+  // Returns every requested album except those whose ID starts with "missing"
+  const getRequestedAlbums = mock(async (ids: string[]) =>
+    ids.map((id) =>
+      id.startsWith("missing")
+        ? null
+        : { ...createMockSpotifyTrack().album, id },
+    ),
+  );
+
+  test("should report unknown album IDs of the user adapter as missing", async () => {
+    // Given: One of the requested albums does not exist
+    const adapter = await createUserAdapterWithSdk({
+      albums: { get: getRequestedAlbums },
+    });
+
+    // When: The albums are fetched in bulk
+    const result = await adapter.getAlbumsBulk(["album-1", "missing-1"]);
+
+    // Then: The unknown ID is reported instead of failing the batch
+    expect(result.items.map((album) => album?.id ?? null)).toEqual([
+      "album-1",
+      null,
+    ]);
+    expect(result.missingIds).toEqual(["missing-1"]);
+  });
+
+  test("should reject only the coalesced lookup of a missing ID", async () => {
+    // Given: A user adapter coalescing lookups, and one unknown album
+    SpotifyApi.withUserAuthorization = mock(
+      () =>
+        ({ albums: { get: getRequestedAlbums } }) as unknown as ReturnType<
+          typeof SpotifyApi.withUserAuthorization
+        >,
+    );
+    const { createSpotifyUserAdapter } = await import("./index");
+    const adapter = createSpotifyUserAdapter({
+      clientId: "test-client-id",
+      redirectUri: "http://localhost:3000/callback",
+      scopes: [],
+      coalesceLookups: true,
+    });
+    getRequestedAlbums.mockClear();
+
+    // When: Valid and unknown albums are requested at once
+    const results = await Promise.allSettled(
+      ["album-1", "missing-1", "album-2"].map((id) => adapter.getAlbum(id)),
+    );
+
+    // Then: One batch is sent and only the unknown album fails, as not found
+    expect(getRequestedAlbums).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+    ]);
+    const error = (results[1] as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.resourceType).toBe("album");
+    expect(error.resourceId).toBe("missing-1");
+    expect(error.service).toBe("spotify");
+  });
+});
+
+describe("Async Iterators", () => {
+  const createUserAdapterWithSdk = async (mockSdk: Record<string, unknown>) => {
+    SpotifyApi.withUserAuthorization = mock(
+      () =>
+        mockSdk as unknown as ReturnType<
+          typeof SpotifyApi.withUserAuthorization
+        >,
+    );
+
+    const { createSpotifyUserAdapter } = await import("./index");
+    return createSpotifyUserAdapter({
+      clientId: "test-client-id",
+      redirectUri: "http://localhost:3000/callback",
+      scopes: ["user-library-read", "user-follow-read"],
+    });
+  };
+
+  test("should iterate over every playlist track page by page", async () => {
+    // Given: A playlist with 3 tracks served in pages of 2
+    const getPlaylistItemsMock = mock(
+      async (
+        _playlistId: string,
+        _market: unknown,
+        _fields: unknown,
+        limit: number,
+        offset: number,
+      ) => ({
+        items: [0, 1, 2].slice(offset, offset + limit).map((index) => ({
+          track: createMockSpotifyTrack({ id: `track-${index}` }),
+        })),
+        total: 3,
+        limit,
+        offset,
+      }),
+    );
+
+    SpotifyApi.withClientCredentials = mock(
+      () =>
+        ({
+          playlists: { getPlaylistItems: getPlaylistItemsMock },
+          logOut: mock(() => {}),
+        }) as unknown as ReturnType<typeof SpotifyApi.withClientCredentials>,
+    );
+
+    const adapter = createSpotifyAdapter({
+      clientId: "test-id",
+      clientSecret: "test-secret",
+    });
+
+    // When: Iterating with a page size of 2
+    const ids: string[] = [];
+    for await (const track of adapter.iteratePlaylistTracks("playlist-123", {
+      pageSize: 2,
+    })) {
+      ids.push(track.id);
+    }
+
+    // Then: All tracks are yielded with two requests
+    expect(ids).toEqual(["track-0", "track-1", "track-2"]);
+    expect(getPlaylistItemsMock).toHaveBeenCalledTimes(2);
+    expect(getPlaylistItemsMock.mock.calls[1][4]).toBe(2);
+  });
+
+  test("should not request the next page before it is consumed", async () => {
+    // Given: A search with many results
+    const searchMock = mock(
+      async (
+        _query: string,
+        _types: string[],
+        _market: unknown,
+        limit: number,
+        offset: number,
+      ) => ({
+        tracks: {
+          items: [createMockSpotifyTrack({ id: `track-${offset}` })],
+          total: 1000,
+          limit,
+          offset,
+        },
+      }),
+    );
+
+    SpotifyApi.withClientCredentials = mock(
+      () =>
+        ({
+          search: searchMock,
+          logOut: mock(() => {}),
+        }) as unknown as ReturnType<typeof SpotifyApi.withClientCredentials>,
+    );
+
+    const adapter = createSpotifyAdapter({
+      clientId: "test-id",
+      clientSecret: "test-secret",
+    });
+
+    // When: Reading only the first result
+    for await (const track of adapter.iterateSearchTracks("query")) {
+      expect(track.id).toBe("track-0");
+      break;
+    }
+
+    // Then: Only the first page was requested, with the maximum page size
+    expect(searchMock).toHaveBeenCalledTimes(1);
+    expect(searchMock.mock.calls[0][3]).toBe(50);
+  });
+
+  test("should stop search iteration at the maximum search offset", async () => {
+    // Given: A search reporting more results than Spotify serves
+    const searchMock = mock(
+      async (
+        _query: string,
+        _types: string[],
+        _market: unknown,
+        limit: number,
+        offset: number,
+      ) => ({
+        tracks: {
+          items: [createMockSpotifyTrack({ id: `track-${offset}` })],
+          total: 100_000,
+          limit,
+          offset,
+        },
+      }),
+    );
+
+    SpotifyApi.withClientCredentials = mock(
+      () =>
+        ({
+          search: searchMock,
+          logOut: mock(() => {}),
+        }) as unknown as ReturnType<typeof SpotifyApi.withClientCredentials>,
+    );
+
+    const adapter = createSpotifyAdapter({
+      clientId: "test-id",
+      clientSecret: "test-secret",
+    });
+
+    // When: Iterating over every result
+    let count = 0;
+    for await (const _ of adapter.iterateSearchTracks("query")) {
+      count++;
+    }
+
+    // Then: Iteration ends after the page at offset 1000
+    expect(count).toBe(21);
+    expect(searchMock.mock.calls.at(-1)?.[4]).toBe(1000);
+  });
+
+  test("should iterate over saved tracks until hasNext is false", async () => {
+    // Given: 3 saved tracks served in pages of 2
+    const savedTracksMock = mock(async (limit: number, offset: number) => ({
+      items: [0, 1, 2].slice(offset, offset + limit).map((index) => ({
+        added_at: "2024-01-01T00:00:00Z",
+        track: createMockSpotifyTrack({ id: `saved-${index}` }),
+      })),
+      total: 3,
+      limit,
+      offset,
+    }));
+
+    const adapter = await createUserAdapterWithSdk({
+      currentUser: { tracks: { savedTracks: savedTracksMock } },
+      logOut: mock(() => {}),
+    });
+
+    // When: Iterating over saved tracks
+    const ids: string[] = [];
+    for await (const track of adapter.iterateSavedTracks({ pageSize: 2 })) {
+      ids.push(track.id);
+    }
+
+    // Then: Every saved track is yielded
+    expect(ids).toEqual(["saved-0", "saved-1", "saved-2"]);
+    expect(savedTracksMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("should walk followed artists by cursor", async () => {
+    // Given: Two cursor pages of followed artists
+    const createArtist = (id: string) => ({
+      id,
+      name: id,
+      genres: [],
+      images: [],
+      external_urls: { spotify: `https://open.spotify.com/artist/${id}` },
+    });
+    const followedArtistsMock = mock(
+      async (after?: string, _limit?: number) => ({
+        artists: after
+          ? {
+              items: [createArtist("artist-3")],
+              total: 3,
+              limit: 2,
+              next: null,
+              cursors: { after: null },
+            }
+          : {
+              items: [createArtist("artist-1"), createArtist("artist-2")],
+              total: 3,
+              limit: 2,
+              next: "https://api.spotify.com/v1/me/following?type=artist&after=artist-2&limit=2",
+              cursors: { after: "artist-2" },
+            },
+      }),
+    );
+
+    const adapter = await createUserAdapterWithSdk({
+      currentUser: { followedArtists: followedArtistsMock },
+      logOut: mock(() => {}),
+    });
+
+    // When: Iterating over followed artists
+    const ids: string[] = [];
+    for await (const artist of adapter.iterateFollowedArtists({
+      pageSize: 2,
+    })) {
+      ids.push(artist.id);
+    }
+
+    // Then: The second page is requested with the after cursor
+    expect(ids).toEqual(["artist-1", "artist-2", "artist-3"]);
+    expect(followedArtistsMock.mock.calls).toEqual([
+      [undefined, 2],
+      ["artist-2", 2],
+    ]);
+  });
+
+  test("should translate errors raised while iterating followed artists", async () => {
+    const followedArtistsMock = mock(async () => {
+      throw Object.assign(new Error("Too many requests"), {
+        status: 429,
+        headers: { "retry-after": "3" },
+      });
+    });
+
+    const adapter = await createUserAdapterWithSdk({
+      currentUser: { followedArtists: followedArtistsMock },
+      logOut: mock(() => {}),
+    });
+
+    const iterate = async () => {
+      for await (const _ of adapter.iterateFollowedArtists()) {
+        // Never reached
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
+
+describe("createSpotifyTokenAdapter", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  /**
+   * Replaces the global fetch with a stub answering by access token.
+   * @returns Authorization headers of every request, in order
+   */
+  const stubFetch = (respond: (authorization: string) => Response) => {
+    const authorizations: string[] = [];
+    globalThis.fetch = mock(
+      async (_input: string | URL | Request, init?: RequestInit) => {
+        const authorization =
+          new Headers(init?.headers).get("Authorization") ?? "";
+        authorizations.push(authorization);
+        return respond(authorization);
+      },
+    ) as unknown as typeof fetch;
+    return authorizations;
+  };
+
+  const unauthorized = () =>
+    new Response("The access token expired", { status: 401 });
+
+  test("should send a static access token as a bearer token", async () => {
+    // Given: A token adapter with a static token
+    const authorizations = stubFetch(() =>
+      Response.json(createMockSpotifyTrack()),
+    );
+    const adapter = createSpotifyTokenAdapter({ accessToken: "static-token" });
+
+    // When: A track is requested
+    const track = await adapter.getTrack("4iV5W9uYEdYUVa79Axb7Rh");
+
+    // Then: The request carries the token
+    expect(track.name).toBe("Hotel California");
+    expect(authorizations).toEqual(["Bearer static-token"]);
+  });
+
+  test("should call the provider again and retry once after a 401", async () => {
+    // Given: A provider whose first token has expired
+    const tokens = ["expired-token", "fresh-token"];
+    const getAccessToken = mock(async () => tokens.shift() ?? "unexpected");
+    const authorizations = stubFetch((authorization) =>
+      authorization === "Bearer fresh-token"
+        ? Response.json({
+            artists: {
+              items: [],
+              total: 0,
+              limit: 20,
+              next: null,
+              cursors: { after: null },
+            },
+          })
+        : unauthorized(),
+    );
+    const adapter = createSpotifyTokenAdapter({ getAccessToken });
+
+    // When: Followed artists are requested
+    const result = await adapter.getFollowedArtists();
+
+    // Then: The request is retried with the new token
+    expect(result.items).toEqual([]);
+    expect(getAccessToken).toHaveBeenCalledTimes(2);
+    expect(authorizations).toEqual([
+      "Bearer expired-token",
+      "Bearer fresh-token",
+    ]);
+  });
+
+  test("should reuse the token for later requests", async () => {
+    // Given: A provider and a successful API
+    const getAccessToken = mock(async () => "token");
+    stubFetch(() => Response.json(createMockSpotifyTrack()));
+    const adapter = createSpotifyTokenAdapter({ getAccessToken });
+
+    // When: Two tracks are requested
+    await adapter.getTrack("track-1");
+    await adapter.getTrack("track-2");
+
+    // Then: The provider is called only once
+    expect(getAccessToken).toHaveBeenCalledTimes(1);
+  });
+
+  test("should throw AuthenticationError when the new token is rejected too", async () => {
+    // Given: A provider whose tokens are always rejected
+    let issued = 0;
+    const getAccessToken = mock(async () => `token-${++issued}`);
+    stubFetch(unauthorized);
+    const adapter = createSpotifyTokenAdapter({ getAccessToken });
+
+    // When: A track is requested
+    // Then: AuthenticationError is thrown after a single provider refresh
+    await expect(adapter.getTrack("track-1")).rejects.toThrow(
+      AuthenticationError,
+    );
+    expect(getAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  test("should ask the provider again when a refreshed token is rejected", async () => {
+    // Given: A provider whose second token is rejected too
+    const tokens = ["token-1", "token-2", "token-3"];
+    const getAccessToken = mock(async () => tokens.shift() ?? "unexpected");
+    const authorizations = stubFetch((authorization) =>
+      authorization === "Bearer token-3"
+        ? Response.json(createMockSpotifyTrack())
+        : unauthorized(),
+    );
+    const adapter = createSpotifyTokenAdapter({ getAccessToken });
+    await expect(adapter.getTrack("track-1")).rejects.toThrow(
+      AuthenticationError,
+    );
+
+    // When: The next track is requested
+    const track = await adapter.getTrack("track-2");
+
+    // Then: The rejected refreshed token is replaced with a new one
+    expect(track.name).toBe("Hotel California");
+    expect(getAccessToken).toHaveBeenCalledTimes(3);
+    expect(authorizations).toEqual([
+      "Bearer token-1",
+      "Bearer token-2",
+      "Bearer token-2",
+      "Bearer token-3",
+    ]);
+  });
+
+  test("should wait out rate limits when a retry policy is configured", async () => {
+    // Given: The first request is rate limited
+    let calls = 0;
+    stubFetch(() =>
+      calls++ === 0
+        ? new Response("Too many requests", {
+            status: 429,
+            headers: { "Retry-After": "0" },
+          })
+        : Response.json(createMockSpotifyTrack()),
+    );
+    const delays: number[] = [];
+    const adapter = createSpotifyTokenAdapter({
+      accessToken: "static-token",
+      retry: { onRetry: ({ delayMs }) => delays.push(delayMs) },
+    });
+
+    // When: A track is requested
+    const track = await adapter.getTrack("4iV5W9uYEdYUVa79Axb7Rh");
+
+    // Then: The request is sent again after the Retry-After delay
+    expect(track.name).toBe("Hotel California");
+    expect(calls).toBe(2);
+    expect(delays).toEqual([0]);
+  });
+
+  test("should schedule playback in the high lane and other calls in the configured lane", async () => {
+    // Given: A scheduler recording the lane of every request
+    let calls = 0;
+    stubFetch(() =>
+      calls++ === 0
+        ? Response.json(createMockSpotifyTrack())
+        : new Response(null, { status: 204 }),
+    );
+    const lanes: RequestPriority[] = [];
+    const scheduler: RequestScheduler = {
+      schedule: (task, priority = "normal") => {
+        lanes.push(priority);
+        return task();
+      },
+      pause: () => {},
+      queued: 0,
+      running: 0,
+    };
+    const adapter = createSpotifyTokenAdapter({
+      accessToken: "static-token",
+      scheduler,
+      priority: "low",
+    });
+
+    // When: A track is requested, then playback is skipped
+    await adapter.getTrack("4iV5W9uYEdYUVa79Axb7Rh");
+    await adapter.skipToNext();
+
+    // Then: Only the playback call jumps the queue
+    expect(lanes).toEqual(["low", "high"]);
+  });
+
+  /** Replaces the global fetch with a stub that only settles when aborted */
+  const stubHangingFetch = () => {
+    globalThis.fetch = mock(
+      (_input: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          const signal = init?.signal;
+          if (signal?.aborted) {
+            reject(signal.reason);
+          }
+          signal?.addEventListener("abort", () => reject(signal.reason));
+        }),
+    ) as unknown as typeof fetch;
+  };
+
+  test("should throw TimeoutError when a call exceeds its timeout", async () => {
+    // Given: An API that never answers
+    stubHangingFetch();
+    const adapter = createSpotifyTokenAdapter({ accessToken: "static-token" });
+
+    // When: A track is requested with a timeout
+    const error = await adapter
+      .getTrack("4iV5W9uYEdYUVa79Axb7Rh", { timeoutMs: 10 })
+      .catch((error: unknown) => error);
+
+    // Then: The call fails with the timeout it exceeded
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeoutMs).toBe(10);
+  });
+
+  test("should apply the timeout of the config to calls that set none", async () => {
+    // Given: An adapter with a default timeout and an API that never answers
+    stubHangingFetch();
+    const adapter = createSpotifyTokenAdapter({
+      accessToken: "static-token",
+      timeoutMs: 10,
+    });
+
+    // When: Playback is skipped without call options
+    // Then: The call times out
+    await expect(adapter.skipToNext()).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  test("should throw AbortError when the caller aborts", async () => {
+    // Given: An API that never answers
+    stubHangingFetch();
+    const adapter = createSpotifyTokenAdapter({ accessToken: "static-token" });
+    const controller = new AbortController();
+
+    // When: A search is aborted while in flight
+    const search = adapter.searchTracks("query", undefined, {
+      signal: controller.signal,
+    });
+    controller.abort("navigated away");
+
+    // Then: The call fails with the abort reason
+    const error = await search.catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(AbortError);
+    expect((error as AbortError).cause).toBe("navigated away");
+  });
+
+  test("should report unknown artist IDs as missing", async () => {
+    // Given: Spotify returns null for the second of two artists
+    const artist = createMockSpotifyTrack().artists[0];
+    stubFetch(() => Response.json({ artists: [artist, null] }));
+    const adapter = createSpotifyTokenAdapter({ accessToken: "static-token" });
+
+    // When: The artists are fetched in bulk
+    const result = await adapter.getArtistsBulk([artist.id, "unknown-artist"]);
+
+    // Then: The unknown ID is reported instead of failing the batch
+    expect(result.items.map((item) => item?.id ?? null)).toEqual([
+      artist.id,
+      null,
+    ]);
+    expect(result.missingIds).toEqual(["unknown-artist"]);
+  });
+
+  test("should not retry a rejected static token", async () => {
+    // Given: A static token that is rejected
+    const authorizations = stubFetch(unauthorized);
+    const adapter = createSpotifyTokenAdapter({ accessToken: "static-token" });
+
+    // When: Followed artists are requested
+    // Then: AuthenticationError is thrown without resending the same token
+    await expect(adapter.getFollowedArtists()).rejects.toThrow(
+      AuthenticationError,
+    );
+    expect(authorizations).toEqual(["Bearer static-token"]);
+  });
+});
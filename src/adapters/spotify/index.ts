@@ -1,22 +1,36 @@
 import { SpotifyApi } from "@spotify/web-api-ts-sdk";
 import type {
+  AccessToken,
+  IAuthStrategy,
   IValidateResponses,
   Market,
   MaxInt,
   Album as SpotifyAlbum,
   Artist as SpotifyArtist,
+  Chapter as SpotifyChapter,
+  Episode as SpotifyEpisode,
   Image as SpotifyImage,
   Playlist as SpotifyPlaylist,
   PlaylistedTrack as SpotifyPlaylistedTrack,
   SimplifiedAlbum as SpotifySimplifiedAlbum,
   SimplifiedArtist as SpotifySimplifiedArtist,
+  SimplifiedAudiobook as SpotifySimplifiedAudiobook,
+  SimplifiedChapter as SpotifySimplifiedChapter,
+  SimplifiedEpisode as SpotifySimplifiedEpisode,
   SimplifiedPlaylist as SpotifySimplifiedPlaylist,
+  SimplifiedShow as SpotifySimplifiedShow,
   SimplifiedTrack as SpotifySimplifiedTrack,
   Track as SpotifyTrack,
+  TrackItem as SpotifyTrackItem,
   UserProfile as SpotifyUserProfile,
 } from "@spotify/web-api-ts-sdk";
+import { type BulkLookups, createBulkLookups } from "../../core/bulk";
+import { type FetchFunction, bindFetch } from "../../core/call-options";
+import { isFeatureSupported } from "../../core/capabilities";
 import {
   AuthenticationError,
+  MissingScopeError,
+  MusixError,
   NetworkError,
   NoActiveDeviceError,
   NotFoundError,
@@ -25,34 +39,127 @@ import {
   SpotifyApiError,
   ValidationError,
 } from "../../core/errors";
+import { toUri } from "../../core/links";
+import {
+  type CatalogIterators,
+  type LibraryIterators,
+  createCatalogIterators,
+  createLibraryIterators,
+  paginate,
+  paginateCursor,
+} from "../../core/pagination";
+import { parseReleaseDate } from "../../core/release-date";
+import { applyRequestOptions } from "../../core/request-options";
 import type {
+  AdapterCapabilities,
+  AdapterFeature,
+  AdapterFeatureMap,
+  AdapterRequestOptions,
   Album,
+  AlbumType,
   Artist,
+  ArtistAlbumsOptions,
+  Audiobook,
+  AudiobookProvider,
+  CallOptions,
+  Chapter,
+  Copyright,
   CreatePlaylistOptions,
   CurrentUser,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
   Device,
+  Episode,
   Image,
+  MarketOptions,
+  MarketSearchOptions,
+  NotFoundResourceType,
   PaginatedResult,
   PlayOptions,
+  PlayableItem,
   PlaybackState,
   Playlist,
   PlaylistDetails,
+  PodcastProvider,
   QueueState,
   RecentlyPlayedItem,
+  RecentlyPlayedOptions,
   RecommendationOptions,
   RecommendationSeeds,
   RepeatMode,
   SearchOptions,
   SearchResult,
+  Show,
   SimplifiedPlaylist,
   SpotifyAdapter,
   SpotifyConfig,
+  SpotifyTokenAuthConfig,
   SpotifyUserAdapter,
   SpotifyUserAuthConfig,
   TopItemsOptions,
   Track,
   User,
 } from "../../core/types";
+import { SPOTIFY_REQUIRED_SCOPES, getSpotifyScopes } from "./scopes";
+
+/** Message of the AuthenticationError thrown when a user token is rejected */
+const USER_UNAUTHORIZED_MESSAGE = "Invalid or expired access token";
+
+/** Maximum number of IDs accepted by Spotify's batch lookup endpoints */
+const SPOTIFY_MAX_BATCH_IDS = { tracks: 50, albums: 20, artists: 50 };
+
+/** Largest offset accepted by Spotify's search endpoint */
+const SPOTIFY_MAX_SEARCH_OFFSET = 1000;
+
+/**
+ * Capabilities of the Client Credentials adapter.
+ * Without a user token only public catalog data is reachable.
+ */
+const SPOTIFY_CAPABILITIES: AdapterCapabilities = {
+  playback: false,
+  recommendations: false,
+  relatedArtists: false,
+  collaborativePlaylists: false,
+  userProfile: false,
+  followedArtists: false,
+  listeningHistory: false,
+  newReleases: false,
+  podcasts: true,
+  audiobooks: true,
+  maxBatchIds: SPOTIFY_MAX_BATCH_IDS,
+  maxSearchOffset: SPOTIFY_MAX_SEARCH_OFFSET,
+};
+
+/**
+ * Capabilities of the user-authenticated adapter.
+ * Recommendations and related artists were restricted for new apps in November 2024.
+ */
+const SPOTIFY_USER_CAPABILITIES: AdapterCapabilities = {
+  playback: true,
+  recommendations: "deprecated",
+  relatedArtists: "deprecated",
+  collaborativePlaylists: true,
+  userProfile: true,
+  followedArtists: true,
+  listeningHistory: true,
+  newReleases: true,
+  podcasts: true,
+  audiobooks: true,
+  maxBatchIds: SPOTIFY_MAX_BATCH_IDS,
+  maxSearchOffset: SPOTIFY_MAX_SEARCH_OFFSET,
+};
+
+/**
+ * Cursor-based page returned by Spotify's followed artists endpoint.
+ * The SDK types it as an offset page, but the response carries cursors.
+ */
+interface SpotifyCursorPage<T> {
+  items: T[];
+  next: string | null;
+  limit: number;
+  total: number;
+  cursors?: { after?: string | null; before?: string | null };
+}
 
 /**
  * Custom error class that includes HTTP status and headers from the Response.
@@ -104,6 +211,95 @@ class SpotifyResponseValidator implements IValidateResponses {
   }
 }
 
+/**
+ * Authentication strategy for access tokens supplied by the caller.
+ * Tokens are requested from the provider on first use and again after a 401;
+ * unlike the SDK's built-in strategies it never redirects or reads `window`.
+ */
+class ProvidedTokenStrategy implements IAuthStrategy {
+  private readonly provideToken: () => Promise<string>;
+  private token: Promise<string> | null = null;
+
+  constructor(provideToken: () => Promise<string>) {
+    this.provideToken = provideToken;
+  }
+
+  setConfiguration(): void {}
+
+  async getOrCreateAccessToken(): Promise<AccessToken> {
+    this.token ??= this.requestToken();
+    return toAccessToken(await this.token);
+  }
+
+  async getAccessToken(): Promise<AccessToken | null> {
+    return this.token ? toAccessToken(await this.token) : null;
+  }
+
+  /** Tokens are owned by the caller, so the cached one is only replaced after a 401 */
+  removeAccessToken(): void {}
+
+  /**
+   * Fetch implementation that asks the provider for a new token when a
+   * request is rejected with 401 and retries the request once with it.
+   * The retry bypasses this check, so each request refreshes at most once
+   * while a later request may still replace a rejected refreshed token.
+   */
+  readonly fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const response = await fetch(input, init);
+    const headers = new Headers(init?.headers);
+    const usedToken = headers.get("Authorization")?.replace(/^Bearer /, "");
+
+    if (response.status !== 401 || usedToken === undefined) {
+      return response;
+    }
+    const token = await this.refresh(usedToken);
+    if (token === usedToken) {
+      return response;
+    }
+
+    headers.set("Authorization", `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+  };
+
+  /**
+   * Replaces a rejected token with a new one from the provider.
+   * Concurrent requests rejected with the same token share one provider call.
+   */
+  private async refresh(rejectedToken: string): Promise<string> {
+    const current = await this.token?.catch(() => null);
+    if (current && current !== rejectedToken) {
+      return current;
+    }
+
+    this.token = this.requestToken();
+    return this.token;
+  }
+
+  /** Calls the provider, forgetting the pending token if it fails */
+  private requestToken(): Promise<string> {
+    return this.provideToken().catch((error: unknown) => {
+      this.token = null;
+      throw error;
+    });
+  }
+}
+
+/**
+ * Wraps a bare access token in the SDK's token shape.
+ * The lifetime is unknown to the adapter, so expiry is left to the provider.
+ */
+function toAccessToken(token: string): AccessToken {
+  return {
+    access_token: token,
+    token_type: "Bearer",
+    expires_in: 0,
+    refresh_token: "",
+  };
+}
+
 /**
  * Transforms a Spotify SDK Image to musix.js Image.
  * @param image - Spotify SDK Image
@@ -130,6 +326,42 @@ function transformSimplifiedArtist(artist: SpotifySimplifiedArtist): Artist {
   };
 }
 
+/** Album types reported in the album_type field */
+const SPOTIFY_ALBUM_TYPES: readonly AlbumType[] = [
+  "album",
+  "single",
+  "compilation",
+];
+
+/**
+ * Transforms the album fields that not every service provides.
+ * Artist album listings report "appears_on" in album_group, which is
+ * preferred over album_type since it tells the album belongs to another artist.
+ * @param album - Spotify SDK SimplifiedAlbum or Album
+ * @returns Optional musix.js Album fields
+ */
+function transformAlbumDetails(
+  album: SpotifySimplifiedAlbum | SpotifyAlbum,
+): Partial<Album> {
+  const albumType = album.album_type?.toLowerCase() as AlbumType;
+  return {
+    albumType:
+      "album_group" in album && album.album_group === "appears_on"
+        ? "appears_on"
+        : SPOTIFY_ALBUM_TYPES.includes(albumType)
+          ? albumType
+          : undefined,
+    label: album.label,
+    upc: album.external_ids?.upc,
+    copyrights: album.copyrights?.map((copyright) => ({
+      text: copyright.text,
+      type: copyright.type as Copyright["type"],
+    })),
+    genres: album.genres,
+    popularity: album.popularity,
+  };
+}
+
 /**
  * Transforms a Spotify SDK SimplifiedAlbum to musix.js Album.
  * @param album - Spotify SDK SimplifiedAlbum
@@ -140,10 +372,11 @@ function transformSimplifiedAlbum(album: SpotifySimplifiedAlbum): Album {
     id: album.id,
     name: album.name,
     artists: album.artists.map(transformSimplifiedArtist),
-    releaseDate: album.release_date,
+    releaseDate: parseReleaseDate(album.release_date),
     totalTracks: album.total_tracks,
     images: album.images.map(transformImage),
     externalUrl: album.external_urls.spotify,
+    ...transformAlbumDetails(album),
   };
 }
 
@@ -157,10 +390,11 @@ function transformAlbum(album: SpotifyAlbum): Album {
     id: album.id,
     name: album.name,
     artists: album.artists.map(transformSimplifiedArtist),
-    releaseDate: album.release_date,
+    releaseDate: parseReleaseDate(album.release_date),
     totalTracks: album.total_tracks,
     images: album.images.map(transformImage),
     externalUrl: album.external_urls.spotify,
+    ...transformAlbumDetails(album),
   };
 }
 
@@ -190,13 +424,12 @@ function transformArtist(artist: SpotifyArtist): Artist {
  */
 function transformTrack(track: SpotifyTrack): Track {
   return {
-    id: track.id,
-    name: track.name,
-    artists: track.artists.map(transformSimplifiedArtist),
-    album: transformSimplifiedAlbum(track.album),
-    durationMs: track.duration_ms,
-    previewUrl: track.preview_url,
-    externalUrl: track.external_urls.spotify,
+    ...transformSimplifiedTrackWithAlbum(
+      track,
+      transformSimplifiedAlbum(track.album),
+    ),
+    isrc: track.external_ids?.isrc,
+    popularity: track.popularity,
   };
 }
 
@@ -218,9 +451,165 @@ function transformSimplifiedTrackWithAlbum(
     durationMs: track.duration_ms,
     previewUrl: track.preview_url,
     externalUrl: track.external_urls.spotify,
+    explicit: track.explicit,
+    trackNumber: track.track_number,
+    discNumber: track.disc_number,
+    isPlayable: track.is_playable,
+    restrictions: track.restrictions ? [track.restrictions.reason] : undefined,
+    // Omitted when the request names a market
+    availableMarkets: track.available_markets,
+  };
+}
+
+/**
+ * Transforms a Spotify SDK SimplifiedShow to musix.js Show.
+ * @param show - Spotify SDK SimplifiedShow or Show
+ * @returns musix.js Show
+ */
+function transformShow(show: SpotifySimplifiedShow): Show {
+  return {
+    id: show.id,
+    name: show.name,
+    publisher: show.publisher,
+    description: show.description,
+    images: show.images.map(transformImage),
+    totalEpisodes: show.total_episodes,
+    externalUrl: show.external_urls.spotify,
+    explicit: show.explicit,
+    languages: show.languages,
+  };
+}
+
+/**
+ * Transforms a Spotify SDK Episode to musix.js Episode.
+ * @param episode - Spotify SDK Episode
+ * @returns musix.js Episode
+ */
+function transformEpisode(episode: SpotifyEpisode): Episode {
+  return transformSimplifiedEpisode(episode, transformShow(episode.show));
+}
+
+/**
+ * Transforms a Spotify SDK SimplifiedEpisode to musix.js Episode.
+ * @param episode - Spotify SDK SimplifiedEpisode (from show episodes or search)
+ * @param show - musix.js Show object to attach to the episode, if known
+ * @returns musix.js Episode
+ */
+function transformSimplifiedEpisode(
+  episode: SpotifySimplifiedEpisode,
+  show?: Show,
+): Episode {
+  return {
+    id: episode.id,
+    name: episode.name,
+    description: episode.description,
+    show,
+    durationMs: episode.duration_ms,
+    releaseDate: parseReleaseDate(episode.release_date),
+    images: episode.images.map(transformImage),
+    audioPreviewUrl: episode.audio_preview_url ?? null,
+    externalUrl: episode.external_urls.spotify,
+    explicit: episode.explicit,
+    isPlayable: episode.is_playable,
+    languages: episode.languages,
+    // Only present for requests made with a user token
+    resumePoint: episode.resume_point && {
+      fullyPlayed: episode.resume_point.fully_played,
+      positionMs: episode.resume_point.resume_position_ms,
+    },
+  };
+}
+
+/**
+ * Transforms a Spotify SDK SimplifiedAudiobook to musix.js Audiobook.
+ * @param audiobook - Spotify SDK SimplifiedAudiobook or Audiobook
+ * @returns musix.js Audiobook
+ */
+function transformAudiobook(audiobook: SpotifySimplifiedAudiobook): Audiobook {
+  return {
+    id: audiobook.id,
+    name: audiobook.name,
+    authors: audiobook.authors.map((author) => author.name),
+    narrators: audiobook.narrators.map((narrator) => narrator.name),
+    publisher: audiobook.publisher,
+    description: audiobook.description,
+    images: audiobook.images.map(transformImage),
+    totalChapters: audiobook.total_chapters,
+    externalUrl: audiobook.external_urls.spotify,
+    edition: audiobook.edition,
+    explicit: audiobook.explicit,
+    languages: audiobook.languages,
+  };
+}
+
+/**
+ * Transforms a Spotify SDK Chapter to musix.js Chapter.
+ * @param chapter - Spotify SDK Chapter
+ * @returns musix.js Chapter
+ */
+function transformChapter(chapter: SpotifyChapter): Chapter {
+  return transformSimplifiedChapterWithAudiobook(
+    chapter,
+    transformAudiobook(chapter.audiobook),
+  );
+}
+
+/**
+ * Transforms a Spotify SDK SimplifiedChapter to musix.js Chapter using audiobook info.
+ * @param chapter - Spotify SDK SimplifiedChapter (from audiobook chapters endpoint)
+ * @param audiobook - musix.js Audiobook object to attach to the chapter
+ * @returns musix.js Chapter
+ */
+function transformSimplifiedChapterWithAudiobook(
+  chapter: SpotifySimplifiedChapter,
+  audiobook: Audiobook,
+): Chapter {
+  return {
+    id: chapter.id,
+    name: chapter.name,
+    description: chapter.description,
+    audiobook,
+    chapterNumber: chapter.chapter_number,
+    durationMs: chapter.duration_ms,
+    releaseDate: parseReleaseDate(chapter.release_date),
+    images: chapter.images.map(transformImage),
+    audioPreviewUrl: chapter.audio_preview_url ?? null,
+    externalUrl: chapter.external_urls.spotify,
+    explicit: chapter.explicit,
+    isPlayable: chapter.is_playable,
+    restrictions: chapter.restrictions
+      ? [chapter.restrictions.reason]
+      : undefined,
+    languages: chapter.languages,
+    resumePoint: chapter.resume_point && {
+      fullyPlayed: chapter.resume_point.fully_played,
+      positionMs: chapter.resume_point.resume_position_ms,
+    },
   };
 }
 
+/**
+ * Transforms the track, episode or chapter of the player to musix.js PlayableItem.
+ * @param item - Spotify SDK Track, Episode or Chapter
+ * @returns musix.js PlayableItem, or null for other items such as ads
+ */
+function transformPlayableItem(item: SpotifyTrackItem): PlayableItem | null {
+  switch (item.type) {
+    case "track":
+      return { type: "track", ...transformTrack(item as SpotifyTrack) };
+    case "episode":
+      return { type: "episode", ...transformEpisode(item as SpotifyEpisode) };
+    // Missing from the SDK's TrackItem, but reported for audiobooks
+    case "chapter":
+      return {
+        type: "chapter",
+        ...transformChapter(item as unknown as SpotifyChapter),
+      };
+    default:
+      return null;
+  }
+}
+
 /**
  * Transforms a Spotify SDK Playlist to musix.js Playlist.
  * @param playlist - Spotify SDK Playlist
@@ -288,82 +677,214 @@ function isHttpError(
   );
 }
 
+/** How the failure of an adapter method is reported */
+interface SpotifyErrorContext {
+  /** Resource reported by NotFoundError when Spotify answers 404 */
+  resourceType?: NotFoundResourceType;
+  resourceId?: string;
+  /**
+   * Player commands report a missing Premium subscription as 403, and a
+   * missing active device as 404 unless they target a given resource
+   */
+  playback?: boolean;
+}
+
+/** Options of the request pipeline of an adapter */
+interface SpotifyExecutorOptions {
+  /** Message of the AuthenticationError thrown after a 401 */
+  unauthorizedMessage: string;
+  /**
+   * Whether to clear the cached token and send the request again after a
+   * 401. Off when the auth strategy refreshes rejected tokens itself
+   */
+  refreshOnUnauthorized: boolean;
+}
+
+/** Sends the requests of an adapter method and translates their failure */
+type SpotifyExecutor = <T>(
+  sdk: SpotifyApi,
+  apiCall: () => Promise<T>,
+  context?: SpotifyErrorContext,
+) => Promise<T>;
+
 /**
  * Transforms a Spotify SDK error to the appropriate musix.js error type.
  * @param error - The error thrown by the Spotify SDK
- * @param resourceType - The type of resource being accessed (for NotFoundError)
- * @param resourceId - The ID of the resource being accessed (for NotFoundError)
+ * @param context - Resource and kind of the failed method
+ * @param unauthorizedMessage - Message of the AuthenticationError for 401
  * @returns The appropriate musix.js error
  */
 function transformError(
   error: unknown,
-  resourceType: "track" | "album" | "artist" | "playlist",
-  resourceId: string,
+  context: SpotifyErrorContext,
+  unauthorizedMessage: string,
 ): Error {
+  // Errors raised by musix.js itself, such as TimeoutError, are already classified
+  if (error instanceof MusixError) {
+    return error;
+  }
+
   // Handle errors with HTTP status codes (from SpotifyHttpError or mocked errors)
   if (isHttpError(error)) {
+    const options = { service: "spotify", status: error.status } as const;
     switch (error.status) {
       case 401:
-        return new AuthenticationError("Invalid client credentials");
+        return new AuthenticationError(unauthorizedMessage, options);
+      case 403:
+        // Spotify names no scope, so the method wrapper adds them
+        if (/insufficient client scope/i.test(error.message)) {
+          return new MissingScopeError(undefined, [], options);
+        }
+        if (context.playback) {
+          return new PremiumRequiredError(options);
+        }
+        break;
       case 404:
-        return new NotFoundError(resourceType, resourceId);
+        if (context.resourceType) {
+          return new NotFoundError(
+            context.resourceType,
+            context.resourceId ?? "",
+            options,
+          );
+        }
+        if (context.playback) {
+          return new NoActiveDeviceError(options);
+        }
+        break;
       case 429: {
         const retryAfter = error.headers?.["retry-after"]
           ? Number.parseInt(error.headers["retry-after"], 10)
           : 60; // Default to 60 seconds if header is missing
-        return new RateLimitError(retryAfter);
+        return new RateLimitError(retryAfter, options);
       }
-      default:
-        return new SpotifyApiError(
-          error.status,
-          error.message || "Unknown error",
-        );
     }
+    return new SpotifyApiError(error.status, error.message || "Unknown error");
   }
 
   // Handle network errors (errors without status property)
   if (error instanceof Error) {
-    return new NetworkError(error.message, error);
+    return new NetworkError(error.message, error, { service: "spotify" });
   }
 
   // Handle non-Error objects
-  return new NetworkError(String(error));
+  return new NetworkError(String(error), undefined, { service: "spotify" });
 }
 
 /**
- * Executes an API call with automatic token refresh on 401 errors.
- * If the first call fails with 401, clears the token cache and retries once.
- * If the retry also fails with 401, the error is propagated.
- *
- * @param sdk - The SpotifyApi SDK instance
- * @param apiCall - The API call to execute
- * @param resourceType - The type of resource being accessed (for error messages)
- * @param resourceId - The ID of the resource being accessed (for error messages)
- * @returns The result of the API call
+ * Creates the pipeline every adapter method sends its requests through.
+ * A 401 may mean that the cached token has expired, so the token is cleared
+ * and the request sent once more; every other failure, and a second 401,
+ * is translated to a musix.js error.
+ * @param options - Authentication message and refresh policy of the adapter
+ * @returns Executor shared by the methods of the adapter
  */
-async function executeWithTokenRefresh<T>(
-  sdk: ReturnType<typeof SpotifyApi.withClientCredentials>,
-  apiCall: () => Promise<T>,
-  resourceType: "track" | "album" | "artist" | "playlist",
-  resourceId: string,
-): Promise<T> {
-  try {
-    return await apiCall();
-  } catch (error) {
-    // Check if this is a 401 error (potential token expiration)
-    if (isHttpError(error) && error.status === 401) {
-      // Clear the cached token and retry once
-      sdk.logOut();
-      try {
-        return await apiCall();
-      } catch (retryError) {
-        // If retry also fails, throw the appropriate error
-        throw transformError(retryError, resourceType, resourceId);
+function createExecutor(options: SpotifyExecutorOptions): SpotifyExecutor {
+  return async (sdk, apiCall, context = {}) => {
+    try {
+      return await apiCall();
+    } catch (error) {
+      if (
+        !options.refreshOnUnauthorized ||
+        !isHttpError(error) ||
+        error.status !== 401
+      ) {
+        throw transformError(error, context, options.unauthorizedMessage);
       }
     }
-    // For non-401 errors, throw immediately without retry
-    throw transformError(error, resourceType, resourceId);
+
+    // Clear the cached token and retry once
+    sdk.logOut();
+    try {
+      return await apiCall();
+    } catch (retryError) {
+      throw transformError(retryError, context, options.unauthorizedMessage);
+    }
+  };
+}
+
+/** Scopes granted to a token, or a function reading them before each call */
+type GrantedScopes = readonly string[] | (() => Promise<readonly string[]>);
+
+/**
+ * Checks the OAuth scopes of the user adapter methods listed in
+ * SPOTIFY_REQUIRED_SCOPES. When the granted scopes are known, a method
+ * lacking one rejects before any request is sent; a 403 for a missing scope
+ * is reported with the method name and the scopes of the table.
+ * @param methods - User adapter methods
+ * @param grantedScopes - Scopes of the token, a function returning them, or
+ * undefined if unknown
+ * @returns Object with the same members, checking scopes
+ */
+function withScopeCheck<T extends object>(
+  methods: T,
+  grantedScopes: GrantedScopes | undefined,
+): T {
+  const wrapped = { ...methods } as Record<string, unknown>;
+  for (const [name, method] of Object.entries(wrapped)) {
+    if (typeof method !== "function" || !(name in SPOTIFY_REQUIRED_SCOPES)) {
+      continue;
+    }
+    const operation = name as keyof SpotifyUserAdapter;
+    wrapped[name] = async (...args: unknown[]) => {
+      const granted =
+        typeof grantedScopes === "function"
+          ? await grantedScopes()
+          : grantedScopes;
+      if (granted) {
+        const missing = getSpotifyScopes([operation], granted);
+        if (missing.length > 0) {
+          throw new MissingScopeError(name, missing, { service: "spotify" });
+        }
+      }
+      try {
+        return await method.apply(methods, args);
+      } catch (error) {
+        if (error instanceof MissingScopeError && !error.operation) {
+          throw new MissingScopeError(name, getSpotifyScopes([operation]), {
+            service: "spotify",
+            status: error.status,
+            cause: error,
+          });
+        }
+        throw error;
+      }
+    };
   }
+  return wrapped as T;
+}
+
+/**
+ * Creates a function returning the SDK instance to use for one adapter call.
+ * Calls without a signal or timeout share the given instance. Other calls
+ * get an instance whose fetch is bound to them; it authenticates through
+ * the shared instance, so the token cache is shared as well.
+ * @param sdk - The shared SpotifyApi SDK instance
+ * @param defaultTimeoutMs - Timeout of calls that set none
+ * @param fetchImpl - Fetch used by the shared instance, if customized
+ * @returns Binder called at the start of every method
+ */
+function createSdkBinder(
+  sdk: SpotifyApi,
+  defaultTimeoutMs: number | undefined,
+  fetchImpl?: FetchFunction,
+): (callOptions: CallOptions | undefined) => SpotifyApi {
+  const sharedAuth: IAuthStrategy = {
+    setConfiguration() {},
+    getOrCreateAccessToken: async () => (await sdk.authenticate()).accessToken,
+    getAccessToken: () => sdk.getAccessToken(),
+    removeAccessToken: () => sdk.logOut(),
+  };
+
+  return (callOptions) => {
+    const fetch = bindFetch(callOptions, defaultTimeoutMs, fetchImpl);
+    if (!fetch) {
+      return sdk;
+    }
+    return new SpotifyApi(sharedAuth, {
+      fetch,
+      responseValidator: new SpotifyResponseValidator(),
+    });
+  };
 }
 
 /**
@@ -392,24 +913,46 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     [],
     { responseValidator: new SpotifyResponseValidator() },
   );
+  const bindSdk = createSdkBinder(sdk, config.timeoutMs);
+  const execute = createExecutor({
+    unauthorizedMessage: "Invalid client credentials",
+    refreshOnUnauthorized: true,
+  });
+
+  // Adapter object implementing SpotifyAdapter interface (iterators are derived below)
+  const adapter: Omit<
+    SpotifyAdapter,
+    | keyof CatalogIterators
+    | keyof BulkLookups
+    | "iterateShowEpisodes"
+    | "iterateAudiobookChapters"
+  > = {
+    service: "spotify",
+    capabilities: SPOTIFY_CAPABILITIES,
+    ...createPodcastMethods(bindSdk, execute),
+    ...createAudiobookMethods(bindSdk, execute),
+
+    supports<F extends AdapterFeature>(
+      feature: F,
+    ): this is AdapterFeatureMap[F] {
+      return isFeatureSupported(SPOTIFY_CAPABILITIES, feature);
+    },
 
-  // Return adapter object implementing SpotifyAdapter interface
-  return {
     /**
      * Retrieves a track by its Spotify ID.
      * @param id - The Spotify track ID
      * @returns Promise resolving to Track object
      * @throws {NotFoundError} If the track does not exist
      */
-    async getTrack(id: string): Promise<Track> {
-      return executeWithTokenRefresh(
+    async getTrack(id: string, callOptions?: CallOptions): Promise<Track> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyTrack = await sdk.tracks.get(id);
           return transformTrack(spotifyTrack);
         },
-        "track",
-        id,
+        { resourceType: "track", resourceId: id },
       );
     },
 
@@ -419,7 +962,11 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
      * @returns Promise resolving to array of Track objects
      * @throws {ValidationError} If more than 50 IDs are provided
      */
-    async getTracks(ids: string[]): Promise<Track[]> {
+    async getTracks(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Track[]> {
+      const sdk = bindSdk(callOptions);
       // AC-059: Empty array handling - return early without API call
       if (ids.length === 0) {
         return [];
@@ -432,7 +979,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
         );
       }
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const spotifyTracks = await sdk.tracks.get(ids);
@@ -441,8 +988,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             .filter((track): track is SpotifyTrack => track != null)
             .map(transformTrack);
         },
-        "track",
-        ids.join(","),
+        { resourceType: "track", resourceId: ids.join(",") },
       );
     },
 
@@ -455,13 +1001,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     async searchTracks(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<Track>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           // Call Spotify SDK search API
@@ -483,8 +1031,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             offset,
           };
         },
-        "track",
-        query,
+        { resourceType: "track", resourceId: query },
       );
     },
 
@@ -497,13 +1044,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     async searchAlbums(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<Album>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           // Call Spotify SDK search API
@@ -527,8 +1076,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             offset,
           };
         },
-        "album",
-        query,
+        { resourceType: "album", resourceId: query },
       );
     },
 
@@ -541,13 +1089,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     async searchArtists(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<Artist>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           // Call Spotify SDK search API
@@ -569,8 +1119,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             offset,
           };
         },
-        "artist",
-        query,
+        { resourceType: "artist", resourceId: query },
       );
     },
 
@@ -583,13 +1132,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     async searchPlaylists(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<SimplifiedPlaylist>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           // Call Spotify SDK search API
@@ -614,8 +1165,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             offset,
           };
         },
-        "playlist",
-        query,
+        { resourceType: "playlist", resourceId: query },
       );
     },
 
@@ -625,15 +1175,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
      * @returns Promise resolving to Album object
      * @throws {NotFoundError} If the album does not exist
      */
-    async getAlbum(id: string): Promise<Album> {
-      return executeWithTokenRefresh(
+    async getAlbum(id: string, callOptions?: CallOptions): Promise<Album> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyAlbum = await sdk.albums.get(id);
           return transformAlbum(spotifyAlbum);
         },
-        "album",
-        id,
+        { resourceType: "album", resourceId: id },
       );
     },
 
@@ -643,7 +1193,11 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
      * @returns Promise resolving to array of Album objects
      * @throws {ValidationError} If more than 20 IDs are provided
      */
-    async getAlbums(ids: string[]): Promise<Album[]> {
+    async getAlbums(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Album[]> {
+      const sdk = bindSdk(callOptions);
       // AC-059: Empty array handling - return early without API call
       if (ids.length === 0) {
         return [];
@@ -656,7 +1210,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
         );
       }
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const spotifyAlbums = await sdk.albums.get(ids);
@@ -665,8 +1219,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             .filter((album): album is SpotifyAlbum => album != null)
             .map(transformAlbum);
         },
-        "album",
-        ids.join(","),
+        { resourceType: "album", resourceId: ids.join(",") },
       );
     },
 
@@ -676,15 +1229,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
      * @returns Promise resolving to Artist object
      * @throws {NotFoundError} If the artist does not exist
      */
-    async getArtist(id: string): Promise<Artist> {
-      return executeWithTokenRefresh(
+    async getArtist(id: string, callOptions?: CallOptions): Promise<Artist> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyArtist = await sdk.artists.get(id);
           return transformArtist(spotifyArtist);
         },
-        "artist",
-        id,
+        { resourceType: "artist", resourceId: id },
       );
     },
 
@@ -694,7 +1247,11 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
      * @returns Promise resolving to array of Artist objects
      * @throws {ValidationError} If more than 50 IDs are provided
      */
-    async getArtists(ids: string[]): Promise<Artist[]> {
+    async getArtists(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Artist[]> {
+      const sdk = bindSdk(callOptions);
       // AC-059: Empty array handling - return early without API call
       if (ids.length === 0) {
         return [];
@@ -707,7 +1264,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
         );
       }
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const spotifyArtists = await sdk.artists.get(ids);
@@ -716,34 +1273,35 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             .filter((artist): artist is SpotifyArtist => artist != null)
             .map(transformArtist);
         },
-        "artist",
-        ids.join(","),
+        { resourceType: "artist", resourceId: ids.join(",") },
       );
     },
 
     /**
      * Retrieves albums by an artist.
      * @param artistId - The Spotify artist ID
-     * @param options - Optional pagination options (limit, offset)
+     * @param options - Optional pagination options (limit, offset) and album types
      * @returns Promise resolving to PaginatedResult containing albums
      */
     async getArtistAlbums(
       artistId: string,
-      options?: SearchOptions,
+      options?: ArtistAlbumsOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Album>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           // Call Spotify SDK to get artist's albums
           // Signature: albums(id, includeGroups?, market?, limit?, offset?)
           const response = await sdk.artists.albums(
             artistId,
-            undefined, // includeGroups
+            options?.includeGroups?.join(","),
             undefined, // market
             limit,
             offset,
@@ -763,8 +1321,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             hasNext,
           };
         },
-        "artist",
-        artistId,
+        { resourceType: "artist", resourceId: artistId },
       );
     },
 
@@ -777,8 +1334,10 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     async getArtistTopTracks(
       artistId: string,
       market: string,
+      callOptions?: CallOptions,
     ): Promise<Track[]> {
-      return executeWithTokenRefresh(
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           // Call Spotify SDK to get artist's top tracks
@@ -791,8 +1350,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
           // Transform Spotify tracks to musix.js Track type
           return response.tracks.map(transformTrack);
         },
-        "artist",
-        artistId,
+        { resourceType: "artist", resourceId: artistId },
       );
     },
 
@@ -805,13 +1363,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     async getAlbumTracks(
       albumId: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Track>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           // Fetch album info and tracks in parallel
@@ -840,8 +1400,7 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             hasNext,
           };
         },
-        "album",
-        albumId,
+        { resourceType: "album", resourceId: albumId },
       );
     },
 
@@ -851,15 +1410,18 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
      * @returns Promise resolving to Playlist object
      * @throws {NotFoundError} If the playlist does not exist
      */
-    async getPlaylist(id: string): Promise<Playlist> {
-      return executeWithTokenRefresh(
+    async getPlaylist(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<Playlist> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyPlaylist = await sdk.playlists.getPlaylist(id);
           return transformPlaylist(spotifyPlaylist);
         },
-        "playlist",
-        id,
+        { resourceType: "playlist", resourceId: id },
       );
     },
 
@@ -875,13 +1437,15 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
     async getPlaylistTracks(
       playlistId: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Track>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           // Call Spotify SDK to get playlist items
@@ -916,11 +1480,39 @@ export function createSpotifyAdapter(config: SpotifyConfig): SpotifyAdapter {
             hasNext,
           };
         },
-        "playlist",
-        playlistId,
+        { resourceType: "playlist", resourceId: playlistId },
       );
     },
   };
+
+  // Iterators and bulk lookups use the configured methods so that every
+  // request they send is scheduled and retried
+  const configured = applyRequestOptions(adapter, config);
+  return {
+    ...configured,
+    ...createCatalogIterators(configured),
+    ...createBulkLookups(configured),
+    iterateShowEpisodes: (showId, options) =>
+      paginate(
+        (page, call) =>
+          configured.getShowEpisodes(
+            showId,
+            { ...page, market: options?.market },
+            call,
+          ),
+        options,
+      ),
+    iterateAudiobookChapters: (audiobookId, options) =>
+      paginate(
+        (page, call) =>
+          configured.getAudiobookChapters(
+            audiobookId,
+            { ...page, market: options?.market },
+            call,
+          ),
+        options,
+      ),
+  };
 }
 
 /**
@@ -939,6 +1531,36 @@ function transformUserProfile(profile: SpotifyUserProfile): CurrentUser {
   };
 }
 
+/**
+ * Converts a recently played time filter to the Unix timestamp in milliseconds
+ * expected by Spotify. Cursors returned by the endpoint are such timestamps.
+ * @param name - Name of the option, used in the error message
+ * @param value - Date, timestamp or cursor string
+ * @returns Unix timestamp in milliseconds
+ * @throws {ValidationError} If the value is not a valid point in time
+ */
+function toPlayedAtTimestamp(
+  name: "after" | "before",
+  value: Date | number | string,
+): number {
+  const timestamp =
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : value;
+  if (
+    typeof timestamp !== "number" ||
+    !Number.isInteger(timestamp) ||
+    timestamp < 0
+  ) {
+    throw new ValidationError(
+      `${name} must be a Date, a Unix timestamp in milliseconds or a cursor`,
+    );
+  }
+  return timestamp;
+}
+
 /**
  * Creates a Spotify adapter with user authentication (PKCE flow).
  * This adapter extends the base adapter with user-specific features like
@@ -974,21 +1596,116 @@ export function createSpotifyUserAdapter(
     },
   );
 
+  return createUserAdapterWithSdk(
+    createSdkBinder(sdk, config.timeoutMs),
+    createExecutor({
+      unauthorizedMessage: USER_UNAUTHORIZED_MESSAGE,
+      refreshOnUnauthorized: true,
+    }),
+    config,
+    config.scopes,
+  );
+}
+
+/**
+ * Creates a Spotify adapter from user access tokens supplied by the caller.
+ * The adapter never redirects and has no dependency on `window`, so it can run
+ * on a backend that already holds user tokens. When a request is rejected with
+ * 401, `getAccessToken()` is called again and the request is retried once.
+ *
+ * @param config - Static access token or async token provider
+ * @returns SpotifyUserAdapter instance
+ *
+ * @example
+ * ```typescript
+ * const adapter = createSpotifyTokenAdapter({
+ *   getAccessToken: async () => tokenStore.getFreshToken(userId),
+ * });
+ *
+ * const user = await adapter.getCurrentUser();
+ * ```
+ */
+export function createSpotifyTokenAdapter(
+  config: SpotifyTokenAuthConfig,
+): SpotifyUserAdapter {
+  const strategy = new ProvidedTokenStrategy(
+    "getAccessToken" in config
+      ? config.getAccessToken
+      : async () => config.accessToken,
+  );
+  const sdk = new SpotifyApi(strategy, {
+    fetch: strategy.fetch,
+    responseValidator: new SpotifyResponseValidator(),
+  });
+
+  // The strategy already asks the provider for a new token after a 401
+  return createUserAdapterWithSdk(
+    createSdkBinder(sdk, config.timeoutMs, strategy.fetch),
+    createExecutor({
+      unauthorizedMessage: USER_UNAUTHORIZED_MESSAGE,
+      refreshOnUnauthorized: false,
+    }),
+    config,
+    config.scopes,
+  );
+}
+
+/**
+ * Creates the user adapter methods on top of an authenticated SDK instance.
+ * Shared by the PKCE and token-only factories.
+ * @param bindSdk - Returns the SDK instance bound to the options of a call
+ * @param execute - Error translation and token refresh pipeline
+ * @param requestOptions - Scheduler and retry policy applied to every method
+ * @param grantedScopes - Scopes of the token or a function returning them, if known
+ * @returns SpotifyUserAdapter instance
+ */
+function createUserAdapterWithSdk(
+  bindSdk: (callOptions: CallOptions | undefined) => SpotifyApi,
+  execute: SpotifyExecutor,
+  requestOptions: AdapterRequestOptions,
+  grantedScopes: GrantedScopes | undefined,
+): SpotifyUserAdapter {
   // Get the base adapter methods by creating a temporary base adapter config
   // We'll use the SDK instance directly for user-specific methods
-  const baseAdapter = createBaseAdapterMethods(sdk);
-
-  return {
+  const baseAdapter = createBaseAdapterMethods(bindSdk, execute);
+
+  // Adapter object implementing SpotifyUserAdapter (iterators are derived below)
+  const adapter: Omit<
+    SpotifyUserAdapter,
+    | keyof CatalogIterators
+    | keyof BulkLookups
+    | keyof LibraryIterators
+    | "iterateFollowedArtists"
+    | "iterateNewReleases"
+    | "iterateShowEpisodes"
+    | "iterateSavedShows"
+    | "iterateAudiobookChapters"
+    | "iterateSavedAudiobooks"
+  > = {
     // Include all base adapter methods
     ...baseAdapter,
+    capabilities: SPOTIFY_USER_CAPABILITIES,
+
+    supports<F extends AdapterFeature>(
+      feature: F,
+    ): this is AdapterFeatureMap[F] {
+      return isFeatureSupported(SPOTIFY_USER_CAPABILITIES, feature);
+    },
 
     /**
      * Gets the current authenticated user's profile.
      * @returns Promise resolving to CurrentUser object
      */
-    async getCurrentUser(): Promise<CurrentUser> {
-      const profile = await sdk.currentUser.profile();
-      return transformUserProfile(profile);
+    async getCurrentUser(callOptions?: CallOptions): Promise<CurrentUser> {
+      const sdk = bindSdk(callOptions);
+      return execute(
+        sdk,
+        async () => {
+          const profile = await sdk.currentUser.profile();
+          return transformUserProfile(profile);
+        },
+        { resourceType: "user", resourceId: "me" },
+      );
     },
 
     /**
@@ -997,8 +1714,13 @@ export function createSpotifyUserAdapter(
      * @throws {ValidationError} If both trackIds and contextUri are provided
      * @throws {PremiumRequiredError} If user doesn't have Premium subscription
      * @throws {NoActiveDeviceError} If no active playback device is found
+     * @throws {NotFoundError} If the given deviceId does not exist
      */
-    async play(options?: PlayOptions): Promise<void> {
+    async play(
+      options?: PlayOptions,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
       // Validate mutually exclusive options
       if (options?.trackIds && options?.contextUri) {
         throw new ValidationError(
@@ -1007,7 +1729,9 @@ export function createSpotifyUserAdapter(
       }
 
       // Convert trackIds to Spotify URIs
-      const uris = options?.trackIds?.map((id) => `spotify:track:${id}`);
+      const uris = options?.trackIds?.map((id) =>
+        toUri({ service: "spotify", type: "track", id }),
+      );
 
       // Build offset object if offsetIndex is provided
       const offset =
@@ -1015,150 +1739,129 @@ export function createSpotifyUserAdapter(
           ? { position: options.offsetIndex }
           : undefined;
 
-      try {
-        await sdk.player.startResumePlayback(
-          options?.deviceId ?? "",
-          options?.contextUri,
-          uris,
-          offset,
-          options?.positionMs,
-        );
-      } catch (error) {
-        // Handle playback-specific errors
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-        }
-        throw error;
-      }
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.startResumePlayback(
+            options?.deviceId ?? "",
+            options?.contextUri,
+            uris,
+            offset,
+            options?.positionMs,
+          );
+        },
+        {
+          playback: true,
+          resourceType: options?.deviceId ? "device" : undefined,
+          resourceId: options?.deviceId,
+        },
+      );
     },
     /**
      * Pauses playback on the user's active device.
      * @throws {PremiumRequiredError} If user doesn't have Premium subscription
      * @throws {NoActiveDeviceError} If no active playback device is found
      */
-    async pause(): Promise<void> {
-      try {
-        await sdk.player.pausePlayback("");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-        }
-        throw error;
-      }
+    async pause(callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.pausePlayback("");
+        },
+        { playback: true },
+      );
     },
-    async skipToNext(): Promise<void> {
-      try {
-        await sdk.player.skipToNext("");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-        }
-        throw error;
-      }
+    async skipToNext(callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.skipToNext("");
+        },
+        { playback: true },
+      );
     },
-    async skipToPrevious(): Promise<void> {
-      try {
-        await sdk.player.skipToPrevious("");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-        }
-        throw error;
-      }
+    async skipToPrevious(callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.skipToPrevious("");
+        },
+        { playback: true },
+      );
     },
-    async seek(positionMs: number): Promise<void> {
-      try {
-        await sdk.player.seekToPosition(positionMs, "");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-        }
-        throw error;
-      }
+    async seek(positionMs: number, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.seekToPosition(positionMs, "");
+        },
+        { playback: true },
+      );
     },
-    async getPlaybackState(): Promise<PlaybackState | null> {
-      const state = await sdk.player.getPlaybackState();
+    async getPlaybackState(
+      callOptions?: CallOptions,
+    ): Promise<PlaybackState | null> {
+      const sdk = bindSdk(callOptions);
+      return execute(sdk, async () => {
+        // Episodes are only reported when requested as an additional type
+        const state = await sdk.player.getPlaybackState(undefined, "episode");
 
-      if (!state) {
-        return null;
-      }
-
-      const device: Device = {
-        id: state.device.id ?? "",
-        name: state.device.name,
-        type: state.device.type,
-        isActive: state.device.is_active,
-        volumePercent: state.device.volume_percent ?? 0,
-      };
+        if (!state) {
+          return null;
+        }
 
-      // Transform track if item exists and is a track (has album property)
-      // Note: item can be either Track or Episode; we only support tracks
-      const track =
-        state.item && "album" in state.item
-          ? transformTrack(state.item as SpotifyTrack)
-          : null;
+        const device: Device = {
+          id: state.device.id ?? "",
+          name: state.device.name,
+          type: state.device.type,
+          isActive: state.device.is_active,
+          volumePercent: state.device.volume_percent ?? 0,
+        };
 
-      return {
-        isPlaying: state.is_playing,
-        track,
-        progressMs: state.progress_ms ?? 0,
-        durationMs: state.item?.duration_ms ?? 0,
-        device,
-        shuffleState: state.shuffle_state,
-        repeatState: state.repeat_state as "off" | "track" | "context",
-      };
-    },
-    async getAvailableDevices(): Promise<Device[]> {
-      const response = await sdk.player.getAvailableDevices();
-      return response.devices.map((device) => ({
-        id: device.id ?? "",
-        name: device.name ?? "Unknown Device",
-        type: device.type ?? "Unknown",
-        isActive: device.is_active,
-        volumePercent: device.volume_percent ?? 0,
-      }));
+        return {
+          isPlaying: state.is_playing,
+          item: state.item ? transformPlayableItem(state.item) : null,
+          progressMs: state.progress_ms ?? 0,
+          durationMs: state.item?.duration_ms ?? 0,
+          device,
+          shuffleState: state.shuffle_state,
+          repeatState: state.repeat_state as "off" | "track" | "context",
+        };
+      });
+    },
+    async getAvailableDevices(callOptions?: CallOptions): Promise<Device[]> {
+      const sdk = bindSdk(callOptions);
+      return execute(sdk, async () => {
+        const response = await sdk.player.getAvailableDevices();
+        return response.devices.map((device) => ({
+          id: device.id ?? "",
+          name: device.name ?? "Unknown Device",
+          type: device.type ?? "Unknown",
+          isActive: device.is_active,
+          volumePercent: device.volume_percent ?? 0,
+        }));
+      });
     },
-    async transferPlayback(deviceId: string, play?: boolean): Promise<void> {
-      try {
-        await sdk.player.transferPlayback([deviceId], play ?? false);
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-        }
-        throw error;
-      }
+    async transferPlayback(
+      deviceId: string,
+      play?: boolean,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.transferPlayback([deviceId], play ?? false);
+        },
+        { playback: true },
+      );
     },
-    async setVolume(percent: number): Promise<void> {
+    async setVolume(percent: number, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
       // Validate volume range (0-100)
       if (percent < 0 || percent > 100) {
         throw new ValidationError(
@@ -1166,145 +1869,107 @@ export function createSpotifyUserAdapter(
         );
       }
 
-      try {
-        await sdk.player.setPlaybackVolume(percent, "");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.setPlaybackVolume(percent, "");
+        },
+        { playback: true },
+      );
     },
-    async setShuffle(state: boolean): Promise<void> {
-      try {
-        await sdk.player.togglePlaybackShuffle(state, "");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async setShuffle(state: boolean, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.togglePlaybackShuffle(state, "");
+        },
+        { playback: true },
+      );
     },
-    async setRepeat(state: RepeatMode): Promise<void> {
-      try {
-        await sdk.player.setRepeatMode(state, "");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async setRepeat(
+      state: RepeatMode,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.player.setRepeatMode(state, "");
+        },
+        { playback: true },
+      );
     },
-    async getQueue(): Promise<QueueState> {
-      try {
-        const response = await sdk.player.getUsersQueue();
+    async getQueue(callOptions?: CallOptions): Promise<QueueState> {
+      const sdk = bindSdk(callOptions);
+      return execute(
+        sdk,
+        async () => {
+          const response = await sdk.player.getUsersQueue();
 
-        // Transform currently playing track if it exists and is a track (has album property)
-        const currentlyPlaying =
-          response.currently_playing && "album" in response.currently_playing
-            ? transformTrack(response.currently_playing as SpotifyTrack)
+          const currentlyPlaying = response.currently_playing
+            ? transformPlayableItem(response.currently_playing)
             : null;
 
-        // Transform queue tracks (filter for tracks only, not episodes)
-        const queue = response.queue
-          .filter((item): item is SpotifyTrack => "album" in item)
-          .map(transformTrack);
+          // Items other than tracks and episodes are left out
+          const queue = response.queue.flatMap((item) => {
+            const playable = transformPlayableItem(item);
+            return playable ? [playable] : [];
+          });
 
-        return {
-          currentlyPlaying,
-          queue,
-        };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+          return {
+            currentlyPlaying,
+            queue,
+          };
+        },
+        { resourceType: "queue", resourceId: "me" },
+      );
     },
-    async addToQueue(trackId: string): Promise<void> {
-      try {
-        const uri = `spotify:track:${trackId}`;
-        await sdk.player.addItemToPlaybackQueue(uri, "");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 403) {
-            throw new PremiumRequiredError();
-          }
-          if (error.status === 404) {
-            throw new NoActiveDeviceError();
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async addToQueue(
+      trackId: string,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          const uri = toUri({ service: "spotify", type: "track", id: trackId });
+          await sdk.player.addItemToPlaybackQueue(uri, "");
+        },
+        { playback: true },
+      );
     },
     async getSavedTracks(
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Track>> {
-      // Apply default values and constraints
-      // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
-      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
-      const offset = options?.offset ?? 0;
-
-      // Call Spotify SDK to get saved tracks
-      const response = await sdk.currentUser.tracks.savedTracks(limit, offset);
+      const sdk = bindSdk(callOptions);
+      return execute(sdk, async () => {
+        // Apply default values and constraints
+        // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
+        const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
+        const offset = options?.offset ?? 0;
+
+        // Call Spotify SDK to get saved tracks
+        const response = await sdk.currentUser.tracks.savedTracks(
+          limit,
+          offset,
+        );
 
-      // Transform saved track items to musix.js Track type
-      const tracks = response.items.map((item) => transformTrack(item.track));
+        // Transform saved track items to musix.js Track type
+        const tracks = response.items.map((item) => transformTrack(item.track));
 
-      // Calculate hasNext based on whether there are more items
-      const hasNext = offset + response.items.length < response.total;
+        // Calculate hasNext based on whether there are more items
+        const hasNext = offset + response.items.length < response.total;
 
-      return {
-        items: tracks,
-        total: response.total,
-        limit,
-        offset,
-        hasNext,
-      };
+        return {
+          items: tracks,
+          total: response.total,
+          limit,
+          offset,
+          hasNext,
+        };
+      });
     },
     /**
      * Adds a track to the user's library.
@@ -1312,23 +1977,15 @@ export function createSpotifyUserAdapter(
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async saveTrack(id: string): Promise<void> {
-      try {
-        await sdk.currentUser.tracks.saveTracks([id]);
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid client credentials");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async saveTrack(id: string, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.tracks.saveTracks([id]);
+        },
+        { resourceType: "track", resourceId: id },
+      );
     },
     /**
      * Removes a track from the user's library.
@@ -1336,23 +1993,18 @@ export function createSpotifyUserAdapter(
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async removeSavedTrack(id: string): Promise<void> {
-      try {
-        await sdk.currentUser.tracks.removeSavedTracks([id]);
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid client credentials");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async removeSavedTrack(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.tracks.removeSavedTracks([id]);
+        },
+        { resourceType: "track", resourceId: id },
+      );
     },
     /**
      * Gets albums saved in the user's library.
@@ -1363,13 +2015,15 @@ export function createSpotifyUserAdapter(
      */
     async getSavedAlbums(
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Album>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      try {
+      return execute(sdk, async () => {
         // Call Spotify SDK to get saved albums
         const response = await sdk.currentUser.albums.savedAlbums(
           limit,
@@ -1389,20 +2043,7 @@ export function createSpotifyUserAdapter(
           offset,
           hasNext,
         };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+      });
     },
     /**
      * Adds an album to the user's library.
@@ -1410,23 +2051,15 @@ export function createSpotifyUserAdapter(
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async saveAlbum(id: string): Promise<void> {
-      try {
-        await sdk.currentUser.albums.saveAlbums([id]);
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid client credentials");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async saveAlbum(id: string, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.albums.saveAlbums([id]);
+        },
+        { resourceType: "album", resourceId: id },
+      );
     },
     /**
      * Removes an album from the user's library.
@@ -1434,78 +2067,182 @@ export function createSpotifyUserAdapter(
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async removeSavedAlbum(id: string): Promise<void> {
-      try {
-        await sdk.currentUser.albums.removeSavedAlbums([id]);
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid client credentials");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async removeSavedAlbum(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.albums.removeSavedAlbums([id]);
+        },
+        { resourceType: "album", resourceId: id },
+      );
     },
     /**
-     * Gets the artists followed by the current user.
-     * Note: Spotify's followedArtists API uses cursor-based pagination (after parameter)
-     * but we expose it as offset-based pagination for consistency with other methods.
-     * The offset is used to calculate the starting position in the result set.
+     * Gets podcast shows saved in the user's library.
      * @param options - Optional pagination options (limit, offset)
-     * @returns PaginatedResult containing followed artists
+     * @returns PaginatedResult containing user's saved shows
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async getFollowedArtists(
+    async getSavedShows(
       options?: SearchOptions,
-    ): Promise<PaginatedResult<Artist>> {
-      // Apply default values and constraints
-      // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Show>> {
+      const sdk = bindSdk(callOptions);
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      try {
-        // Call Spotify SDK to get followed artists
-        // Note: Spotify uses cursor-based pagination but the SDK abstracts this
-        const response = await sdk.currentUser.followedArtists(
-          undefined,
+      return execute(sdk, async () => {
+        const response = await sdk.currentUser.shows.savedShows(limit, offset);
+
+        return {
+          items: response.items.map((item) => transformShow(item.show)),
+          total: response.total,
           limit,
+          offset,
+          hasNext: offset + response.items.length < response.total,
+        };
+      });
+    },
+    /**
+     * Adds a podcast show to the user's library.
+     * @param id - The Spotify show ID
+     * @throws {AuthenticationError} If user is not authenticated
+     * @throws {RateLimitError} If rate limit is exceeded
+     */
+    async saveShow(id: string, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.shows.saveShows([id]);
+        },
+        { resourceType: "show", resourceId: id },
+      );
+    },
+    /**
+     * Removes a podcast show from the user's library.
+     * @param id - The Spotify show ID
+     * @throws {AuthenticationError} If user is not authenticated
+     * @throws {RateLimitError} If rate limit is exceeded
+     */
+    async removeSavedShow(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.shows.removeSavedShows([id]);
+        },
+        { resourceType: "show", resourceId: id },
+      );
+    },
+    /**
+     * Gets audiobooks saved in the user's library.
+     * @param options - Optional pagination options (limit, offset)
+     * @returns PaginatedResult containing user's saved audiobooks
+     * @throws {AuthenticationError} If user is not authenticated
+     * @throws {RateLimitError} If rate limit is exceeded
+     */
+    async getSavedAudiobooks(
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Audiobook>> {
+      const sdk = bindSdk(callOptions);
+      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
+      const offset = options?.offset ?? 0;
+
+      return execute(sdk, async () => {
+        // Unlike saved albums and shows, items are the audiobooks themselves
+        const response = await sdk.currentUser.audiobooks.savedAudiobooks(
+          limit,
+          offset,
         );
 
-        // Transform Spotify artists to musix.js Artist type
-        const artists = response.artists.items.map(transformArtist);
+        return {
+          items: response.items.map(transformAudiobook),
+          total: response.total,
+          limit,
+          offset,
+          hasNext: offset + response.items.length < response.total,
+        };
+      });
+    },
+    /**
+     * Adds an audiobook to the user's library.
+     * @param id - The Spotify audiobook ID
+     * @throws {AuthenticationError} If user is not authenticated
+     * @throws {RateLimitError} If rate limit is exceeded
+     */
+    async saveAudiobook(id: string, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.audiobooks.saveAudiobooks([id]);
+        },
+        { resourceType: "audiobook", resourceId: id },
+      );
+    },
+    /**
+     * Removes an audiobook from the user's library.
+     * @param id - The Spotify audiobook ID
+     * @throws {AuthenticationError} If user is not authenticated
+     * @throws {RateLimitError} If rate limit is exceeded
+     */
+    async removeSavedAudiobook(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.audiobooks.removeSavedAudiobooks([id]);
+        },
+        { resourceType: "audiobook", resourceId: id },
+      );
+    },
+    /**
+     * Gets the artists followed by the current user.
+     * The endpoint is cursor-paginated: pass the `after` cursor of a page
+     * to fetch the next one.
+     * @param options - Optional pagination options (limit, after)
+     * @returns CursorPaginatedResult containing followed artists
+     * @throws {AuthenticationError} If user is not authenticated
+     * @throws {RateLimitError} If rate limit is exceeded
+     */
+    async getFollowedArtists(
+      options?: CursorPaginationOptions,
+      callOptions?: CallOptions,
+    ): Promise<CursorPaginatedResult<Artist>> {
+      const sdk = bindSdk(callOptions);
+      // Apply default values and constraints
+      // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
+      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
 
-        // Calculate hasNext based on whether there are more items
-        const hasNext =
-          offset + response.artists.items.length < response.artists.total;
+      return execute(sdk, async () => {
+        // The SDK types the response as an offset page, but it carries cursors
+        const response = await sdk.currentUser.followedArtists(
+          options?.after,
+          limit,
+        );
+        const page = response.artists as SpotifyCursorPage<SpotifyArtist>;
 
         return {
-          items: artists,
-          total: response.artists.total,
-          limit: response.artists.limit,
-          offset,
-          hasNext,
+          items: page.items.map(transformArtist),
+          total: page.total,
+          limit: page.limit,
+          after: page.cursors?.after ?? null,
+          before: page.cursors?.before ?? null,
+          hasNext: Boolean(page.next),
         };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+      });
     },
     /**
      * Adds an artist to the user's followed artists.
@@ -1513,23 +2250,15 @@ export function createSpotifyUserAdapter(
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async followArtist(id: string): Promise<void> {
-      try {
-        await sdk.currentUser.followArtistsOrUsers([id], "artist");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async followArtist(id: string, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.followArtistsOrUsers([id], "artist");
+        },
+        { resourceType: "artist", resourceId: id },
+      );
     },
     /**
      * Removes an artist from the user's followed artists.
@@ -1537,23 +2266,15 @@ export function createSpotifyUserAdapter(
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async unfollowArtist(id: string): Promise<void> {
-      try {
-        await sdk.currentUser.unfollowArtistsOrUsers([id], "artist");
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+    async unfollowArtist(id: string, callOptions?: CallOptions): Promise<void> {
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.currentUser.unfollowArtistsOrUsers([id], "artist");
+        },
+        { resourceType: "artist", resourceId: id },
+      );
     },
     /**
      * Gets the current user's playlists.
@@ -1564,11 +2285,13 @@ export function createSpotifyUserAdapter(
      */
     async getUserPlaylists(
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<SimplifiedPlaylist>> {
+      const sdk = bindSdk(callOptions);
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      try {
+      return execute(sdk, async () => {
         const response = await sdk.currentUser.playlists.playlists(
           limit,
           offset,
@@ -1587,20 +2310,7 @@ export function createSpotifyUserAdapter(
           offset,
           hasNext,
         };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid client credentials");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-        throw error;
-      }
+      });
     },
     /**
      * Gets track recommendations based on seeds.
@@ -1614,7 +2324,9 @@ export function createSpotifyUserAdapter(
     async getRecommendations(
       seeds: RecommendationSeeds,
       options?: RecommendationOptions,
+      callOptions?: CallOptions,
     ): Promise<Track[]> {
+      const sdk = bindSdk(callOptions);
       // Calculate total seeds
       const totalSeeds =
         (seeds.trackIds?.length ?? 0) +
@@ -1628,7 +2340,7 @@ export function createSpotifyUserAdapter(
         );
       }
 
-      try {
+      return execute(sdk, async () => {
         // Build recommendation request
         const request: {
           seed_tracks?: string[];
@@ -1674,28 +2386,7 @@ export function createSpotifyUserAdapter(
 
         // Transform Spotify tracks to musix.js Track type
         return response.tracks.map(transformTrack);
-      } catch (error) {
-        // Handle authentication and rate limit errors
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
-
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      });
     },
     /**
      * Get related artists for a given artist.
@@ -1705,15 +2396,18 @@ export function createSpotifyUserAdapter(
      * @throws {AuthenticationError} If authentication fails
      * @throws {RateLimitError} If rate limit is exceeded
      */
-    async getRelatedArtists(artistId: string): Promise<Artist[]> {
-      return executeWithTokenRefresh(
+    async getRelatedArtists(
+      artistId: string,
+      callOptions?: CallOptions,
+    ): Promise<Artist[]> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const response = await sdk.artists.relatedArtists(artistId);
           return response.artists.map(transformArtist);
         },
-        "artist",
-        artistId,
+        { resourceType: "artist", resourceId: artistId },
       );
     },
     /**
@@ -1726,13 +2420,15 @@ export function createSpotifyUserAdapter(
      */
     async getNewReleases(
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Album>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      try {
+      return execute(sdk, async () => {
         // Call Spotify SDK to get new releases
         // Signature: getNewReleases(country?, limit?, offset?)
         const response = await sdk.browse.getNewReleases(
@@ -1755,49 +2451,51 @@ export function createSpotifyUserAdapter(
           offset,
           hasNext,
         };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
-
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      });
     },
     /**
      * Gets the user's recently played tracks.
-     * @param options - Optional pagination options (limit)
-     * @returns PaginatedResult containing recently played items with track and playedAt
+     * The endpoint is cursor-paginated: pass the `before` cursor of a page
+     * to fetch older items, or `after` to fetch newer ones.
+     * @param options - Optional limit and a single after/before time filter
+     * @returns CursorPaginatedResult containing recently played items with track and playedAt
+     * @throws {ValidationError} If both after and before are given, or either is not a valid time
      * @throws {AuthenticationError} If user is not authenticated
      * @throws {RateLimitError} If rate limit is exceeded
      * @throws {NetworkError} If network error occurs
      */
     async getRecentlyPlayed(
-      options?: SearchOptions,
-    ): Promise<PaginatedResult<RecentlyPlayedItem>> {
+      options?: RecentlyPlayedOptions,
+      callOptions?: CallOptions,
+    ): Promise<CursorPaginatedResult<RecentlyPlayedItem>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
-      const offset = options?.offset ?? 0;
 
-      try {
-        // Call Spotify SDK to get recently played tracks
-        // Note: Spotify's recently played API uses cursor-based pagination
-        // but we expose it as offset-based for consistency
-        const response = await sdk.player.getRecentlyPlayedTracks(limit);
+      if (options?.after !== undefined && options?.before !== undefined) {
+        throw new ValidationError(
+          "Only one of after and before can be specified",
+        );
+      }
+      const queryRange =
+        options?.after !== undefined
+          ? {
+              type: "after" as const,
+              timestamp: toPlayedAtTimestamp("after", options.after),
+            }
+          : options?.before !== undefined
+            ? {
+                type: "before" as const,
+                timestamp: toPlayedAtTimestamp("before", options.before),
+              }
+            : undefined;
+
+      return execute(sdk, async () => {
+        const response = await sdk.player.getRecentlyPlayedTracks(
+          limit,
+          queryRange,
+        );
 
         // Transform Spotify play history items to musix.js RecentlyPlayedItem type
         const items: RecentlyPlayedItem[] = response.items.map((item) => ({
@@ -1805,39 +2503,16 @@ export function createSpotifyUserAdapter(
           playedAt: item.played_at,
         }));
 
-        // Calculate hasNext based on whether there are more items
-        // Use total from response if available, otherwise estimate based on next cursor
-        const total = response.total ?? (response.next ? 50 : items.length);
-        const hasNext = offset + items.length < total;
-
+        // Spotify does not count the listening history, so total is usually absent
         return {
           items,
-          total,
+          total: response.total,
           limit,
-          offset,
-          hasNext,
+          after: response.cursors?.after ?? null,
+          before: response.cursors?.before ?? null,
+          hasNext: Boolean(response.next),
         };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
-
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      });
     },
     /**
      * Gets the user's top tracks based on listening history.
@@ -1849,14 +2524,16 @@ export function createSpotifyUserAdapter(
      */
     async getTopTracks(
       options?: TopItemsOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Track>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
       const timeRange = options?.timeRange ?? "medium_term";
 
-      try {
+      return execute(sdk, async () => {
         // Call Spotify SDK to get user's top tracks
         // Signature: topItems(type, timeRange, limit, offset)
         const response = await sdk.currentUser.topItems(
@@ -1881,27 +2558,7 @@ export function createSpotifyUserAdapter(
           offset,
           hasNext,
         };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
-
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      });
     },
     /**
      * Gets the user's top artists based on listening history.
@@ -1913,14 +2570,16 @@ export function createSpotifyUserAdapter(
      */
     async getTopArtists(
       options?: TopItemsOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Artist>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
       const timeRange = options?.timeRange ?? "medium_term";
 
-      try {
+      return execute(sdk, async () => {
         // Call Spotify SDK to get user's top artists
         // Signature: topItems(type, timeRange, limit, offset)
         const response = await sdk.currentUser.topItems(
@@ -1945,33 +2604,15 @@ export function createSpotifyUserAdapter(
           offset,
           hasNext,
         };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
-
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      });
     },
     async createPlaylist(
       name: string,
       options?: CreatePlaylistOptions,
+      callOptions?: CallOptions,
     ): Promise<Playlist> {
-      try {
+      const sdk = bindSdk(callOptions);
+      return execute(sdk, async () => {
         // Get current user ID
         const currentUser = await sdk.currentUser.profile();
         const userId = currentUser.id;
@@ -1994,27 +2635,7 @@ export function createSpotifyUserAdapter(
         return transformPlaylist(
           spotifyPlaylist as SpotifyPlaylist<SpotifyTrack>,
         );
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
-
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      });
     },
     /**
      * Updates a playlist's details.
@@ -2027,30 +2648,16 @@ export function createSpotifyUserAdapter(
     async updatePlaylistDetails(
       playlistId: string,
       details: PlaylistDetails,
+      callOptions?: CallOptions,
     ): Promise<void> {
-      try {
-        await sdk.playlists.changePlaylistDetails(playlistId, details);
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
-
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      const sdk = bindSdk(callOptions);
+      await execute(
+        sdk,
+        async () => {
+          await sdk.playlists.changePlaylistDetails(playlistId, details);
+        },
+        { resourceType: "playlist", resourceId: playlistId },
+      );
     },
     /**
      * Adds tracks to a playlist.
@@ -2063,33 +2670,21 @@ export function createSpotifyUserAdapter(
     async addTracksToPlaylist(
       playlistId: string,
       trackIds: string[],
+      callOptions?: CallOptions,
     ): Promise<void> {
+      const sdk = bindSdk(callOptions);
       // Convert track IDs to Spotify URIs
-      const uris = trackIds.map((id) => `spotify:track:${id}`);
-
-      try {
-        await sdk.playlists.addItemsToPlaylist(playlistId, uris);
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
+      const uris = trackIds.map((id) =>
+        toUri({ service: "spotify", type: "track", id }),
+      );
 
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      await execute(
+        sdk,
+        async () => {
+          await sdk.playlists.addItemsToPlaylist(playlistId, uris);
+        },
+        { resourceType: "playlist", resourceId: playlistId },
+      );
     },
     /**
      * Removes tracks from a playlist.
@@ -2103,41 +2698,26 @@ export function createSpotifyUserAdapter(
     async removeTracksFromPlaylist(
       playlistId: string,
       trackIds: string[],
+      callOptions?: CallOptions,
     ): Promise<void> {
+      const sdk = bindSdk(callOptions);
       // Return early without API call if trackIds array is empty
       if (trackIds.length === 0) {
         return;
       }
 
       // Convert track IDs to Spotify URIs format
-      const tracks = trackIds.map((id) => ({ uri: `spotify:track:${id}` }));
-
-      try {
-        await sdk.playlists.removeItemsFromPlaylist(playlistId, { tracks });
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 404) {
-            throw new NotFoundError("playlist", playlistId);
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-        }
-
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
+      const tracks = trackIds.map((id) => ({
+        uri: toUri({ service: "spotify", type: "track", id }),
+      }));
 
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+      await execute(
+        sdk,
+        async () => {
+          await sdk.playlists.removeItemsFromPlaylist(playlistId, { tracks });
+        },
+        { resourceType: "playlist", resourceId: playlistId },
+      );
     },
     /**
      * Retrieves tracks from a playlist with pagination.
@@ -2152,74 +2732,98 @@ export function createSpotifyUserAdapter(
     async getPlaylistTracks(
       playlistId: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Track>> {
+      const sdk = bindSdk(callOptions);
       // Apply default values and constraints
       // Limit is capped at 50 (Spotify API max), cast to SDK's expected literal union type
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      try {
-        // Call Spotify SDK to get playlist items
-        // Signature: getPlaylistItems(playlistId, market?, fields?, limit?, offset?)
-        const response = await sdk.playlists.getPlaylistItems(
-          playlistId,
-          undefined, // market
-          undefined, // fields
-          limit,
-          offset,
-        );
-
-        // Transform playlist track items to musix.js Track type
-        // Filter out null tracks (deleted tracks in playlist)
-        const tracks = response.items
-          .filter(
-            (item: SpotifyPlaylistedTrack<SpotifyTrack>) => item.track !== null,
-          )
-          .map((item: SpotifyPlaylistedTrack<SpotifyTrack>) =>
-            transformTrack(item.track),
+      return execute(
+        sdk,
+        async () => {
+          // Call Spotify SDK to get playlist items
+          // Signature: getPlaylistItems(playlistId, market?, fields?, limit?, offset?)
+          const response = await sdk.playlists.getPlaylistItems(
+            playlistId,
+            undefined, // market
+            undefined, // fields
+            limit,
+            offset,
           );
 
-        // Calculate hasNext based on whether there are more items
-        const hasNext = offset + response.items.length < response.total;
-
-        return {
-          items: tracks,
-          total: response.total,
-          limit,
-          offset,
-          hasNext,
-        };
-      } catch (error) {
-        if (isHttpError(error)) {
-          if (error.status === 401) {
-            throw new AuthenticationError("Invalid or expired access token");
-          }
-          if (error.status === 404) {
-            throw new NotFoundError("playlist", playlistId);
-          }
-          if (error.status === 429) {
-            const retryAfter = error.headers?.["retry-after"]
-              ? Number.parseInt(error.headers["retry-after"], 10)
-              : 60;
-            throw new RateLimitError(retryAfter);
-          }
-          // Other HTTP errors
-          throw new SpotifyApiError(
-            error.status,
-            error.message || "Unknown error",
-          );
-        }
+          // Transform playlist track items to musix.js Track type
+          // Filter out null tracks (deleted tracks in playlist)
+          const tracks = response.items
+            .filter(
+              (item: SpotifyPlaylistedTrack<SpotifyTrack>) =>
+                item.track !== null,
+            )
+            .map((item: SpotifyPlaylistedTrack<SpotifyTrack>) =>
+              transformTrack(item.track),
+            );
 
-        // Handle network errors (errors without status property)
-        if (error instanceof Error) {
-          throw new NetworkError(error.message, error);
-        }
+          // Calculate hasNext based on whether there are more items
+          const hasNext = offset + response.items.length < response.total;
 
-        // Handle non-Error objects
-        throw new NetworkError(String(error));
-      }
+          return {
+            items: tracks,
+            total: response.total,
+            limit,
+            offset,
+            hasNext,
+          };
+        },
+        { resourceType: "playlist", resourceId: playlistId },
+      );
     },
   };
+
+  const configured = applyRequestOptions(
+    withScopeCheck(adapter, grantedScopes),
+    requestOptions,
+  );
+  return {
+    ...configured,
+    ...createCatalogIterators(configured),
+    ...createBulkLookups(configured),
+    ...createLibraryIterators(configured),
+    iterateFollowedArtists: (options) =>
+      paginateCursor(
+        (page, call) => configured.getFollowedArtists(page, call),
+        options,
+      ),
+    iterateNewReleases: (options) =>
+      paginate((page, call) => configured.getNewReleases(page, call), options),
+    iterateShowEpisodes: (showId, options) =>
+      paginate(
+        (page, call) =>
+          configured.getShowEpisodes(
+            showId,
+            { ...page, market: options?.market },
+            call,
+          ),
+        options,
+      ),
+    iterateSavedShows: (options) =>
+      paginate((page, call) => configured.getSavedShows(page, call), options),
+    iterateAudiobookChapters: (audiobookId, options) =>
+      paginate(
+        (page, call) =>
+          configured.getAudiobookChapters(
+            audiobookId,
+            { ...page, market: options?.market },
+            call,
+          ),
+        options,
+      ),
+    iterateSavedAudiobooks: (options) =>
+      paginate(
+        (page, call) => configured.getSavedAudiobooks(page, call),
+        options,
+      ),
+  };
 }
 
 /**
@@ -2227,29 +2831,51 @@ export function createSpotifyUserAdapter(
  * createSpotifyAdapter and createSpotifyUserAdapter.
  */
 function createBaseAdapterMethods(
-  sdk: ReturnType<typeof SpotifyApi.withUserAuthorization>,
-): SpotifyAdapter {
+  bindSdk: (callOptions: CallOptions | undefined) => SpotifyApi,
+  execute: SpotifyExecutor,
+): Omit<
+  SpotifyAdapter,
+  | keyof CatalogIterators
+  | keyof BulkLookups
+  | "iterateShowEpisodes"
+  | "iterateAudiobookChapters"
+> {
   return {
-    async getTrack(id: string): Promise<Track> {
-      return executeWithTokenRefresh(
+    service: "spotify",
+    capabilities: SPOTIFY_CAPABILITIES,
+    ...createPodcastMethods(bindSdk, execute),
+    ...createAudiobookMethods(bindSdk, execute),
+
+    supports<F extends AdapterFeature>(
+      feature: F,
+    ): this is AdapterFeatureMap[F] {
+      return isFeatureSupported(SPOTIFY_CAPABILITIES, feature);
+    },
+
+    async getTrack(id: string, callOptions?: CallOptions): Promise<Track> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyTrack = await sdk.tracks.get(id);
           return transformTrack(spotifyTrack);
         },
-        "track",
-        id,
+        { resourceType: "track", resourceId: id },
       );
     },
 
-    async getTracks(ids: string[]): Promise<Track[]> {
+    async getTracks(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Track[]> {
+      const sdk = bindSdk(callOptions);
       if (ids.length === 0) {
         return [];
       }
       if (ids.length > 50) {
         throw new ValidationError("Cannot request more than 50 tracks at once");
       }
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.tracks.get(ids);
@@ -2257,19 +2883,20 @@ function createBaseAdapterMethods(
             .filter((track): track is SpotifyTrack => track != null)
             .map(transformTrack);
         },
-        "track",
-        ids[0],
+        { resourceType: "track", resourceId: ids[0] },
       );
     },
 
     async searchTracks(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<Track>> {
+      const sdk = bindSdk(callOptions);
       const limit = (options?.limit ?? 20) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.search(
@@ -2288,19 +2915,20 @@ function createBaseAdapterMethods(
             offset: tracks.offset,
           };
         },
-        "track",
-        query,
+        { resourceType: "track", resourceId: query },
       );
     },
 
     async searchAlbums(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<Album>> {
+      const sdk = bindSdk(callOptions);
       const limit = (options?.limit ?? 20) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.search(
@@ -2319,19 +2947,20 @@ function createBaseAdapterMethods(
             offset: albums.offset,
           };
         },
-        "album",
-        query,
+        { resourceType: "album", resourceId: query },
       );
     },
 
     async searchArtists(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<Artist>> {
+      const sdk = bindSdk(callOptions);
       const limit = (options?.limit ?? 20) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.search(
@@ -2350,19 +2979,20 @@ function createBaseAdapterMethods(
             offset: artists.offset,
           };
         },
-        "artist",
-        query,
+        { resourceType: "artist", resourceId: query },
       );
     },
 
     async searchPlaylists(
       query: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<SearchResult<SimplifiedPlaylist>> {
+      const sdk = bindSdk(callOptions);
       const limit = (options?.limit ?? 20) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.search(
@@ -2385,54 +3015,62 @@ function createBaseAdapterMethods(
             offset: response.playlists.offset,
           };
         },
-        "playlist",
-        query,
+        { resourceType: "playlist", resourceId: query },
       );
     },
 
-    async getAlbum(id: string): Promise<Album> {
-      return executeWithTokenRefresh(
+    async getAlbum(id: string, callOptions?: CallOptions): Promise<Album> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyAlbum = await sdk.albums.get(id);
           return transformAlbum(spotifyAlbum);
         },
-        "album",
-        id,
+        { resourceType: "album", resourceId: id },
       );
     },
 
-    async getAlbums(ids: string[]): Promise<Album[]> {
+    async getAlbums(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Album[]> {
+      const sdk = bindSdk(callOptions);
       if (ids.length === 0) {
         return [];
       }
       if (ids.length > 20) {
         throw new ValidationError("Cannot request more than 20 albums at once");
       }
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.albums.get(ids);
-          return response.map(transformAlbum);
+          return response
+            .filter((album): album is SpotifyAlbum => album != null)
+            .map(transformAlbum);
         },
-        "album",
-        ids[0],
+        { resourceType: "album", resourceId: ids[0] },
       );
     },
 
-    async getArtist(id: string): Promise<Artist> {
-      return executeWithTokenRefresh(
+    async getArtist(id: string, callOptions?: CallOptions): Promise<Artist> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyArtist = await sdk.artists.get(id);
           return transformArtist(spotifyArtist);
         },
-        "artist",
-        id,
+        { resourceType: "artist", resourceId: id },
       );
     },
 
-    async getArtists(ids: string[]): Promise<Artist[]> {
+    async getArtists(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Artist[]> {
+      const sdk = bindSdk(callOptions);
       if (ids.length === 0) {
         return [];
       }
@@ -2441,30 +3079,33 @@ function createBaseAdapterMethods(
           "Cannot request more than 50 artists at once",
         );
       }
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.artists.get(ids);
-          return response.map(transformArtist);
+          return response
+            .filter((artist): artist is SpotifyArtist => artist != null)
+            .map(transformArtist);
         },
-        "artist",
-        ids[0],
+        { resourceType: "artist", resourceId: ids[0] },
       );
     },
 
     async getArtistAlbums(
       artistId: string,
-      options?: SearchOptions,
+      options?: ArtistAlbumsOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Album>> {
+      const sdk = bindSdk(callOptions);
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.artists.albums(
             artistId,
-            undefined,
+            options?.includeGroups?.join(","),
             undefined,
             limit,
             offset,
@@ -2481,16 +3122,17 @@ function createBaseAdapterMethods(
             hasNext,
           };
         },
-        "artist",
-        artistId,
+        { resourceType: "artist", resourceId: artistId },
       );
     },
 
     async getArtistTopTracks(
       artistId: string,
       market: string,
+      callOptions?: CallOptions,
     ): Promise<Track[]> {
-      return executeWithTokenRefresh(
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const response = await sdk.artists.topTracks(
@@ -2499,19 +3141,20 @@ function createBaseAdapterMethods(
           );
           return response.tracks.map(transformTrack);
         },
-        "artist",
-        artistId,
+        { resourceType: "artist", resourceId: artistId },
       );
     },
 
     async getAlbumTracks(
       albumId: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Track>> {
+      const sdk = bindSdk(callOptions);
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const [albumResponse, tracksResponse] = await Promise.all([
@@ -2535,31 +3178,35 @@ function createBaseAdapterMethods(
             hasNext,
           };
         },
-        "album",
-        albumId,
+        { resourceType: "album", resourceId: albumId },
       );
     },
 
-    async getPlaylist(id: string): Promise<Playlist> {
-      return executeWithTokenRefresh(
+    async getPlaylist(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<Playlist> {
+      const sdk = bindSdk(callOptions);
+      return execute(
         sdk,
         async () => {
           const spotifyPlaylist = await sdk.playlists.getPlaylist(id);
           return transformPlaylist(spotifyPlaylist);
         },
-        "playlist",
-        id,
+        { resourceType: "playlist", resourceId: id },
       );
     },
 
     async getPlaylistTracks(
       playlistId: string,
       options?: SearchOptions,
+      callOptions?: CallOptions,
     ): Promise<PaginatedResult<Track>> {
+      const sdk = bindSdk(callOptions);
       const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
       const offset = options?.offset ?? 0;
 
-      return executeWithTokenRefresh(
+      return execute(
         sdk,
         async () => {
           const response = await sdk.playlists.getPlaylistItems(
@@ -2589,9 +3236,329 @@ function createBaseAdapterMethods(
             hasNext,
           };
         },
-        "playlist",
-        playlistId,
+        { resourceType: "playlist", resourceId: playlistId },
+      );
+    },
+  };
+}
+
+/**
+ * Creates the podcast lookups shared by createSpotifyAdapter and
+ * createSpotifyUserAdapter.
+ * Without a market, Spotify looks shows up in the country of the user's
+ * account, and reports them as not found to adapters without a user.
+ */
+function createPodcastMethods(
+  bindSdk: (callOptions: CallOptions | undefined) => SpotifyApi,
+  execute: SpotifyExecutor,
+): Omit<PodcastProvider, "iterateShowEpisodes"> {
+  return {
+    /**
+     * Retrieves a podcast show by its Spotify ID.
+     * @param id - The Spotify show ID
+     * @param options - Market to look the show up in
+     * @returns Promise resolving to Show object
+     * @throws {NotFoundError} If the show does not exist or is not available
+     *   in the market
+     */
+    async getShow(
+      id: string,
+      options?: MarketOptions,
+      callOptions?: CallOptions,
+    ): Promise<Show> {
+      const sdk = bindSdk(callOptions);
+      return execute(
+        sdk,
+        async () =>
+          transformShow(await sdk.shows.get(id, options?.market as Market)),
+        { resourceType: "show", resourceId: id },
+      );
+    },
+
+    /**
+     * Retrieves episodes of a podcast show, newest first.
+     * @param showId - The Spotify show ID
+     * @param options - Optional pagination options (limit, offset) and market
+     * @returns Promise resolving to PaginatedResult containing episodes
+     * @throws {NotFoundError} If the show does not exist
+     */
+    async getShowEpisodes(
+      showId: string,
+      options?: MarketSearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Episode>> {
+      const sdk = bindSdk(callOptions);
+      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
+      const offset = options?.offset ?? 0;
+      const market = options?.market as Market;
+
+      return execute(
+        sdk,
+        async () => {
+          // Fetch show info and episodes in parallel
+          const [showResponse, episodesResponse] = await Promise.all([
+            sdk.shows.get(showId, market),
+            sdk.shows.episodes(showId, market, limit, offset),
+          ]);
+          const show = transformShow(showResponse);
+
+          return {
+            items: episodesResponse.items.map((episode) =>
+              transformSimplifiedEpisode(episode, show),
+            ),
+            total: episodesResponse.total,
+            limit,
+            offset,
+            hasNext:
+              offset + episodesResponse.items.length < episodesResponse.total,
+          };
+        },
+        { resourceType: "show", resourceId: showId },
+      );
+    },
+
+    /**
+     * Retrieves a podcast episode by its Spotify ID.
+     * @param id - The Spotify episode ID
+     * @param options - Market to look the episode up in
+     * @returns Promise resolving to Episode object, including the user's
+     *   resume point for user adapters
+     * @throws {NotFoundError} If the episode does not exist
+     */
+    async getEpisode(
+      id: string,
+      options?: MarketOptions,
+      callOptions?: CallOptions,
+    ): Promise<Episode> {
+      const sdk = bindSdk(callOptions);
+      return execute(
+        sdk,
+        async () =>
+          transformEpisode(
+            await sdk.episodes.get(id, options?.market as Market),
+          ),
+        { resourceType: "episode", resourceId: id },
+      );
+    },
+
+    /**
+     * Searches for podcast shows.
+     * @param query - Search query
+     * @param options - Optional pagination options (limit, offset) and market
+     * @returns Promise resolving to SearchResult containing shows
+     */
+    async searchShows(
+      query: string,
+      options?: MarketSearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Show>> {
+      const sdk = bindSdk(callOptions);
+      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
+      const offset = options?.offset ?? 0;
+
+      return execute(sdk, async () => {
+        const response = await sdk.search(
+          query,
+          ["show"],
+          options?.market as Market | undefined,
+          limit,
+          offset,
+        );
+        const shows = response.shows;
+
+        return {
+          // Spotify returns null in place of shows unavailable in the market
+          items: shows.items.filter(Boolean).map(transformShow),
+          total: shows.total,
+          limit: shows.limit,
+          offset: shows.offset,
+        };
+      });
+    },
+
+    /**
+     * Searches for podcast episodes.
+     * The episodes found have no show: search results do not include it.
+     * @param query - Search query
+     * @param options - Optional pagination options (limit, offset) and market
+     * @returns Promise resolving to SearchResult containing episodes
+     */
+    async searchEpisodes(
+      query: string,
+      options?: MarketSearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Episode>> {
+      const sdk = bindSdk(callOptions);
+      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
+      const offset = options?.offset ?? 0;
+
+      return execute(sdk, async () => {
+        const response = await sdk.search(
+          query,
+          ["episode"],
+          options?.market as Market | undefined,
+          limit,
+          offset,
+        );
+        const episodes = response.episodes;
+
+        return {
+          // Search results are simplified episodes, despite the SDK types
+          items: episodes.items
+            .filter(Boolean)
+            .map((episode) => transformSimplifiedEpisode(episode)),
+          total: episodes.total,
+          limit: episodes.limit,
+          offset: episodes.offset,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Creates the audiobook lookups shared by createSpotifyAdapter and
+ * createSpotifyUserAdapter.
+ * Without a market, Spotify looks audiobooks up in the country of the user's
+ * account, and reports them as not found to adapters without a user.
+ */
+function createAudiobookMethods(
+  bindSdk: (callOptions: CallOptions | undefined) => SpotifyApi,
+  execute: SpotifyExecutor,
+): Omit<AudiobookProvider, "iterateAudiobookChapters"> {
+  return {
+    /**
+     * Retrieves an audiobook by its Spotify ID.
+     * @param id - The Spotify audiobook ID
+     * @param options - Market to look the audiobook up in
+     * @returns Promise resolving to Audiobook object
+     * @throws {NotFoundError} If the audiobook does not exist or is not sold
+     *   in the market
+     */
+    async getAudiobook(
+      id: string,
+      options?: MarketOptions,
+      callOptions?: CallOptions,
+    ): Promise<Audiobook> {
+      const sdk = bindSdk(callOptions);
+      return execute(
+        sdk,
+        async () =>
+          transformAudiobook(
+            await sdk.audiobooks.get(id, options?.market as Market),
+          ),
+        { resourceType: "audiobook", resourceId: id },
+      );
+    },
+
+    /**
+     * Retrieves chapters of an audiobook, in reading order.
+     * @param audiobookId - The Spotify audiobook ID
+     * @param options - Optional pagination options (limit, offset) and market
+     * @returns Promise resolving to PaginatedResult containing chapters
+     * @throws {NotFoundError} If the audiobook does not exist
+     */
+    async getAudiobookChapters(
+      audiobookId: string,
+      options?: MarketSearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Chapter>> {
+      const sdk = bindSdk(callOptions);
+      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
+      const offset = options?.offset ?? 0;
+      const market = options?.market as Market;
+
+      return execute(
+        sdk,
+        async () => {
+          // Fetch audiobook info and chapters in parallel
+          const [audiobookResponse, chaptersResponse] = await Promise.all([
+            sdk.audiobooks.get(audiobookId, market),
+            sdk.audiobooks.getAudiobookChapters(
+              audiobookId,
+              market,
+              limit,
+              offset,
+            ),
+          ]);
+          const audiobook = transformAudiobook(audiobookResponse);
+
+          return {
+            items: chaptersResponse.items.map((chapter) =>
+              transformSimplifiedChapterWithAudiobook(chapter, audiobook),
+            ),
+            total: chaptersResponse.total,
+            limit,
+            offset,
+            hasNext:
+              offset + chaptersResponse.items.length < chaptersResponse.total,
+          };
+        },
+        { resourceType: "audiobook", resourceId: audiobookId },
       );
     },
+
+    /**
+     * Retrieves an audiobook chapter by its Spotify ID.
+     * @param id - The Spotify chapter ID
+     * @param options - Market to look the chapter up in
+     * @returns Promise resolving to Chapter object
+     * @throws {NotFoundError} If the chapter does not exist or is not sold
+     *   in the market
+     */
+    async getChapter(
+      id: string,
+      options?: MarketOptions,
+      callOptions?: CallOptions,
+    ): Promise<Chapter> {
+      const sdk = bindSdk(callOptions);
+      return execute(
+        sdk,
+        async () =>
+          transformChapter(
+            // The SDK types list only the markets audiobooks launched in
+            await sdk.chapters.get(
+              id,
+              options?.market as Parameters<typeof sdk.chapters.get>[1],
+            ),
+          ),
+        { resourceType: "chapter", resourceId: id },
+      );
+    },
+
+    /**
+     * Searches for audiobooks.
+     * @param query - Search query
+     * @param options - Optional pagination options (limit, offset) and market
+     * @returns Promise resolving to SearchResult containing audiobooks
+     */
+    async searchAudiobooks(
+      query: string,
+      options?: MarketSearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Audiobook>> {
+      const sdk = bindSdk(callOptions);
+      const limit = Math.min(options?.limit ?? 20, 50) as MaxInt<50>;
+      const offset = options?.offset ?? 0;
+
+      return execute(sdk, async () => {
+        const response = await sdk.search(
+          query,
+          ["audiobook"],
+          options?.market as Market | undefined,
+          limit,
+          offset,
+        );
+        const audiobooks = response.audiobooks;
+
+        return {
+          // Spotify returns null in place of audiobooks not sold in the market
+          items: audiobooks.items.filter(Boolean).map(transformAudiobook),
+          total: audiobooks.total,
+          limit: audiobooks.limit,
+          offset: audiobooks.offset,
+        };
+      });
+    },
   };
 }
@@ -0,0 +1,87 @@
+import type {
+  SpotifyScopeRequirement,
+  SpotifyUserAdapter,
+} from "../../core/types";
+
+/** Scopes accepted by playlist edits: one for public, one for private playlists */
+const PLAYLIST_MODIFY = ["playlist-modify-public", "playlist-modify-private"];
+
+/**
+ * OAuth scopes the Spotify Web API requires for each user adapter method.
+ * Methods absent from the table, such as catalog lookups, need no scope.
+ * Iterators need the scopes of the method they page through.
+ */
+export const SPOTIFY_REQUIRED_SCOPES: Partial<
+  Record<keyof SpotifyUserAdapter, readonly SpotifyScopeRequirement[]>
+> = {
+  play: ["user-modify-playback-state"],
+  pause: ["user-modify-playback-state"],
+  skipToNext: ["user-modify-playback-state"],
+  skipToPrevious: ["user-modify-playback-state"],
+  seek: ["user-modify-playback-state"],
+  transferPlayback: ["user-modify-playback-state"],
+  setVolume: ["user-modify-playback-state"],
+  setShuffle: ["user-modify-playback-state"],
+  setRepeat: ["user-modify-playback-state"],
+  addToQueue: ["user-modify-playback-state"],
+  getPlaybackState: ["user-read-playback-state"],
+  getAvailableDevices: ["user-read-playback-state"],
+  getQueue: ["user-read-playback-state"],
+  getSavedTracks: ["user-library-read"],
+  getSavedAlbums: ["user-library-read"],
+  saveTrack: ["user-library-modify"],
+  removeSavedTrack: ["user-library-modify"],
+  saveAlbum: ["user-library-modify"],
+  removeSavedAlbum: ["user-library-modify"],
+  getSavedShows: ["user-library-read"],
+  saveShow: ["user-library-modify"],
+  removeSavedShow: ["user-library-modify"],
+  getSavedAudiobooks: ["user-library-read"],
+  saveAudiobook: ["user-library-modify"],
+  removeSavedAudiobook: ["user-library-modify"],
+  getFollowedArtists: ["user-follow-read"],
+  followArtist: ["user-follow-modify"],
+  unfollowArtist: ["user-follow-modify"],
+  getUserPlaylists: ["playlist-read-private"],
+  getRecentlyPlayed: ["user-read-recently-played"],
+  getTopTracks: ["user-top-read"],
+  getTopArtists: ["user-top-read"],
+  createPlaylist: [PLAYLIST_MODIFY],
+  updatePlaylistDetails: [PLAYLIST_MODIFY],
+  addTracksToPlaylist: [PLAYLIST_MODIFY],
+  removeTracksFromPlaylist: [PLAYLIST_MODIFY],
+};
+
+/**
+ * Lists the scopes to request so that the given methods can be called.
+ * With grantedScopes, only the scopes still missing are returned; a
+ * requirement satisfied by any one of several scopes is met by either.
+ * @param methods - User adapter methods the app calls
+ * @param grantedScopes - Scopes the current token already has
+ * @returns Scopes to request, without duplicates
+ *
+ * @example
+ * ```typescript
+ * const scopes = getSpotifyScopes(["getSavedTracks", "saveTrack"]);
+ * // ["user-library-read", "user-library-modify"]
+ * ```
+ */
+export function getSpotifyScopes(
+  methods: (keyof SpotifyUserAdapter)[],
+  grantedScopes?: readonly string[],
+): string[] {
+  const granted = new Set(grantedScopes);
+  const missing = new Set<string>();
+  for (const method of methods) {
+    for (const requirement of SPOTIFY_REQUIRED_SCOPES[method] ?? []) {
+      const accepted =
+        typeof requirement === "string" ? [requirement] : requirement;
+      if (!accepted.some((scope) => granted.has(scope))) {
+        for (const scope of accepted) {
+          missing.add(scope);
+        }
+      }
+    }
+  }
+  return [...missing];
+}
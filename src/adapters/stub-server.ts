@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, beforeEach } from "bun:test";
+
+/** Snapshot of a request received by a stub server */
+export interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: string;
+}
+
+/** Produces the response of a stub server for a recorded request */
+export type StubHandler = (
+  request: RecordedRequest,
+) => Response | Promise<Response>;
+
+/** Local HTTP server standing in for a service API in adapter tests */
+export interface StubServer {
+  /** Base URL of the server, available once the tests of the file start */
+  url: string;
+  /** Handler of the current test, reset to the default before each test */
+  handler: StubHandler;
+  /** Requests received during the current test, in order */
+  requests: RecordedRequest[];
+}
+
+/**
+ * Registers the hooks running a stub server for the tests of the calling file.
+ * Every request is recorded before it is passed to the current handler.
+ */
+export function useStubServer(defaultHandler: StubHandler): StubServer {
+  const stub: StubServer = {
+    url: "",
+    handler: defaultHandler,
+    requests: [],
+  };
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        const recorded: RecordedRequest = {
+          method: request.method,
+          url: new URL(request.url),
+          headers: request.headers,
+          body: await request.text(),
+        };
+        stub.requests.push(recorded);
+        return stub.handler(recorded);
+      },
+    });
+    stub.url = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    stub.requests = [];
+    stub.handler = defaultHandler;
+  });
+
+  return stub;
+}
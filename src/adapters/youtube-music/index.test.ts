@@ -0,0 +1,683 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitError,
+  ValidationError,
+  YouTubeApiError,
+} from "../../core/errors";
+import type { MusicAdapter, YouTubeMusicConfig } from "../../core/types";
+import { useStubServer } from "../stub-server";
+import { createYouTubeMusicAdapter } from "./index";
+
+// Local stub of the YouTube Data API; handlers are keyed by resource name
+type Handler = (url: URL) => Response;
+
+let handlers: Record<string, Handler>;
+
+const resourceOf = (url: URL) => url.pathname.split("/").pop() ?? "";
+
+const stub = useStubServer(({ url }) => {
+  const handler = handlers[resourceOf(url)];
+  return handler ? handler(url) : Response.json({ items: [] });
+});
+
+beforeEach(() => {
+  handlers = {};
+});
+
+const createAdapter = (config: Partial<YouTubeMusicConfig> = {}) =>
+  createYouTubeMusicAdapter({
+    apiKey: "test-key",
+    baseUrl: `${stub.url}/youtube/v3`,
+    ...config,
+  });
+
+const resourcesRequested = () =>
+  stub.requests.map(({ url }) => resourceOf(url));
+
+// Mock YouTube Data API resources
+const createMockVideo = (overrides: Record<string, unknown> = {}) => ({
+  id: "dQw4w9WgXcQ",
+  snippet: {
+    title: "Never Gonna Give You Up",
+    publishedAt: "2009-10-25T06:57:33Z",
+    channelId: "UCuAXFkgsw1L7xaCfnd5JJOw",
+    channelTitle: "Rick Astley - Topic",
+    thumbnails: {
+      default: {
+        url: "https://i.ytimg.com/vi/dQw4w9WgXcQ/default.jpg",
+        width: 120,
+        height: 90,
+      },
+      high: {
+        url: "https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg",
+        width: 480,
+        height: 360,
+      },
+    },
+  },
+  contentDetails: { duration: "PT3M33S" },
+  ...overrides,
+});
+
+const createMockPlaylist = (overrides: Record<string, unknown> = {}) => ({
+  id: "OLAK5uy_album",
+  snippet: {
+    title: "Whenever You Need Somebody",
+    description: "",
+    publishedAt: "2019-01-01T00:00:00Z",
+    channelId: "UCuAXFkgsw1L7xaCfnd5JJOw",
+    channelTitle: "Rick Astley - Topic",
+  },
+  contentDetails: { itemCount: 10 },
+  ...overrides,
+});
+
+const createMockChannel = (overrides: Record<string, unknown> = {}) => ({
+  id: "UCuAXFkgsw1L7xaCfnd5JJOw",
+  snippet: {
+    title: "Rick Astley",
+    thumbnails: {
+      default: { url: "https://yt3.ggpht.com/channel.jpg" },
+    },
+  },
+  ...overrides,
+});
+
+const errorResponse = (
+  status: number,
+  reason: string,
+  headers: Record<string, string> = {},
+) =>
+  Response.json(
+    { error: { code: status, message: reason, errors: [{ reason }] } },
+    { status, headers },
+  );
+
+describe("createYouTubeMusicAdapter", () => {
+  describe("Adapter Interface Compliance", () => {
+    test("should satisfy the service-neutral MusicAdapter interface", () => {
+      // Given/When: Creating an adapter
+      const adapter: MusicAdapter = createAdapter();
+
+      // Then: The service discriminator identifies YouTube Music
+      expect(adapter.service).toBe("youtube-music");
+    });
+
+    test("should report public-data-only capabilities", () => {
+      const adapter = createAdapter();
+
+      expect(adapter.supports("playback")).toBe(false);
+      expect(adapter.capabilities.maxBatchIds).toEqual({
+        tracks: 50,
+        albums: 50,
+        artists: 50,
+      });
+    });
+  });
+
+  describe("Request Handling", () => {
+    test("should send the API key and use the base URL override", async () => {
+      // Given: The stub returns a video
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+
+      // When: Fetching a track
+      await createAdapter().getTrack("dQw4w9WgXcQ");
+
+      // Then: The request reaches the stub with the key
+      const url = stub.requests[0].url;
+      expect(url.pathname).toBe("/youtube/v3/videos");
+      expect(url.searchParams.get("key")).toBe("test-key");
+      expect(url.searchParams.get("id")).toBe("dQw4w9WgXcQ");
+      expect(url.searchParams.get("part")).toBe("snippet,contentDetails");
+    });
+  });
+
+  describe("getTrack", () => {
+    test("should map a video to Track", async () => {
+      // Given: The stub returns a video from an artist topic channel
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+
+      // When: Fetching a track
+      const track = await createAdapter().getTrack("dQw4w9WgXcQ");
+
+      // Then: Snippet and content details are mapped
+      expect(track.id).toBe("dQw4w9WgXcQ");
+      expect(track.name).toBe("Never Gonna Give You Up");
+      expect(track.durationMs).toBe(213000);
+      expect(track.previewUrl).toBeNull();
+      expect(track.externalUrl).toBe(
+        "https://music.youtube.com/watch?v=dQw4w9WgXcQ",
+      );
+      expect(track.artists).toEqual([
+        {
+          id: "UCuAXFkgsw1L7xaCfnd5JJOw",
+          name: "Rick Astley",
+          externalUrl:
+            "https://music.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw",
+        },
+      ]);
+      expect(track.album.releaseDate).toEqual({
+        year: 2009,
+        month: 10,
+        day: 25,
+        precision: "day",
+      });
+      // Largest thumbnail first
+      expect(track.album.images[0].width).toBe(480);
+    });
+
+    test("should parse durations with hours", async () => {
+      handlers.videos = () =>
+        Response.json({
+          items: [
+            createMockVideo({ contentDetails: { duration: "PT1H2M3S" } }),
+          ],
+        });
+
+      const track = await createAdapter().getTrack("long");
+
+      expect(track.durationMs).toBe(3723000);
+    });
+
+    test("should throw NotFoundError when no video is returned", async () => {
+      const promise = createAdapter().getTrack("missing");
+
+      await expect(promise).rejects.toBeInstanceOf(NotFoundError);
+      await expect(promise).rejects.toMatchObject({
+        resourceType: "track",
+        resourceId: "missing",
+      });
+    });
+  });
+
+  describe("getTracks", () => {
+    test("should return videos in input order and skip unavailable ones", async () => {
+      // Given: The API returns videos in a different order, one is missing
+      handlers.videos = () =>
+        Response.json({
+          items: [createMockVideo({ id: "b" }), createMockVideo({ id: "a" })],
+        });
+
+      // When: Fetching three tracks
+      const tracks = await createAdapter().getTracks(["a", "missing", "b"]);
+
+      // Then: Input order is kept in a single request
+      expect(tracks.map((track) => track.id)).toEqual(["a", "b"]);
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].url.searchParams.get("id")).toBe("a,missing,b");
+    });
+
+    test("should throw ValidationError for more than 50 IDs", async () => {
+      const ids = Array.from({ length: 51 }, (_, i) => String(i));
+
+      await expect(createAdapter().getTracks(ids)).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe("searchTracks", () => {
+    test("should search music videos and resolve durations", async () => {
+      // Given: Search returns a video, videos.list returns its details
+      handlers.search = () =>
+        Response.json({
+          items: [{ id: { kind: "youtube#video", videoId: "dQw4w9WgXcQ" } }],
+          pageInfo: { totalResults: 1000 },
+          nextPageToken: "NEXT",
+        });
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+
+      // When: Searching tracks
+      const result = await createAdapter().searchTracks("rick astley", {
+        limit: 5,
+      });
+
+      // Then: The search is restricted to music videos
+      const searchUrl = stub.requests[0].url;
+      expect(searchUrl.searchParams.get("q")).toBe("rick astley");
+      expect(searchUrl.searchParams.get("type")).toBe("video");
+      expect(searchUrl.searchParams.get("videoCategoryId")).toBe("10");
+      expect(searchUrl.searchParams.get("maxResults")).toBe("5");
+      expect(result.items[0].durationMs).toBe(213000);
+      expect(result).toMatchObject({ total: 1000, limit: 5, offset: 0 });
+    });
+
+    test("should walk page tokens to reach the offset", async () => {
+      // Given: Two pages of search results
+      handlers.search = (url) =>
+        url.searchParams.get("pageToken") === "PAGE2"
+          ? Response.json({
+              items: [{ id: { kind: "youtube#video", videoId: "second" } }],
+            })
+          : Response.json({
+              items: [{ id: { kind: "youtube#video", videoId: "first" } }],
+              nextPageToken: "PAGE2",
+            });
+      handlers.videos = (url) =>
+        Response.json({
+          items: [createMockVideo({ id: url.searchParams.get("id") })],
+        });
+
+      // When: Requesting the second page
+      const result = await createAdapter().searchTracks("q", {
+        limit: 1,
+        offset: 1,
+      });
+
+      // Then: The second page is fetched with the token
+      expect(result.items.map((track) => track.id)).toEqual(["second"]);
+      expect(resourcesRequested()).toEqual(["search", "search", "videos"]);
+    });
+  });
+
+  describe("searchArtists / searchPlaylists / searchAlbums", () => {
+    test("should map channel search results to Artist", async () => {
+      handlers.search = () =>
+        Response.json({
+          items: [
+            {
+              id: { kind: "youtube#channel", channelId: "UC1" },
+              snippet: { title: "Rick Astley - Topic" },
+            },
+          ],
+        });
+
+      const result = await createAdapter().searchArtists("rick");
+
+      expect(result.items).toEqual([
+        {
+          id: "UC1",
+          name: "Rick Astley",
+          images: undefined,
+          externalUrl: "https://music.youtube.com/channel/UC1",
+        },
+      ]);
+      expect(stub.requests[0].url.searchParams.get("type")).toBe("channel");
+    });
+
+    test("should resolve track counts of playlist search results", async () => {
+      handlers.search = () =>
+        Response.json({
+          items: [{ id: { kind: "youtube#playlist", playlistId: "PL1" } }],
+        });
+      handlers.playlists = () =>
+        Response.json({ items: [createMockPlaylist({ id: "PL1" })] });
+
+      const result = await createAdapter().searchPlaylists("80s");
+
+      expect(result.items[0]).toMatchObject({
+        id: "PL1",
+        totalTracks: 10,
+        description: null,
+        owner: {
+          id: "UCuAXFkgsw1L7xaCfnd5JJOw",
+          displayName: "Rick Astley - Topic",
+        },
+      });
+    });
+
+    test("should map playlist search results to Album", async () => {
+      handlers.search = () =>
+        Response.json({
+          items: [
+            { id: { kind: "youtube#playlist", playlistId: "OLAK5uy_album" } },
+          ],
+        });
+      handlers.playlists = () =>
+        Response.json({ items: [createMockPlaylist()] });
+
+      const result = await createAdapter().searchAlbums("whenever");
+
+      expect(result.items[0]).toMatchObject({
+        id: "OLAK5uy_album",
+        name: "Whenever You Need Somebody",
+        totalTracks: 10,
+        releaseDate: { year: 2019, month: 1, day: 1, precision: "day" },
+      });
+    });
+  });
+
+  describe("Albums and Artists", () => {
+    test("should map an album playlist to Album", async () => {
+      handlers.playlists = () =>
+        Response.json({ items: [createMockPlaylist()] });
+
+      const album = await createAdapter().getAlbum("OLAK5uy_album");
+
+      expect(album.externalUrl).toBe(
+        "https://music.youtube.com/playlist?list=OLAK5uy_album",
+      );
+      expect(album.artists[0].name).toBe("Rick Astley");
+    });
+
+    test("should attach the album to album tracks", async () => {
+      handlers.playlists = () =>
+        Response.json({ items: [createMockPlaylist()] });
+      handlers.playlistItems = () =>
+        Response.json({
+          items: [{ id: "item1", contentDetails: { videoId: "dQw4w9WgXcQ" } }],
+          pageInfo: { totalResults: 10 },
+          nextPageToken: "NEXT",
+        });
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+
+      const result = await createAdapter().getAlbumTracks("OLAK5uy_album", {
+        limit: 1,
+      });
+
+      expect(result.items[0].album.id).toBe("OLAK5uy_album");
+      expect(result).toMatchObject({ total: 10, limit: 1, hasNext: true });
+    });
+
+    test("should map a channel to Artist", async () => {
+      handlers.channels = () => Response.json({ items: [createMockChannel()] });
+
+      const artist = await createAdapter().getArtist(
+        "UCuAXFkgsw1L7xaCfnd5JJOw",
+      );
+
+      expect(artist).toEqual({
+        id: "UCuAXFkgsw1L7xaCfnd5JJOw",
+        name: "Rick Astley",
+        images: [
+          {
+            url: "https://yt3.ggpht.com/channel.jpg",
+            width: null,
+            height: null,
+          },
+        ],
+        externalUrl:
+          "https://music.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw",
+      });
+    });
+
+    test("should search the most viewed videos for top tracks", async () => {
+      handlers.search = () =>
+        Response.json({
+          items: [{ id: { kind: "youtube#video", videoId: "dQw4w9WgXcQ" } }],
+        });
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+
+      const tracks = await createAdapter().getArtistTopTracks("UC1", "jp");
+
+      const searchUrl = stub.requests[0].url;
+      expect(searchUrl.searchParams.get("channelId")).toBe("UC1");
+      expect(searchUrl.searchParams.get("order")).toBe("viewCount");
+      expect(searchUrl.searchParams.get("regionCode")).toBe("JP");
+      expect(tracks).toHaveLength(1);
+    });
+  });
+
+  describe("Playlists", () => {
+    test("should map a playlist with tracks and skip deleted videos", async () => {
+      // Given: The playlist contains a deleted video
+      handlers.playlists = () =>
+        Response.json({
+          items: [createMockPlaylist({ id: "PL1" })],
+        });
+      handlers.playlistItems = () =>
+        Response.json({
+          items: [
+            { id: "item1", contentDetails: { videoId: "dQw4w9WgXcQ" } },
+            { id: "item2", contentDetails: { videoId: "deleted" } },
+          ],
+        });
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+
+      // When: Fetching the playlist
+      const playlist = await createAdapter().getPlaylist("PL1");
+
+      // Then: Only available videos are tracks
+      expect(playlist.tracks.map((track) => track.id)).toEqual(["dQw4w9WgXcQ"]);
+      expect(playlist.owner.displayName).toBe("Rick Astley - Topic");
+    });
+
+    test("should throw NotFoundError for an unknown playlist", async () => {
+      await expect(createAdapter().getPlaylist("nope")).rejects.toMatchObject({
+        name: "NotFoundError",
+        resourceType: "playlist",
+      });
+    });
+
+    test("should map playlistNotFound errors of playlist tracks", async () => {
+      handlers.playlistItems = () => errorResponse(404, "playlistNotFound");
+
+      const promise = createAdapter().getPlaylistTracks("nope");
+      await expect(promise).rejects.toBeInstanceOf(NotFoundError);
+      await expect(promise).rejects.toMatchObject({
+        service: "youtube-music",
+        status: 404,
+      });
+    });
+  });
+
+  describe("Async Iterators", () => {
+    test("should iterate over playlist tracks following page tokens", async () => {
+      // Given: Two pages of playlist items
+      handlers.playlistItems = (url) =>
+        url.searchParams.get("pageToken") === "PAGE2"
+          ? Response.json({
+              items: [{ id: "i2", contentDetails: { videoId: "v2" } }],
+              pageInfo: { totalResults: 2 },
+            })
+          : Response.json({
+              items: [{ id: "i1", contentDetails: { videoId: "v1" } }],
+              pageInfo: { totalResults: 2 },
+              nextPageToken: "PAGE2",
+            });
+      handlers.videos = (url) =>
+        Response.json({
+          items: [createMockVideo({ id: url.searchParams.get("id") })],
+        });
+
+      // When: Iterating with a page size of 1
+      const ids: string[] = [];
+      for await (const track of createAdapter().iteratePlaylistTracks("PL1", {
+        pageSize: 1,
+      })) {
+        ids.push(track.id);
+      }
+
+      // Then: Both videos are yielded
+      expect(ids).toEqual(["v1", "v2"]);
+    });
+
+    test("should send one search request per page", async () => {
+      // Given: Three pages of search results linked by page tokens
+      const tokens = [undefined, "PAGE2", "PAGE3"];
+      handlers.search = (url) => {
+        const index = tokens.indexOf(
+          url.searchParams.get("pageToken") ?? undefined,
+        );
+        return Response.json({
+          items: [{ id: { kind: "youtube#video", videoId: `v${index + 1}` } }],
+          pageInfo: { totalResults: 3 },
+          nextPageToken: tokens[index + 1],
+        });
+      };
+      handlers.videos = (url) =>
+        Response.json({
+          items: [createMockVideo({ id: url.searchParams.get("id") })],
+        });
+
+      // When: Iterating over every result
+      const ids: string[] = [];
+      for await (const track of createAdapter().iterateSearchTracks("rick")) {
+        ids.push(track.id);
+      }
+
+      // Then: Each page is fetched once, passing the token of the previous one
+      expect(ids).toEqual(["v1", "v2", "v3"]);
+      const searches = stub.requests
+        .map((request) => request.url)
+        .filter((url) => resourceOf(url) === "search");
+      expect(searches.map((url) => url.searchParams.get("pageToken"))).toEqual([
+        null,
+        "PAGE2",
+        "PAGE3",
+      ]);
+      expect(searches[0].searchParams.get("maxResults")).toBe("50");
+    });
+
+    test("should skip the items before the offset", async () => {
+      // Given: A playlist page of three items
+      handlers.playlistItems = () =>
+        Response.json({
+          items: ["v1", "v2", "v3"].map((videoId) => ({
+            id: `item-${videoId}`,
+            contentDetails: { videoId },
+          })),
+          pageInfo: { totalResults: 3 },
+        });
+      handlers.videos = (url) =>
+        Response.json({
+          items: (url.searchParams.get("id") ?? "")
+            .split(",")
+            .map((id) => createMockVideo({ id })),
+        });
+
+      // When: Iterating from offset 2
+      const ids: string[] = [];
+      for await (const track of createAdapter().iteratePlaylistTracks("PL1", {
+        offset: 2,
+      })) {
+        ids.push(track.id);
+      }
+
+      // Then: Only the items from the offset are yielded
+      expect(ids).toEqual(["v3"]);
+    });
+  });
+
+  describe("Quota Accounting", () => {
+    test("should count units per endpoint", async () => {
+      // Given: A search costs 100 units plus 1 for videos.list
+      handlers.search = () =>
+        Response.json({
+          items: [{ id: { kind: "youtube#video", videoId: "dQw4w9WgXcQ" } }],
+        });
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+      const adapter = createAdapter();
+
+      // When: Searching once and fetching a track once
+      await adapter.searchTracks("q");
+      await adapter.getTrack("dQw4w9WgXcQ");
+
+      // Then: 102 units are used
+      const usage = adapter.getQuotaUsage();
+      expect(usage.used).toBe(102);
+      expect(usage.remaining).toBe(10_000 - 102);
+      expect(usage.dailyQuota).toBe(10_000);
+    });
+
+    test("should reset at the next midnight Pacific Time", () => {
+      const { resetsAt } = createAdapter().getQuotaUsage();
+
+      // Then: The reset is within the next 24 hours on a full hour in PT
+      const untilReset = resetsAt.getTime() - Date.now();
+      expect(untilReset).toBeGreaterThan(0);
+      expect(untilReset).toBeLessThanOrEqual(25 * 60 * 60 * 1000);
+      expect([7, 8]).toContain(resetsAt.getUTCHours());
+      expect(resetsAt.getUTCMinutes()).toBe(0);
+    });
+
+    test("should throw QuotaExceededError before the budget runs out", async () => {
+      // Given: A budget that covers one search but not two
+      handlers.search = () => Response.json({ items: [] });
+      const adapter = createAdapter({ dailyQuota: 150 });
+      await adapter.searchArtists("first");
+
+      // When/Then: The second search fails without reaching the API
+      const promise = adapter.searchArtists("second");
+      await expect(promise).rejects.toBeInstanceOf(QuotaExceededError);
+      await expect(promise).rejects.toMatchObject({
+        required: 100,
+        remaining: 50,
+      });
+      expect(stub.requests).toHaveLength(1);
+
+      // And: Cheaper calls still fit into the remaining budget
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+      await expect(adapter.getTrack("dQw4w9WgXcQ")).resolves.toBeDefined();
+    });
+
+    test("should treat quotaExceeded responses as an exhausted budget", async () => {
+      // Given: The API reports the project quota as exhausted
+      handlers.videos = () => errorResponse(403, "quotaExceeded");
+      const adapter = createAdapter();
+
+      // When/Then: The call fails with QuotaExceededError
+      await expect(adapter.getTrack("a")).rejects.toBeInstanceOf(
+        QuotaExceededError,
+      );
+
+      // And: Later calls fail locally
+      await expect(adapter.getTrack("b")).rejects.toBeInstanceOf(
+        QuotaExceededError,
+      );
+      expect(stub.requests).toHaveLength(1);
+      expect(adapter.getQuotaUsage().remaining).toBe(0);
+    });
+
+    test("should track quota separately per adapter instance", async () => {
+      handlers.videos = () => Response.json({ items: [createMockVideo()] });
+      const first = createAdapter();
+      const second = createAdapter();
+
+      await first.getTrack("dQw4w9WgXcQ");
+
+      expect(first.getQuotaUsage().used).toBe(1);
+      expect(second.getQuotaUsage().used).toBe(0);
+    });
+  });
+
+  describe("Error Handling", () => {
+    test("should throw AuthenticationError for an invalid API key", async () => {
+      handlers.videos = () => errorResponse(400, "keyInvalid");
+
+      const promise = createAdapter().getTrack("a");
+      await expect(promise).rejects.toBeInstanceOf(AuthenticationError);
+      await expect(promise).rejects.toMatchObject({ status: 400 });
+    });
+
+    test("should throw RateLimitError for rate limit reasons", async () => {
+      handlers.channels = () => errorResponse(403, "rateLimitExceeded");
+
+      const promise = createAdapter().getArtist("UC1");
+      await expect(promise).rejects.toBeInstanceOf(RateLimitError);
+      await expect(promise).rejects.toMatchObject({ retryAfter: 60 });
+    });
+
+    test("should throw RateLimitError with Retry-After for 429 responses", async () => {
+      handlers.channels = () =>
+        errorResponse(429, "tooManyRequests", { "Retry-After": "5" });
+
+      await expect(createAdapter().getArtist("UC1")).rejects.toMatchObject({
+        name: "RateLimitError",
+        retryAfter: 5,
+      });
+    });
+
+    test("should throw YouTubeApiError for other errors", async () => {
+      handlers.videos = () => errorResponse(403, "forbidden");
+
+      const promise = createAdapter().getTrack("a");
+      await expect(promise).rejects.toBeInstanceOf(YouTubeApiError);
+      await expect(promise).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test("should throw NetworkError when the server is unreachable", async () => {
+      const adapter = createYouTubeMusicAdapter({
+        apiKey: "test-key",
+        baseUrl: "http://127.0.0.1:1",
+      });
+
+      await expect(adapter.getTrack("a")).rejects.toBeInstanceOf(NetworkError);
+    });
+  });
+});
@@ -0,0 +1,1628 @@
+import { type BulkLookups, createBulkLookups } from "../../core/bulk";
+import {
+  type FetchFunction,
+  bindFetch,
+  isCancellationError,
+} from "../../core/call-options";
+import { isFeatureSupported } from "../../core/capabilities";
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitError,
+  UnsupportedOperationError,
+  ValidationError,
+  YouTubeApiError,
+} from "../../core/errors";
+import {
+  type CatalogIterators,
+  type CursorPageFetcher,
+  paginateCursor,
+} from "../../core/pagination";
+import { parseReleaseDate } from "../../core/release-date";
+import {
+  applyCallPolicies,
+  applyRequestOptions,
+} from "../../core/request-options";
+import type {
+  AdapterCapabilities,
+  AdapterFeature,
+  AdapterFeatureMap,
+  Album,
+  Artist,
+  ArtistAlbumsOptions,
+  CallOptions,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+  Image,
+  IterateOptions,
+  PaginatedResult,
+  Playlist,
+  QuotaUsage,
+  SearchOptions,
+  SearchResult,
+  SimplifiedPlaylist,
+  Track,
+  YouTubeMusicAdapter,
+  YouTubeMusicConfig,
+} from "../../core/types";
+
+/** Default YouTube Data API base URL */
+const DEFAULT_BASE_URL = "https://www.googleapis.com/youtube/v3";
+
+/** Default daily quota of a Google Cloud project */
+const DEFAULT_DAILY_QUOTA = 10_000;
+
+/** Maximum value of the maxResults parameter (and of IDs per list request) */
+const MAX_RESULTS = 50;
+
+/** YouTube video category of music videos */
+const MUSIC_CATEGORY_ID = "10";
+
+/** Number of videos returned by getArtistTopTracks (matches Spotify's top tracks) */
+const TOP_TRACKS_COUNT = 10;
+
+/**
+ * Quota cost in units of each list endpoint.
+ * @see docs/llms-txt/youtube-music-api/core/quota-management.md
+ */
+const QUOTA_COSTS = {
+  videos: 1,
+  channels: 1,
+  playlists: 1,
+  playlistItems: 1,
+  search: 100,
+} as const;
+
+/** Error reasons reported when the project's daily quota is used up */
+const QUOTA_EXCEEDED_REASONS = new Set(["quotaExceeded", "dailyLimitExceeded"]);
+
+/** Error reasons reported for short-term rate limiting */
+const RATE_LIMIT_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+]);
+
+/** Error reasons reported for a missing or invalid API key */
+const INVALID_KEY_REASONS = new Set(["keyInvalid", "keyExpired"]);
+
+/** Maximum number of IDs accepted by the list endpoints */
+const YOUTUBE_MAX_BATCH_IDS = {
+  tracks: MAX_RESULTS,
+  albums: MAX_RESULTS,
+  artists: MAX_RESULTS,
+};
+
+/**
+ * Capabilities of the API key adapter.
+ * Only public data is reachable with an API key.
+ */
+const YOUTUBE_MUSIC_CAPABILITIES: AdapterCapabilities = {
+  playback: false,
+  recommendations: false,
+  relatedArtists: false,
+  collaborativePlaylists: false,
+  userProfile: false,
+  followedArtists: false,
+  listeningHistory: false,
+  newReleases: false,
+  podcasts: false,
+  audiobooks: false,
+  maxBatchIds: YOUTUBE_MAX_BATCH_IDS,
+};
+
+type YouTubeResource = keyof typeof QUOTA_COSTS;
+
+/** YouTube thumbnail */
+interface YouTubeThumbnail {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+/** Thumbnails keyed by size name */
+type YouTubeThumbnails = Partial<
+  Record<
+    "default" | "medium" | "high" | "standard" | "maxres",
+    YouTubeThumbnail
+  >
+>;
+
+/** Snippet shared by videos, channels, playlists and search results */
+interface YouTubeSnippet {
+  title: string;
+  description?: string;
+  publishedAt?: string;
+  channelId?: string;
+  channelTitle?: string;
+  thumbnails?: YouTubeThumbnails;
+}
+
+interface YouTubeVideo {
+  id: string;
+  snippet?: YouTubeSnippet;
+  contentDetails?: { duration?: string };
+}
+
+interface YouTubeChannel {
+  id: string;
+  snippet?: YouTubeSnippet;
+}
+
+interface YouTubePlaylist {
+  id: string;
+  snippet?: YouTubeSnippet;
+  contentDetails?: { itemCount?: number };
+}
+
+interface YouTubePlaylistItem {
+  id: string;
+  snippet?: YouTubeSnippet & { resourceId?: { videoId?: string } };
+  contentDetails?: { videoId?: string };
+}
+
+interface YouTubeSearchItem {
+  id: {
+    kind: string;
+    videoId?: string;
+    channelId?: string;
+    playlistId?: string;
+  };
+  snippet?: YouTubeSnippet;
+}
+
+/** List response of every YouTube Data API list endpoint */
+interface YouTubeListResponse<T> {
+  items: T[];
+  nextPageToken?: string;
+  prevPageToken?: string;
+  pageInfo?: { totalResults?: number; resultsPerPage?: number };
+}
+
+/** Error body of the YouTube Data API */
+interface YouTubeErrorBody {
+  error?: {
+    code?: number;
+    message?: string;
+    errors?: Array<{ reason?: string; message?: string }>;
+  };
+}
+
+/**
+ * Error thrown by the request helper for non-2xx responses.
+ * Carries status, reason and headers so transformError can classify it.
+ */
+class YouTubeHttpError extends Error {
+  status: number;
+  reason: string;
+  headers: Record<string, string>;
+
+  constructor(
+    message: string,
+    status: number,
+    reason: string,
+    headers: Record<string, string>,
+  ) {
+    super(message);
+    this.name = "YouTubeHttpError";
+    this.status = status;
+    this.reason = reason;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Computes the next quota reset (midnight Pacific Time).
+ * @param now - Reference time
+ * @returns Date of the next midnight in America/Los_Angeles
+ */
+function nextPacificMidnight(now: Date): Date {
+  const [month, day, year] = new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/Los_Angeles",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  })
+    .format(now)
+    .split("/")
+    .map(Number);
+
+  // Midnight PST is 08:00 UTC; during daylight saving time it is 07:00 UTC
+  const standardMidnight = new Date(Date.UTC(year, month - 1, day + 1, 8));
+  const hour = Number(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: "America/Los_Angeles",
+      hour: "numeric",
+      hourCycle: "h23",
+    }).format(standardMidnight),
+  );
+  return new Date(standardMidnight.getTime() - hour * 60 * 60 * 1000);
+}
+
+/** Tracks quota units consumed by an adapter within the current day */
+interface QuotaTracker {
+  /**
+   * Reserves units for a request.
+   * @throws {QuotaExceededError} If the request would exceed the daily budget
+   */
+  consume(cost: number): void;
+  /** Marks the budget as used up (the API reported quotaExceeded) */
+  exhaust(): void;
+  /** Returns the current usage */
+  usage(): QuotaUsage;
+}
+
+/**
+ * Creates a quota tracker that resets at midnight Pacific Time.
+ * @param dailyQuota - Daily budget in units
+ */
+function createQuotaTracker(dailyQuota: number): QuotaTracker {
+  let used = 0;
+  let resetsAt = nextPacificMidnight(new Date());
+
+  const rollOver = () => {
+    if (Date.now() >= resetsAt.getTime()) {
+      used = 0;
+      resetsAt = nextPacificMidnight(new Date());
+    }
+  };
+
+  return {
+    consume(cost: number): void {
+      rollOver();
+      const remaining = Math.max(dailyQuota - used, 0);
+      if (cost > remaining) {
+        throw new QuotaExceededError(cost, remaining, resetsAt);
+      }
+      used += cost;
+    },
+
+    exhaust(): void {
+      rollOver();
+      used = Math.max(used, dailyQuota);
+    },
+
+    usage(): QuotaUsage {
+      rollOver();
+      return {
+        used,
+        remaining: Math.max(dailyQuota - used, 0),
+        dailyQuota,
+        resetsAt,
+      };
+    },
+  };
+}
+
+/** Performs a quota-accounted GET request against a list endpoint */
+type YouTubeRequest = <T>(
+  resource: YouTubeResource,
+  params: Record<string, string | number | undefined>,
+) => Promise<YouTubeListResponse<T>>;
+
+/**
+ * Creates a request function bound to the configured API key and quota.
+ * Quota units are reserved before the request is sent, so a call that would
+ * exceed the daily budget fails without reaching the API.
+ * @param config - YouTube configuration
+ * @param quota - Quota tracker of the adapter
+ * @param fetchImpl - Fetch bound to the signal and timeout of a call, if any
+ * @returns Request function resolving to the parsed list response
+ */
+function createRequest(
+  config: YouTubeMusicConfig,
+  quota: QuotaTracker,
+  fetchImpl: FetchFunction = (input, init) => fetch(input, init),
+): YouTubeRequest {
+  const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  return async <T>(
+    resource: YouTubeResource,
+    params: Record<string, string | number | undefined>,
+  ): Promise<YouTubeListResponse<T>> => {
+    const cost = QUOTA_COSTS[resource];
+    quota.consume(cost);
+
+    const url = new URL(`${baseUrl}/${resource}`);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    url.searchParams.set("key", config.apiKey);
+
+    const response = await fetchImpl(url);
+
+    if (!response.ok) {
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+
+      let message = response.statusText || `HTTP ${response.status}`;
+      let reason = "";
+      try {
+        const body = (await response.json()) as YouTubeErrorBody;
+        message = body.error?.message ?? message;
+        reason = body.error?.errors?.[0]?.reason ?? "";
+      } catch {
+        // Ignore body parsing errors
+      }
+
+      if (response.status === 403 && QUOTA_EXCEEDED_REASONS.has(reason)) {
+        // The project budget may be shared with other clients
+        quota.exhaust();
+        throw new QuotaExceededError(cost, 0, quota.usage().resetsAt);
+      }
+
+      throw new YouTubeHttpError(message, response.status, reason, headers);
+    }
+
+    return (await response.json()) as YouTubeListResponse<T>;
+  };
+}
+
+/**
+ * Transforms a YouTube error to the appropriate musix.js error type.
+ * @param error - The error thrown by the request helper
+ * @param resourceType - The type of resource being accessed (for NotFoundError)
+ * @param resourceId - The ID of the resource being accessed (for NotFoundError)
+ * @returns The appropriate musix.js error
+ */
+function transformError(
+  error: unknown,
+  resourceType: "track" | "album" | "artist" | "playlist",
+  resourceId: string,
+): Error {
+  if (error instanceof YouTubeHttpError) {
+    const options = { status: error.status };
+    if (
+      error.status === 401 ||
+      (error.status === 400 && INVALID_KEY_REASONS.has(error.reason))
+    ) {
+      return new AuthenticationError("Invalid or expired API key", options);
+    }
+    if (error.status === 404) {
+      return new NotFoundError(resourceType, resourceId, options);
+    }
+    if (
+      error.status === 429 ||
+      (error.status === 403 && RATE_LIMIT_REASONS.has(error.reason))
+    ) {
+      const retryAfter = error.headers["retry-after"]
+        ? Number.parseInt(error.headers["retry-after"], 10)
+        : 60; // Default to 60 seconds if header is missing
+      return new RateLimitError(retryAfter, options);
+    }
+    return new YouTubeApiError(error.status, error.message || "Unknown error");
+  }
+
+  // Errors raised by musix.js itself are already classified
+  if (
+    error instanceof NotFoundError ||
+    error instanceof QuotaExceededError ||
+    error instanceof ValidationError ||
+    isCancellationError(error)
+  ) {
+    return error;
+  }
+
+  // Handle network errors (fetch failures)
+  if (error instanceof Error) {
+    return new NetworkError(error.message, error);
+  }
+
+  // Handle non-Error objects
+  return new NetworkError(String(error));
+}
+
+/**
+ * Executes an API call and maps failures to musix.js errors.
+ * @param apiCall - The API call to execute
+ * @param resourceType - The type of resource being accessed (for error messages)
+ * @param resourceId - The ID of the resource being accessed (for error messages)
+ * @returns The result of the API call
+ */
+async function execute<T>(
+  apiCall: () => Promise<T>,
+  resourceType: "track" | "album" | "artist" | "playlist",
+  resourceId: string,
+): Promise<T> {
+  try {
+    return await apiCall();
+  } catch (error) {
+    throw transformError(error, resourceType, resourceId);
+  }
+}
+
+/**
+ * Parses an ISO 8601 duration (e.g. "PT4M13S") to milliseconds.
+ * @param duration - ISO 8601 duration from contentDetails
+ * @returns Duration in milliseconds, 0 if absent or malformed
+ */
+function parseDuration(duration: string | undefined): number {
+  const match = duration?.match(
+    /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+  );
+  if (!match) {
+    return 0;
+  }
+  const [, days, hours, minutes, seconds] = match.map((part) =>
+    Number(part ?? 0),
+  );
+  return (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Transforms YouTube thumbnails to musix.js Images, largest first.
+ * @param thumbnails - Thumbnails keyed by size name
+ * @returns Array of musix.js Image
+ */
+function transformThumbnails(
+  thumbnails: YouTubeThumbnails | undefined,
+): Image[] {
+  if (!thumbnails) {
+    return [];
+  }
+  return (["maxres", "standard", "high", "medium", "default"] as const)
+    .map((size) => thumbnails[size])
+    .filter((thumbnail) => thumbnail !== undefined)
+    .map((thumbnail) => ({
+      url: thumbnail.url,
+      width: thumbnail.width ?? null,
+      height: thumbnail.height ?? null,
+    }));
+}
+
+/**
+ * Returns the artist name of a channel.
+ * Auto-generated artist channels are titled "<Artist> - Topic".
+ */
+function artistName(channelTitle: string | undefined): string {
+  return (channelTitle ?? "").replace(/ - Topic$/, "");
+}
+
+/**
+ * Builds an Artist from the channel fields of a snippet.
+ * @param snippet - Snippet of a video or playlist
+ * @returns musix.js Artist
+ */
+function transformChannelRef(snippet: YouTubeSnippet | undefined): Artist {
+  const id = snippet?.channelId ?? "";
+  return {
+    id,
+    name: artistName(snippet?.channelTitle),
+    externalUrl: id ? `https://music.youtube.com/channel/${id}` : "",
+  };
+}
+
+/**
+ * Transforms a YouTube channel to musix.js Artist.
+ * @param id - The channel ID
+ * @param snippet - Snippet of the channel (or of a channel search result)
+ * @returns musix.js Artist
+ */
+function transformChannel(
+  id: string,
+  snippet: YouTubeSnippet | undefined,
+): Artist {
+  const images = transformThumbnails(snippet?.thumbnails);
+  return {
+    id,
+    name: artistName(snippet?.title),
+    images: images.length > 0 ? images : undefined,
+    externalUrl: `https://music.youtube.com/channel/${id}`,
+  };
+}
+
+/**
+ * Transforms a YouTube video to musix.js Track.
+ * Videos have no album; a placeholder album carries the channel and
+ * the publication date.
+ * @param video - YouTube video with snippet and contentDetails
+ * @returns musix.js Track
+ */
+function transformVideo(video: YouTubeVideo): Track {
+  const snippet = video.snippet;
+  const artists = [transformChannelRef(snippet)];
+  return {
+    id: video.id,
+    name: snippet?.title ?? "",
+    artists,
+    album: {
+      id: "",
+      name: "",
+      artists,
+      releaseDate: parseReleaseDate(snippet?.publishedAt),
+      totalTracks: 0,
+      images: transformThumbnails(snippet?.thumbnails),
+      externalUrl: "",
+    },
+    durationMs: parseDuration(video.contentDetails?.duration),
+    previewUrl: null,
+    externalUrl: `https://music.youtube.com/watch?v=${video.id}`,
+  };
+}
+
+/**
+ * Transforms a YouTube playlist to musix.js Album.
+ * YouTube Music publishes albums as playlists owned by the artist channel.
+ * @param playlist - YouTube playlist with snippet and contentDetails
+ * @returns musix.js Album
+ */
+function transformPlaylistAsAlbum(playlist: YouTubePlaylist): Album {
+  const snippet = playlist.snippet;
+  return {
+    id: playlist.id,
+    name: snippet?.title ?? "",
+    artists: [transformChannelRef(snippet)],
+    releaseDate: parseReleaseDate(snippet?.publishedAt),
+    totalTracks: playlist.contentDetails?.itemCount ?? 0,
+    images: transformThumbnails(snippet?.thumbnails),
+    externalUrl: `https://music.youtube.com/playlist?list=${playlist.id}`,
+  };
+}
+
+/**
+ * Transforms a YouTube playlist to musix.js SimplifiedPlaylist.
+ * @param playlist - YouTube playlist with snippet and contentDetails
+ * @returns musix.js SimplifiedPlaylist
+ */
+function transformSimplifiedPlaylist(
+  playlist: YouTubePlaylist,
+): SimplifiedPlaylist {
+  const snippet = playlist.snippet;
+  return {
+    id: playlist.id,
+    name: snippet?.title ?? "",
+    description: snippet?.description || null,
+    owner: {
+      id: snippet?.channelId ?? "",
+      displayName: snippet?.channelTitle ?? "",
+    },
+    totalTracks: playlist.contentDetails?.itemCount ?? 0,
+    images: transformThumbnails(snippet?.thumbnails),
+    externalUrl: `https://music.youtube.com/playlist?list=${playlist.id}`,
+  };
+}
+
+/** A window of items cut out of token-paginated results */
+interface ResultWindow<T> {
+  items: T[];
+  total: number;
+  hasNext: boolean;
+}
+
+/**
+ * Emulates offset pagination on top of page tokens.
+ * When the offset is a multiple of the limit, pages of `limit` items are
+ * walked; otherwise pages of 50 items are walked and sliced. Each page
+ * fetched costs quota, so large offsets are expensive.
+ * @param fetchPage - Fetches one page for a page token
+ * @param limit - Number of items to return
+ * @param offset - Index of the first item to return
+ * @returns The requested window with total and hasNext
+ */
+async function fetchWindow<T>(
+  fetchPage: (
+    pageToken: string | undefined,
+    maxResults: number,
+  ) => Promise<YouTubeListResponse<T>>,
+  limit: number,
+  offset: number,
+): Promise<ResultWindow<T>> {
+  const pageSize = offset % limit === 0 ? limit : MAX_RESULTS;
+  const items: T[] = [];
+  let position = 0;
+  let total = 0;
+  let pageToken: string | undefined;
+
+  do {
+    const page = await fetchPage(pageToken, pageSize);
+    const start = Math.max(offset - position, 0);
+    items.push(...page.items.slice(start, start + limit - items.length));
+    position += page.items.length;
+    total = page.pageInfo?.totalResults ?? position;
+    pageToken = page.nextPageToken;
+
+    if (page.items.length === 0) {
+      break;
+    }
+  } while (items.length < limit && pageToken);
+
+  return {
+    items,
+    total,
+    hasNext: Boolean(pageToken) || position > offset + items.length,
+  };
+}
+
+/**
+ * Iterates over a token-paginated collection.
+ * Each page passes the page token of the previous one, so every page costs
+ * a single request. YouTube cannot start at an offset: the items before
+ * `offset` are fetched and skipped.
+ * @param fetchPage - Fetches the page for a limit and page token
+ * @param options - Optional page size, starting offset, signal and timeout
+ * @returns Async iterator over the collection items
+ */
+async function* paginateTokens<T>(
+  fetchPage: CursorPageFetcher<T>,
+  options?: IterateOptions,
+): AsyncGenerator<T, void, undefined> {
+  let skip = options?.offset ?? 0;
+  for await (const item of paginateCursor(fetchPage, options)) {
+    if (skip > 0) {
+      skip--;
+      continue;
+    }
+    yield item;
+  }
+}
+
+/**
+ * Validates the number of IDs of a list request.
+ * @throws {ValidationError} If more than 50 IDs are provided
+ */
+function validateBatchSize(method: string, ids: string[]): void {
+  if (ids.length > MAX_RESULTS) {
+    throw new ValidationError(
+      `${method} accepts maximum ${MAX_RESULTS} IDs, received ${ids.length}`,
+    );
+  }
+}
+
+/**
+ * Returns the first item of a list response or throws NotFoundError.
+ * List endpoints answer unknown IDs with an empty item list.
+ */
+function firstOrNotFound<T>(
+  response: YouTubeListResponse<T>,
+  resourceType: "track" | "album" | "artist" | "playlist",
+  resourceId: string,
+): T {
+  const item = response.items[0];
+  if (!item) {
+    throw new NotFoundError(resourceType, resourceId);
+  }
+  return item;
+}
+
+/**
+ * Creates a YouTube Music adapter for public data using a YouTube Data API key.
+ *
+ * Every request consumes quota units of the Google Cloud project
+ * (1 unit per list call, 100 units per search). The adapter keeps count and
+ * throws QuotaExceededError before a call would exceed `dailyQuota`.
+ *
+ * Albums are represented by playlists: YouTube Music publishes album
+ * releases as playlists owned by the artist channel.
+ *
+ * @param config - YouTube configuration with apiKey and optional dailyQuota/baseUrl
+ * @returns YouTubeMusicAdapter instance
+ *
+ * @example
+ * ```typescript
+ * const adapter = createYouTubeMusicAdapter({
+ *   apiKey: "your-api-key",
+ * });
+ *
+ * const track = await adapter.getTrack("dQw4w9WgXcQ");
+ * console.log(adapter.getQuotaUsage().remaining);
+ * ```
+ */
+export function createYouTubeMusicAdapter(
+  config: YouTubeMusicConfig,
+): YouTubeMusicAdapter {
+  const quota = createQuotaTracker(config.dailyQuota ?? DEFAULT_DAILY_QUOTA);
+  const request = createRequest(config, quota);
+
+  /** Returns the request function bound to the signal and timeout of a call */
+  function bindRequest(callOptions: CallOptions | undefined): YouTubeRequest {
+    const fetchImpl = bindFetch(callOptions, config.timeoutMs);
+    return fetchImpl ? createRequest(config, quota, fetchImpl) : request;
+  }
+
+  /**
+   * Fetches videos by ID and returns them in input order.
+   * Deleted and private videos are not returned by the API and are skipped.
+   */
+  async function fetchVideos(
+    request: YouTubeRequest,
+    ids: string[],
+  ): Promise<YouTubeVideo[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const response = await request<YouTubeVideo>("videos", {
+      part: "snippet,contentDetails",
+      id: ids.join(","),
+      maxResults: MAX_RESULTS,
+    });
+    const byId = new Map(response.items.map((video) => [video.id, video]));
+    return ids.map((id) => byId.get(id)).filter((video) => video !== undefined);
+  }
+
+  /**
+   * Fetches playlists by ID and returns them in input order.
+   */
+  async function fetchPlaylists(
+    request: YouTubeRequest,
+    ids: string[],
+  ): Promise<YouTubePlaylist[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const response = await request<YouTubePlaylist>("playlists", {
+      part: "snippet,contentDetails",
+      id: ids.join(","),
+      maxResults: MAX_RESULTS,
+    });
+    const byId = new Map(
+      response.items.map((playlist) => [playlist.id, playlist]),
+    );
+    return ids
+      .map((id) => byId.get(id))
+      .filter((playlist) => playlist !== undefined);
+  }
+
+  /** Resolves video search results to tracks, in result order */
+  async function resolveSearchVideos(
+    request: YouTubeRequest,
+    items: YouTubeSearchItem[],
+  ): Promise<Track[]> {
+    const videos = await fetchVideos(
+      request,
+      items.map((item) => item.id.videoId).filter((id) => id !== undefined),
+    );
+    return videos.map(transformVideo);
+  }
+
+  /** Resolves playlist search results to playlists, in result order */
+  function resolveSearchPlaylists(
+    request: YouTubeRequest,
+    items: YouTubeSearchItem[],
+  ): Promise<YouTubePlaylist[]> {
+    return fetchPlaylists(
+      request,
+      items.map((item) => item.id.playlistId).filter((id) => id !== undefined),
+    );
+  }
+
+  /** Converts channel search results to artists */
+  function resolveSearchChannels(items: YouTubeSearchItem[]): Artist[] {
+    return items
+      .filter((item) => item.id.channelId !== undefined)
+      .map((item) => transformChannel(item.id.channelId ?? "", item.snippet));
+  }
+
+  /** Resolves playlist items to videos, skipping deleted and private ones */
+  function resolvePlaylistItems(
+    request: YouTubeRequest,
+    items: YouTubePlaylistItem[],
+  ): Promise<YouTubeVideo[]> {
+    return fetchVideos(
+      request,
+      items
+        .map((item) => item.contentDetails?.videoId)
+        .filter((id) => id !== undefined),
+    );
+  }
+
+  /**
+   * Fetches one page of a list endpoint for a page token and resolves its
+   * items. The page token is passed on as the cursor of the page.
+   */
+  async function fetchTokenPage<R, T>(
+    request: YouTubeRequest,
+    resource: YouTubeResource,
+    params: Record<string, string | number | undefined>,
+    page: CursorPaginationOptions,
+    resolve: (items: R[]) => T[] | Promise<T[]>,
+  ): Promise<CursorPaginatedResult<T>> {
+    const limit = Math.min(page.limit ?? 20, MAX_RESULTS);
+    const response = await request<R>(resource, {
+      ...params,
+      maxResults: limit,
+      pageToken: page.after,
+    });
+    const after = response.nextPageToken ?? null;
+    return {
+      items: await resolve(response.items),
+      limit,
+      after,
+      before: response.prevPageToken ?? null,
+      hasNext: after !== null && response.items.length > 0,
+      total: response.pageInfo?.totalResults,
+    };
+  }
+
+  /**
+   * Runs a search for one resource type and returns the requested window.
+   */
+  async function search(
+    request: YouTubeRequest,
+    params: Record<string, string | number | undefined>,
+    limit: number,
+    offset: number,
+  ): Promise<ResultWindow<YouTubeSearchItem>> {
+    return fetchWindow(
+      (pageToken, maxResults) =>
+        request<YouTubeSearchItem>("search", {
+          part: "snippet",
+          ...params,
+          maxResults,
+          pageToken,
+        }),
+      limit,
+      offset,
+    );
+  }
+
+  /**
+   * Fetches a window of playlist items and resolves them to videos.
+   */
+  async function fetchPlaylistVideos(
+    request: YouTubeRequest,
+    playlistId: string,
+    limit: number,
+    offset: number,
+  ): Promise<ResultWindow<YouTubeVideo>> {
+    const window = await fetchWindow(
+      (pageToken, maxResults) =>
+        request<YouTubePlaylistItem>("playlistItems", {
+          part: "snippet,contentDetails",
+          playlistId,
+          maxResults,
+          pageToken,
+        }),
+      limit,
+      offset,
+    );
+    return {
+      ...window,
+      items: await resolvePlaylistItems(request, window.items),
+    };
+  }
+
+  /** Normalizes limit and offset of pagination options */
+  function pagination(options: SearchOptions | undefined) {
+    return {
+      limit: Math.min(options?.limit ?? 20, MAX_RESULTS),
+      offset: options?.offset ?? 0,
+    };
+  }
+
+  const adapter: Omit<
+    YouTubeMusicAdapter,
+    keyof CatalogIterators | keyof BulkLookups
+  > = {
+    service: "youtube-music",
+    capabilities: YOUTUBE_MUSIC_CAPABILITIES,
+
+    supports<F extends AdapterFeature>(
+      feature: F,
+    ): this is AdapterFeatureMap[F] {
+      return isFeatureSupported(YOUTUBE_MUSIC_CAPABILITIES, feature);
+    },
+
+    /**
+     * Returns the quota units consumed by this adapter for the current day.
+     * @returns Quota usage with remaining units and next reset time
+     */
+    getQuotaUsage(): QuotaUsage {
+      return quota.usage();
+    },
+
+    /**
+     * Retrieves a video as a track (1 quota unit).
+     * @param id - The YouTube video ID
+     * @returns Promise resolving to Track object
+     * @throws {NotFoundError} If the video does not exist or is private
+     */
+    async getTrack(id: string, callOptions?: CallOptions): Promise<Track> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<YouTubeVideo>("videos", {
+            part: "snippet,contentDetails",
+            id,
+          });
+          return transformVideo(firstOrNotFound(response, "track", id));
+        },
+        "track",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves multiple videos as tracks (1 quota unit).
+     * Unavailable videos are omitted from the result.
+     * @param ids - Array of YouTube video IDs (maximum 50)
+     * @returns Promise resolving to array of Track objects in input order
+     * @throws {ValidationError} If more than 50 IDs are provided
+     */
+    async getTracks(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Track[]> {
+      const request = bindRequest(callOptions);
+      validateBatchSize("getTracks", ids);
+
+      return execute(
+        async () => (await fetchVideos(request, ids)).map(transformVideo),
+        "track",
+        ids.join(","),
+      );
+    },
+
+    /**
+     * Searches for music videos matching the query (101 quota units per page).
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing tracks
+     */
+    async searchTracks(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Track>> {
+      const request = bindRequest(callOptions);
+      const { limit, offset } = pagination(options);
+
+      return execute(
+        async () => {
+          const window = await search(
+            request,
+            { q: query, type: "video", videoCategoryId: MUSIC_CATEGORY_ID },
+            limit,
+            offset,
+          );
+          return {
+            items: await resolveSearchVideos(request, window.items),
+            total: window.total,
+            limit,
+            offset,
+          };
+        },
+        "track",
+        query,
+      );
+    },
+
+    /**
+     * Searches for playlists matching the query and returns them as albums
+     * (101 quota units per page).
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing albums
+     */
+    async searchAlbums(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Album>> {
+      const request = bindRequest(callOptions);
+      const { limit, offset } = pagination(options);
+
+      return execute(
+        async () => {
+          const window = await search(
+            request,
+            { q: query, type: "playlist" },
+            limit,
+            offset,
+          );
+          const playlists = await resolveSearchPlaylists(request, window.items);
+          return {
+            items: playlists.map(transformPlaylistAsAlbum),
+            total: window.total,
+            limit,
+            offset,
+          };
+        },
+        "album",
+        query,
+      );
+    },
+
+    /**
+     * Searches for channels matching the query (100 quota units per page).
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing artists
+     */
+    async searchArtists(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<Artist>> {
+      const request = bindRequest(callOptions);
+      const { limit, offset } = pagination(options);
+
+      return execute(
+        async () => {
+          const window = await search(
+            request,
+            { q: query, type: "channel" },
+            limit,
+            offset,
+          );
+          return {
+            items: resolveSearchChannels(window.items),
+            total: window.total,
+            limit,
+            offset,
+          };
+        },
+        "artist",
+        query,
+      );
+    },
+
+    /**
+     * Searches for playlists matching the query (101 quota units per page).
+     * @param query - The search query string
+     * @param options - Optional search options (limit, offset)
+     * @returns Promise resolving to SearchResult containing simplified playlists
+     */
+    async searchPlaylists(
+      query: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<SearchResult<SimplifiedPlaylist>> {
+      const request = bindRequest(callOptions);
+      const { limit, offset } = pagination(options);
+
+      return execute(
+        async () => {
+          const window = await search(
+            request,
+            { q: query, type: "playlist" },
+            limit,
+            offset,
+          );
+          const playlists = await resolveSearchPlaylists(request, window.items);
+          return {
+            items: playlists.map(transformSimplifiedPlaylist),
+            total: window.total,
+            limit,
+            offset,
+          };
+        },
+        "playlist",
+        query,
+      );
+    },
+
+    /**
+     * Retrieves an album playlist as an album (1 quota unit).
+     * @param id - The YouTube playlist ID of the album
+     * @returns Promise resolving to Album object
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async getAlbum(id: string, callOptions?: CallOptions): Promise<Album> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<YouTubePlaylist>("playlists", {
+            part: "snippet,contentDetails",
+            id,
+          });
+          return transformPlaylistAsAlbum(
+            firstOrNotFound(response, "album", id),
+          );
+        },
+        "album",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves multiple album playlists as albums (1 quota unit).
+     * @param ids - Array of YouTube playlist IDs (maximum 50)
+     * @returns Promise resolving to array of Album objects in input order
+     * @throws {ValidationError} If more than 50 IDs are provided
+     */
+    async getAlbums(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Album[]> {
+      const request = bindRequest(callOptions);
+      validateBatchSize("getAlbums", ids);
+
+      return execute(
+        async () =>
+          (await fetchPlaylists(request, ids)).map(transformPlaylistAsAlbum),
+        "album",
+        ids.join(","),
+      );
+    },
+
+    /**
+     * Retrieves a channel as an artist (1 quota unit).
+     * @param id - The YouTube channel ID
+     * @returns Promise resolving to Artist object
+     * @throws {NotFoundError} If the channel does not exist
+     */
+    async getArtist(id: string, callOptions?: CallOptions): Promise<Artist> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const response = await request<YouTubeChannel>("channels", {
+            part: "snippet",
+            id,
+          });
+          const channel = firstOrNotFound(response, "artist", id);
+          return transformChannel(channel.id, channel.snippet);
+        },
+        "artist",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves multiple channels as artists (1 quota unit).
+     * @param ids - Array of YouTube channel IDs (maximum 50)
+     * @returns Promise resolving to array of Artist objects in input order
+     * @throws {ValidationError} If more than 50 IDs are provided
+     */
+    async getArtists(
+      ids: string[],
+      callOptions?: CallOptions,
+    ): Promise<Artist[]> {
+      const request = bindRequest(callOptions);
+      validateBatchSize("getArtists", ids);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      return execute(
+        async () => {
+          const response = await request<YouTubeChannel>("channels", {
+            part: "snippet",
+            id: ids.join(","),
+            maxResults: MAX_RESULTS,
+          });
+          const byId = new Map(
+            response.items.map((channel) => [channel.id, channel]),
+          );
+          return ids
+            .map((id) => byId.get(id))
+            .filter((channel) => channel !== undefined)
+            .map((channel) => transformChannel(channel.id, channel.snippet));
+        },
+        "artist",
+        ids.join(","),
+      );
+    },
+
+    /**
+     * Retrieves the playlists of a channel as albums (1 quota unit per page).
+     * @param artistId - The YouTube channel ID
+     * @param options - Optional pagination options (limit, offset)
+     * @returns Promise resolving to PaginatedResult containing albums
+     * @throws {UnsupportedOperationError} If includeGroups is given
+     */
+    async getArtistAlbums(
+      artistId: string,
+      options?: ArtistAlbumsOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Album>> {
+      const request = bindRequest(callOptions);
+      if (options?.includeGroups) {
+        throw new UnsupportedOperationError(
+          "Filtering artist albums by type",
+          "YouTube Music",
+        );
+      }
+      const { limit, offset } = pagination(options);
+
+      return execute(
+        async () => {
+          const window = await fetchWindow(
+            (pageToken, maxResults) =>
+              request<YouTubePlaylist>("playlists", {
+                part: "snippet,contentDetails",
+                channelId: artistId,
+                maxResults,
+                pageToken,
+              }),
+            limit,
+            offset,
+          );
+          return {
+            items: window.items.map(transformPlaylistAsAlbum),
+            total: window.total,
+            limit,
+            offset,
+            hasNext: window.hasNext,
+          };
+        },
+        "artist",
+        artistId,
+      );
+    },
+
+    /**
+     * Retrieves the most viewed videos of a channel (101 quota units).
+     * @param artistId - The YouTube channel ID
+     * @param market - Region (ISO 3166-1 alpha-2 country code, e.g., "US", "JP")
+     * @returns Promise resolving to array of Track objects
+     */
+    async getArtistTopTracks(
+      artistId: string,
+      market: string,
+      callOptions?: CallOptions,
+    ): Promise<Track[]> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const window = await search(
+            request,
+            {
+              channelId: artistId,
+              type: "video",
+              order: "viewCount",
+              regionCode: market.toUpperCase(),
+            },
+            TOP_TRACKS_COUNT,
+            0,
+          );
+          return resolveSearchVideos(request, window.items);
+        },
+        "artist",
+        artistId,
+      );
+    },
+
+    /**
+     * Retrieves the tracks of an album playlist (3 quota units per page).
+     * @param albumId - The YouTube playlist ID of the album
+     * @param options - Optional pagination options (limit, offset)
+     * @returns Promise resolving to PaginatedResult containing tracks
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async getAlbumTracks(
+      albumId: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Track>> {
+      const request = bindRequest(callOptions);
+      const { limit, offset } = pagination(options);
+
+      return execute(
+        async () => {
+          const [playlist] = await fetchPlaylists(request, [albumId]);
+          if (!playlist) {
+            throw new NotFoundError("album", albumId);
+          }
+          const album = transformPlaylistAsAlbum(playlist);
+          const window = await fetchPlaylistVideos(
+            request,
+            albumId,
+            limit,
+            offset,
+          );
+          return {
+            items: window.items.map((video) => ({
+              ...transformVideo(video),
+              album,
+            })),
+            total: window.total,
+            limit,
+            offset,
+            hasNext: window.hasNext,
+          };
+        },
+        "album",
+        albumId,
+      );
+    },
+
+    /**
+     * Retrieves a playlist with its first 50 tracks (3 quota units).
+     * @param id - The YouTube playlist ID
+     * @returns Promise resolving to Playlist object
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async getPlaylist(
+      id: string,
+      callOptions?: CallOptions,
+    ): Promise<Playlist> {
+      const request = bindRequest(callOptions);
+      return execute(
+        async () => {
+          const [playlist] = await fetchPlaylists(request, [id]);
+          if (!playlist) {
+            throw new NotFoundError("playlist", id);
+          }
+          const simplified = transformSimplifiedPlaylist(playlist);
+          const window = await fetchPlaylistVideos(request, id, MAX_RESULTS, 0);
+          return {
+            id: simplified.id,
+            name: simplified.name,
+            description: simplified.description,
+            owner: simplified.owner,
+            tracks: window.items.map(transformVideo),
+            images: simplified.images,
+            externalUrl: simplified.externalUrl,
+          };
+        },
+        "playlist",
+        id,
+      );
+    },
+
+    /**
+     * Retrieves tracks from a playlist with pagination (2 quota units per page).
+     * Deleted and private videos are skipped.
+     * @param playlistId - The YouTube playlist ID
+     * @param options - Optional pagination options (limit, offset)
+     * @returns Promise resolving to PaginatedResult containing tracks
+     * @throws {NotFoundError} If the playlist does not exist
+     */
+    async getPlaylistTracks(
+      playlistId: string,
+      options?: SearchOptions,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedResult<Track>> {
+      const request = bindRequest(callOptions);
+      const { limit, offset } = pagination(options);
+
+      return execute(
+        async () => {
+          const window = await fetchPlaylistVideos(
+            request,
+            playlistId,
+            limit,
+            offset,
+          );
+          return {
+            items: window.items.map(transformVideo),
+            total: window.total,
+            limit,
+            offset,
+            hasNext: window.hasNext,
+          };
+        },
+        "playlist",
+        playlistId,
+      );
+    },
+  };
+
+  /**
+   * Page fetchers of the iterators. They page by page token instead of by
+   * offset, as emulating an offset re-walks every page before it.
+   */
+  const pages = applyCallPolicies(
+    {
+      service: "youtube-music" as const,
+
+      searchTracks(
+        query: string,
+        page: CursorPaginationOptions,
+        callOptions?: CallOptions,
+      ): Promise<CursorPaginatedResult<Track>> {
+        const request = bindRequest(callOptions);
+        return execute(
+          () =>
+            fetchTokenPage(
+              request,
+              "search",
+              {
+                part: "snippet",
+                q: query,
+                type: "video",
+                videoCategoryId: MUSIC_CATEGORY_ID,
+              },
+              page,
+              (items: YouTubeSearchItem[]) =>
+                resolveSearchVideos(request, items),
+            ),
+          "track",
+          query,
+        );
+      },
+
+      searchAlbums(
+        query: string,
+        page: CursorPaginationOptions,
+        callOptions?: CallOptions,
+      ): Promise<CursorPaginatedResult<Album>> {
+        const request = bindRequest(callOptions);
+        return execute(
+          () =>
+            fetchTokenPage(
+              request,
+              "search",
+              { part: "snippet", q: query, type: "playlist" },
+              page,
+              async (items: YouTubeSearchItem[]) =>
+                (await resolveSearchPlaylists(request, items)).map(
+                  transformPlaylistAsAlbum,
+                ),
+            ),
+          "album",
+          query,
+        );
+      },
+
+      searchArtists(
+        query: string,
+        page: CursorPaginationOptions,
+        callOptions?: CallOptions,
+      ): Promise<CursorPaginatedResult<Artist>> {
+        const request = bindRequest(callOptions);
+        return execute(
+          () =>
+            fetchTokenPage(
+              request,
+              "search",
+              { part: "snippet", q: query, type: "channel" },
+              page,
+              resolveSearchChannels,
+            ),
+          "artist",
+          query,
+        );
+      },
+
+      searchPlaylists(
+        query: string,
+        page: CursorPaginationOptions,
+        callOptions?: CallOptions,
+      ): Promise<CursorPaginatedResult<SimplifiedPlaylist>> {
+        const request = bindRequest(callOptions);
+        return execute(
+          () =>
+            fetchTokenPage(
+              request,
+              "search",
+              { part: "snippet", q: query, type: "playlist" },
+              page,
+              async (items: YouTubeSearchItem[]) =>
+                (await resolveSearchPlaylists(request, items)).map(
+                  transformSimplifiedPlaylist,
+                ),
+            ),
+          "playlist",
+          query,
+        );
+      },
+
+      async getArtistAlbums(
+        artistId: string,
+        page: CursorPaginationOptions &
+          Pick<ArtistAlbumsOptions, "includeGroups">,
+        callOptions?: CallOptions,
+      ): Promise<CursorPaginatedResult<Album>> {
+        const request = bindRequest(callOptions);
+        if (page.includeGroups) {
+          throw new UnsupportedOperationError(
+            "Filtering artist albums by type",
+            "YouTube Music",
+          );
+        }
+        return execute(
+          () =>
+            fetchTokenPage(
+              request,
+              "playlists",
+              { part: "snippet,contentDetails", channelId: artistId },
+              page,
+              (items: YouTubePlaylist[]) => items.map(transformPlaylistAsAlbum),
+            ),
+          "artist",
+          artistId,
+        );
+      },
+
+      getAlbumTracks(
+        albumId: string,
+        page: CursorPaginationOptions,
+        callOptions?: CallOptions,
+      ): Promise<CursorPaginatedResult<Track>> {
+        const request = bindRequest(callOptions);
+        return execute(
+          async () => {
+            const [playlist] = await fetchPlaylists(request, [albumId]);
+            if (!playlist) {
+              throw new NotFoundError("album", albumId);
+            }
+            const album = transformPlaylistAsAlbum(playlist);
+            return fetchTokenPage(
+              request,
+              "playlistItems",
+              { part: "snippet,contentDetails", playlistId: albumId },
+              page,
+              async (items: YouTubePlaylistItem[]) =>
+                (await resolvePlaylistItems(request, items)).map((video) => ({
+                  ...transformVideo(video),
+                  album,
+                })),
+            );
+          },
+          "album",
+          albumId,
+        );
+      },
+
+      getPlaylistTracks(
+        playlistId: string,
+        page: CursorPaginationOptions,
+        callOptions?: CallOptions,
+      ): Promise<CursorPaginatedResult<Track>> {
+        const request = bindRequest(callOptions);
+        return execute(
+          () =>
+            fetchTokenPage(
+              request,
+              "playlistItems",
+              { part: "snippet,contentDetails", playlistId },
+              page,
+              async (items: YouTubePlaylistItem[]) =>
+                (await resolvePlaylistItems(request, items)).map(
+                  transformVideo,
+                ),
+            ),
+          "playlist",
+          playlistId,
+        );
+      },
+    },
+    config,
+  );
+
+  const iterators: CatalogIterators = {
+    iterateSearchTracks: (query, options) =>
+      paginateTokens(
+        (page, call) => pages.searchTracks(query, page, call),
+        options,
+      ),
+    iterateSearchAlbums: (query, options) =>
+      paginateTokens(
+        (page, call) => pages.searchAlbums(query, page, call),
+        options,
+      ),
+    iterateSearchArtists: (query, options) =>
+      paginateTokens(
+        (page, call) => pages.searchArtists(query, page, call),
+        options,
+      ),
+    iterateSearchPlaylists: (query, options) =>
+      paginateTokens(
+        (page, call) => pages.searchPlaylists(query, page, call),
+        options,
+      ),
+    iterateArtistAlbums: (artistId, options) =>
+      paginateTokens(
+        (page, call) =>
+          pages.getArtistAlbums(
+            artistId,
+            { ...page, includeGroups: options?.includeGroups },
+            call,
+          ),
+        options,
+      ),
+    iterateAlbumTracks: (albumId, options) =>
+      paginateTokens(
+        (page, call) => pages.getAlbumTracks(albumId, page, call),
+        options,
+      ),
+    iteratePlaylistTracks: (playlistId, options) =>
+      paginateTokens(
+        (page, call) => pages.getPlaylistTracks(playlistId, page, call),
+        options,
+      ),
+  };
+
+  const configured = applyRequestOptions(adapter, config);
+  return {
+    ...configured,
+    ...iterators,
+    ...createBulkLookups(configured),
+  };
+}
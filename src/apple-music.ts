@@ -0,0 +1,2 @@
+// Apple Music subpath entry point
+export * from "./adapters/apple-music/index.js";
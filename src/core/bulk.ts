@@ -0,0 +1,125 @@
+import { pickCallOptions } from "./call-options";
+import { ValidationError } from "./errors";
+import type {
+  BulkLookupOptions,
+  BulkLookupResult,
+  CallOptions,
+  MusicAdapter,
+} from "./types";
+
+/** Default number of batch requests in flight during a bulk lookup */
+const DEFAULT_CONCURRENCY = 4;
+
+/** Batch lookup methods and the limits they enforce */
+type BatchLookupMethods = Pick<
+  MusicAdapter,
+  "capabilities" | "getTracks" | "getAlbums" | "getArtists"
+>;
+
+/** Bulk variants of the batch lookup methods */
+export type BulkLookups = Pick<
+  MusicAdapter,
+  "getTracksBulk" | "getAlbumsBulk" | "getArtistsBulk"
+>;
+
+/**
+ * Splits an array into consecutive chunks.
+ * @param items - Items to split
+ * @param size - Maximum chunk length
+ * @returns Chunks in the original order
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Looks up any number of IDs through a batch method.
+ * Duplicate IDs are requested once, chunks are sent with bounded
+ * concurrency, and the returned items are matched back to the requested IDs
+ * because batch methods omit IDs that do not exist.
+ * @param fetchBatch - Batch lookup accepting up to batchSize IDs
+ * @param ids - IDs to look up
+ * @param batchSize - Maximum number of IDs per batch request
+ * @param options - Optional concurrency limit, signal and timeout
+ * @returns Items in input order with the IDs that were not found
+ * @throws {ValidationError} If concurrency is less than 1
+ */
+async function lookupInBulk<T extends { id: string }>(
+  fetchBatch: (ids: string[], callOptions?: CallOptions) => Promise<T[]>,
+  ids: string[],
+  batchSize: number,
+  options: BulkLookupOptions | undefined,
+): Promise<BulkLookupResult<T>> {
+  const concurrency = options?.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!(concurrency >= 1)) {
+    throw new ValidationError(
+      `concurrency must be at least 1, received ${concurrency}`,
+    );
+  }
+
+  const callOptions = pickCallOptions(options);
+  const chunks = chunk([...new Set(ids)], batchSize);
+  const found = new Map<string, T>();
+
+  // Each worker takes the next chunk until none are left
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const items = await fetchBatch(chunks[next++], callOptions);
+      for (const item of items) {
+        found.set(item.id, item);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, chunks.length) }, worker),
+  );
+
+  const missingIds = new Set<string>();
+  const items = ids.map((id) => {
+    const item = found.get(id);
+    if (!item) {
+      missingIds.add(id);
+    }
+    return item ?? null;
+  });
+  return { items, missingIds: [...missingIds] };
+}
+
+/**
+ * Creates the bulk variants of the batch lookup methods.
+ * Chunk sizes follow `capabilities.maxBatchIds` of the adapter.
+ * @param methods - Adapter providing the batch lookup methods
+ * @returns Bulk lookup methods to spread into the adapter
+ */
+export function createBulkLookups(methods: BatchLookupMethods): BulkLookups {
+  const limits = methods.capabilities.maxBatchIds;
+
+  return {
+    getTracksBulk: (ids, options) =>
+      lookupInBulk(
+        (batch, call) => methods.getTracks(batch, call),
+        ids,
+        limits.tracks,
+        options,
+      ),
+    getAlbumsBulk: (ids, options) =>
+      lookupInBulk(
+        (batch, call) => methods.getAlbums(batch, call),
+        ids,
+        limits.albums,
+        options,
+      ),
+    getArtistsBulk: (ids, options) =>
+      lookupInBulk(
+        (batch, call) => methods.getArtists(batch, call),
+        ids,
+        limits.artists,
+        options,
+      ),
+  };
+}
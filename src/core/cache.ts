@@ -0,0 +1,357 @@
+import { createBulkLookups } from "./bulk";
+import type {
+  CacheControl,
+  CacheOptions,
+  CacheRecord,
+  CacheResourceType,
+  CacheStore,
+  MusicAdapter,
+} from "./types";
+
+/** Default number of resources kept by the in-memory store */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/** Default time to live of cached responses per resource type */
+const DEFAULT_TTL_MS: Record<CacheResourceType, number> = {
+  track: 24 * 60 * 60 * 1000,
+  album: 24 * 60 * 60 * 1000,
+  artist: 24 * 60 * 60 * 1000,
+  // Playlists are edited by their owners, so they go stale much sooner
+  playlist: 5 * 60 * 1000,
+};
+
+/**
+ * Removes the expired entries of a record.
+ * @param record - Cached responses of a resource
+ * @param now - Current epoch milliseconds
+ * @returns Record with the fresh entries only
+ */
+function withoutExpired(
+  record: CacheRecord | undefined,
+  now: number,
+): CacheRecord {
+  const fresh: CacheRecord = {};
+  for (const [variant, entry] of Object.entries(record ?? {})) {
+    if (entry.expiresAt > now) {
+      fresh[variant] = entry;
+    }
+  }
+  return fresh;
+}
+
+/**
+ * Creates a cache store that keeps records in memory and evicts the least
+ * recently used resource once maxEntries is exceeded.
+ * @param options - Maximum number of resources. Defaults to 1000
+ * @returns CacheStore instance
+ */
+export function createMemoryCacheStore(
+  options: { maxEntries?: number } = {},
+): CacheStore {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const records = new Map<string, CacheRecord>();
+
+  return {
+    async get(key: string) {
+      const record = records.get(key);
+      if (record) {
+        records.delete(key);
+        records.set(key, record);
+      }
+      return record;
+    },
+
+    async set(key: string, record: CacheRecord) {
+      records.delete(key);
+      records.set(key, record);
+      for (const oldest of records.keys()) {
+        if (records.size <= maxEntries) {
+          break;
+        }
+        records.delete(oldest);
+      }
+    },
+
+    async delete(key: string) {
+      records.delete(key);
+    },
+
+    async clear() {
+      records.clear();
+    },
+  };
+}
+
+/**
+ * Creates a cache store that persists records to a JSON file, so that the
+ * cache survives restarts of CLIs and workers.
+ * The file is read once and kept in memory; every change replaces the file
+ * atomically and drops expired entries. Use one store per file and process.
+ * Node's fs module is loaded lazily to keep the core usable in browsers.
+ * @param filePath - Path of the JSON file
+ * @returns CacheStore instance
+ *
+ * @example
+ * ```typescript
+ * const adapter = withCache(createSpotifyAdapter(config), {
+ *   store: createJsonFileCacheStore("./data/cache.json"),
+ * });
+ * ```
+ */
+export function createJsonFileCacheStore(filePath: string): CacheStore {
+  let loaded: Promise<Record<string, CacheRecord>> | undefined;
+  // Writes are chained so that the file is never written concurrently
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  function load(): Promise<Record<string, CacheRecord>> {
+    loaded ??= (async () => {
+      const { readFile } = await import("node:fs/promises");
+      try {
+        return JSON.parse(await readFile(filePath, "utf8")) as Record<
+          string,
+          CacheRecord
+        >;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return {};
+        }
+        throw error;
+      }
+    })();
+    return loaded;
+  }
+
+  async function update(
+    change: (records: Record<string, CacheRecord>) => void,
+  ): Promise<void> {
+    const records = await load();
+    change(records);
+
+    const write = pendingWrite.then(async () => {
+      const { mkdir, rename, writeFile } = await import("node:fs/promises");
+      const { dirname } = await import("node:path");
+
+      const now = Date.now();
+      for (const [key, record] of Object.entries(records)) {
+        const fresh = withoutExpired(record, now);
+        if (Object.keys(fresh).length === 0) {
+          delete records[key];
+        } else {
+          records[key] = fresh;
+        }
+      }
+
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(records));
+      await rename(tempPath, filePath);
+    });
+    // A failed write must not block later ones
+    pendingWrite = write.catch(() => {});
+    return write;
+  }
+
+  return {
+    async get(key: string) {
+      return (await load())[key];
+    },
+
+    set(key: string, record: CacheRecord) {
+      return update((records) => {
+        records[key] = record;
+      });
+    },
+
+    delete(key: string) {
+      return update((records) => {
+        delete records[key];
+      });
+    },
+
+    clear() {
+      return update((records) => {
+        for (const key of Object.keys(records)) {
+          delete records[key];
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Wraps an adapter with a response cache for catalog reads.
+ * Tracks, albums, artists and playlists are cached by service, region,
+ * resource type and ID, including their track and album listings; batch
+ * lookups reuse and fill the per-ID entries. Searches and every user-state method such as
+ * getPlaybackState or getSavedTracks always go to the service, and so do
+ * the iterators, which page the way the wrapped adapter does (YouTube
+ * Music follows page tokens rather than offsets).
+ * The cache does not observe writes: call invalidate after changing a
+ * resource, e.g. after addTracksToPlaylist.
+ * @param adapter - Adapter to wrap
+ * @param options - Storage and time to live per resource type
+ * @returns Adapter with the same members plus invalidate methods
+ *
+ * @example
+ * ```typescript
+ * const adapter = withCache(createSpotifyUserAdapter(config), {
+ *   ttlMs: { playlist: 60_000 },
+ * });
+ * await adapter.addTracksToPlaylist(playlistId, trackIds);
+ * await adapter.invalidate("playlist", playlistId);
+ * ```
+ */
+export function withCache<T extends MusicAdapter>(
+  adapter: T,
+  options: CacheOptions = {},
+): T & CacheControl {
+  const store = options.store ?? createMemoryCacheStore();
+  const ttlMs = { ...DEFAULT_TTL_MS, ...options.ttlMs };
+  // Adapters of the same service may serve different regions from one store
+  const scope = adapter.region
+    ? `${adapter.service}:${adapter.region}`
+    : adapter.service;
+  const keyOf = (resourceType: CacheResourceType, id: string) =>
+    `${scope}:${resourceType}:${id}`;
+
+  /** Stores a response, dropping the expired entries of its resource */
+  async function write(
+    resourceType: CacheResourceType,
+    id: string,
+    variant: string,
+    value: unknown,
+  ): Promise<void> {
+    const key = keyOf(resourceType, id);
+    const now = Date.now();
+    await store.set(key, {
+      ...withoutExpired(await store.get(key), now),
+      [variant]: { value, expiresAt: now + ttlMs[resourceType] },
+    });
+  }
+
+  /**
+   * Returns the cached response of a call, or loads and caches it.
+   * @param variant - Method name and arguments other than the ID
+   */
+  async function read<V>(
+    resourceType: CacheResourceType,
+    id: string,
+    variant: string,
+    load: () => Promise<V>,
+  ): Promise<V> {
+    const entry = (await store.get(keyOf(resourceType, id)))?.[variant];
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as V;
+    }
+    const value = await load();
+    await write(resourceType, id, variant, value);
+    return value;
+  }
+
+  /**
+   * Serves a batch lookup from the per-ID entries, loading only the IDs
+   * that are not cached. IDs the service does not know are omitted.
+   * @param variant - Variant of the single-item lookup sharing the entries
+   * @param limit - Batch limit of the adapter
+   */
+  async function readMany<V extends { id: string }>(
+    resourceType: CacheResourceType,
+    ids: string[],
+    variant: string,
+    limit: number,
+    load: (ids: string[]) => Promise<V[]>,
+  ): Promise<V[]> {
+    // Empty and oversized batches are left to the adapter's own validation
+    if (ids.length === 0 || ids.length > limit) {
+      return load(ids);
+    }
+
+    const now = Date.now();
+    const items = new Map<string, V>();
+    for (const id of new Set(ids)) {
+      const entry = (await store.get(keyOf(resourceType, id)))?.[variant];
+      if (entry && entry.expiresAt > now) {
+        items.set(id, entry.value as V);
+      }
+    }
+
+    const missing = [...new Set(ids)].filter((id) => !items.has(id));
+    if (missing.length > 0) {
+      for (const item of await load(missing)) {
+        items.set(item.id, item);
+        await write(resourceType, item.id, variant, item);
+      }
+    }
+
+    return ids.flatMap((id) => {
+      const item = items.get(id);
+      return item ? [item] : [];
+    });
+  }
+
+  const variantOf = (method: string, ...args: unknown[]) =>
+    args.length === 0 ? method : `${method}:${JSON.stringify(args)}`;
+  const limits = adapter.capabilities.maxBatchIds;
+
+  const cached: T = {
+    ...adapter,
+    getTrack: (id, callOptions) =>
+      read("track", id, "getTrack", () => adapter.getTrack(id, callOptions)),
+    getTracks: (ids, callOptions) =>
+      readMany("track", ids, "getTrack", limits.tracks, (missing) =>
+        adapter.getTracks(missing, callOptions),
+      ),
+    getAlbum: (id, callOptions) =>
+      read("album", id, "getAlbum", () => adapter.getAlbum(id, callOptions)),
+    getAlbums: (ids, callOptions) =>
+      readMany("album", ids, "getAlbum", limits.albums, (missing) =>
+        adapter.getAlbums(missing, callOptions),
+      ),
+    getArtist: (id, callOptions) =>
+      read("artist", id, "getArtist", () => adapter.getArtist(id, callOptions)),
+    getArtists: (ids, callOptions) =>
+      readMany("artist", ids, "getArtist", limits.artists, (missing) =>
+        adapter.getArtists(missing, callOptions),
+      ),
+    getArtistAlbums: (artistId, options, callOptions) =>
+      read(
+        "artist",
+        artistId,
+        variantOf("getArtistAlbums", options ?? {}),
+        () => adapter.getArtistAlbums(artistId, options, callOptions),
+      ),
+    getArtistTopTracks: (artistId, market, callOptions) =>
+      read("artist", artistId, variantOf("getArtistTopTracks", market), () =>
+        adapter.getArtistTopTracks(artistId, market, callOptions),
+      ),
+    getAlbumTracks: (albumId, options, callOptions) =>
+      read("album", albumId, variantOf("getAlbumTracks", options ?? {}), () =>
+        adapter.getAlbumTracks(albumId, options, callOptions),
+      ),
+    getPlaylist: (id, callOptions) =>
+      read("playlist", id, "getPlaylist", () =>
+        adapter.getPlaylist(id, callOptions),
+      ),
+    getPlaylistTracks: (playlistId, options, callOptions) =>
+      read(
+        "playlist",
+        playlistId,
+        variantOf("getPlaylistTracks", options ?? {}),
+        () => adapter.getPlaylistTracks(playlistId, options, callOptions),
+      ),
+  };
+
+  return {
+    ...cached,
+    ...createBulkLookups(cached),
+
+    invalidate(resourceType, id) {
+      return store.delete(keyOf(resourceType, id));
+    },
+
+    invalidateAll() {
+      return store.clear();
+    },
+  };
+}
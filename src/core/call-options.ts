@@ -0,0 +1,98 @@
+import { AbortError, TimeoutError, ValidationError } from "./errors";
+import type { CallOptions } from "./types";
+
+/** Fetch implementation used by the adapters */
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Extracts the call options from an options object that carries other
+ * settings too, such as IterateOptions or BulkLookupOptions.
+ * @param options - Options including signal and timeoutMs
+ * @returns Call options, or undefined when neither is set
+ */
+export function pickCallOptions(
+  options: CallOptions | undefined,
+): CallOptions | undefined {
+  if (!options?.signal && options?.timeoutMs === undefined) {
+    return undefined;
+  }
+  return { signal: options.signal, timeoutMs: options.timeoutMs };
+}
+
+/**
+ * Finds the call options among the arguments of an adapter method.
+ * @param args - Arguments of the call
+ * @returns The first argument carrying a signal or timeout, if any
+ */
+export function findCallOptions(args: unknown[]): CallOptions | undefined {
+  return args.find(
+    (arg): arg is CallOptions =>
+      typeof arg === "object" &&
+      arg !== null &&
+      ("signal" in arg || "timeoutMs" in arg),
+  );
+}
+
+/**
+ * Binds a fetch implementation to the signal and timeout of one adapter call.
+ * The timeout starts when the call starts and spans every request it sends.
+ * A request cut short by the timeout rejects with TimeoutError, one aborted
+ * by the caller with AbortError.
+ * @param callOptions - Signal and timeout of the call
+ * @param defaultTimeoutMs - Timeout of the adapter config, used when the call sets none
+ * @param fetchImpl - Fetch to bind. Defaults to the global fetch
+ * @returns Bound fetch, or undefined when the call can neither be aborted nor time out
+ * @throws {ValidationError} If the timeout is negative
+ */
+export function bindFetch(
+  callOptions: CallOptions | undefined,
+  defaultTimeoutMs: number | undefined,
+  fetchImpl: FetchFunction = (input, init) => fetch(input, init),
+): FetchFunction | undefined {
+  const callerSignal = callOptions?.signal;
+  const timeoutMs = callOptions?.timeoutMs ?? defaultTimeoutMs;
+  if (!callerSignal && timeoutMs === undefined) {
+    return undefined;
+  }
+  if (timeoutMs !== undefined && !(timeoutMs >= 0)) {
+    throw new ValidationError(
+      `timeoutMs must not be negative, received ${timeoutMs}`,
+    );
+  }
+
+  const timeoutSignal =
+    timeoutMs !== undefined ? AbortSignal.timeout(timeoutMs) : undefined;
+  const signal =
+    callerSignal && timeoutSignal
+      ? AbortSignal.any([callerSignal, timeoutSignal])
+      : (callerSignal ?? timeoutSignal);
+
+  return async (input, init) => {
+    try {
+      return await fetchImpl(input, { ...init, signal });
+    } catch (error) {
+      if (timeoutSignal?.aborted && timeoutMs !== undefined) {
+        throw new TimeoutError(timeoutMs);
+      }
+      if (callerSignal?.aborted) {
+        throw new AbortError(callerSignal.reason);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Determines whether an error was raised by bindFetch for a cancelled call.
+ * Adapters rethrow such errors as is instead of reporting a network failure.
+ * @param error - Error thrown while sending a request
+ * @returns true for TimeoutError and AbortError
+ */
+export function isCancellationError(
+  error: unknown,
+): error is TimeoutError | AbortError {
+  return error instanceof TimeoutError || error instanceof AbortError;
+}
@@ -0,0 +1,15 @@
+import type { AdapterCapabilities, AdapterFeature } from "./types";
+
+/**
+ * Checks whether a capability descriptor marks a feature as available.
+ * Features flagged as "deprecated" are still reported as supported.
+ * @param capabilities - Adapter capability descriptor
+ * @param feature - Optional feature to check
+ * @returns true if the feature can be used
+ */
+export function isFeatureSupported(
+  capabilities: AdapterCapabilities,
+  feature: AdapterFeature,
+): boolean {
+  return capabilities[feature] !== false;
+}
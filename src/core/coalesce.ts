@@ -0,0 +1,154 @@
+import { chunk } from "./bulk";
+import { NotFoundError } from "./errors";
+import type { CallOptions, MusicAdapter, MusicService } from "./types";
+
+/** Single and batch lookup methods whose calls can be coalesced */
+export type LookupMethods = Pick<
+  MusicAdapter,
+  | "service"
+  | "capabilities"
+  | "getTrack"
+  | "getTracks"
+  | "getAlbum"
+  | "getAlbums"
+  | "getArtist"
+  | "getArtists"
+>;
+
+/** Caller waiting for the result of a coalesced lookup */
+interface PendingLookup<T> {
+  resolve(item: T): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Creates a single-item lookup that collects the IDs requested in the same
+ * tick and sends them as batch requests.
+ * @param service - Service reported by NotFoundError
+ * @param resourceType - Resource reported by NotFoundError
+ * @param getOne - Single lookup, used when only one ID was requested
+ * @param getMany - Batch lookup omitting IDs that do not exist
+ * @param batchSize - Maximum number of IDs per batch request
+ * @returns Lookup with the signature of getOne
+ */
+function createCoalescedLookup<T extends { id: string }>(
+  service: MusicService,
+  resourceType: "track" | "album" | "artist",
+  getOne: (id: string, callOptions?: CallOptions) => Promise<T>,
+  getMany: (ids: string[]) => Promise<T[]>,
+  batchSize: number,
+): (id: string, callOptions?: CallOptions) => Promise<T> {
+  let pending = new Map<string, PendingLookup<T>[]>();
+
+  /** Settles every caller of the given IDs from one request */
+  async function load(ids: string[], callers: Map<string, PendingLookup<T>[]>) {
+    try {
+      if (ids.length === 1) {
+        const item = await getOne(ids[0]);
+        for (const caller of callers.get(ids[0]) ?? []) {
+          caller.resolve(item);
+        }
+        return;
+      }
+
+      const found = new Map(
+        (await getMany(ids)).map((item) => [item.id, item]),
+      );
+      for (const id of ids) {
+        const item = found.get(id);
+        for (const caller of callers.get(id) ?? []) {
+          if (item) {
+            caller.resolve(item);
+          } else {
+            caller.reject(new NotFoundError(resourceType, id, { service }));
+          }
+        }
+      }
+    } catch (error) {
+      for (const id of ids) {
+        for (const caller of callers.get(id) ?? []) {
+          caller.reject(error);
+        }
+      }
+    }
+  }
+
+  function flush(): void {
+    const callers = pending;
+    pending = new Map();
+    for (const ids of chunk([...callers.keys()], batchSize)) {
+      void load(ids, callers);
+    }
+  }
+
+  return (id, callOptions) => {
+    if (callOptions) {
+      return getOne(id, callOptions);
+    }
+    return new Promise<T>((resolve, reject) => {
+      if (pending.size === 0) {
+        setTimeout(flush, 0);
+      }
+      const callers = pending.get(id);
+      if (callers) {
+        callers.push({ resolve, reject });
+      } else {
+        pending.set(id, [{ resolve, reject }]);
+      }
+    });
+  };
+}
+
+/**
+ * Coalesces single-item lookups into batch requests, DataLoader style.
+ * getTrack, getAlbum and getArtist calls made in the same tick are sent as
+ * one getTracks, getAlbums or getArtists call per chunk of maxBatchIds, and
+ * every caller receives its own result. An ID missing from the batch
+ * response rejects only its callers, with NotFoundError. Calls given a
+ * signal or timeout are sent on their own, since a batch cannot be
+ * cancelled for one of its callers.
+ * @param methods - Adapter methods
+ * @param enabled - Whether to coalesce; when falsy the methods are returned as is
+ * @returns Object with the same members, coalescing single-item lookups
+ *
+ * @example
+ * ```typescript
+ * const adapter = createSpotifyAdapter({ ...credentials, coalesceLookups: true });
+ * // Sent as one getTracks request instead of one request per row
+ * const tracks = await Promise.all(ids.map((id) => adapter.getTrack(id)));
+ * ```
+ */
+export function withCoalescing<T extends LookupMethods>(
+  methods: T,
+  enabled: boolean | undefined,
+): T {
+  if (!enabled) {
+    return methods;
+  }
+
+  const limits = methods.capabilities.maxBatchIds;
+  return {
+    ...methods,
+    getTrack: createCoalescedLookup(
+      methods.service,
+      "track",
+      (id, callOptions) => methods.getTrack(id, callOptions),
+      (ids) => methods.getTracks(ids),
+      limits.tracks,
+    ),
+    getAlbum: createCoalescedLookup(
+      methods.service,
+      "album",
+      (id, callOptions) => methods.getAlbum(id, callOptions),
+      (ids) => methods.getAlbums(ids),
+      limits.albums,
+    ),
+    getArtist: createCoalescedLookup(
+      methods.service,
+      "artist",
+      (id, callOptions) => methods.getArtist(id, callOptions),
+      (ids) => methods.getArtists(ids),
+      limits.artists,
+    ),
+  };
+}
@@ -0,0 +1,90 @@
+import { findCallOptions } from "./call-options";
+import type {
+  AudiobookProvider,
+  MusicAdapter,
+  NewReleasesProvider,
+  PodcastProvider,
+  RelatedArtistsProvider,
+} from "./types";
+
+/**
+ * Idempotent catalog reads whose identical concurrent calls may share a
+ * response. Mutations and user-state reads are deliberately absent: two
+ * `saveTrack` or `play` calls must both reach the service.
+ */
+const DEDUPLICATED_METHODS = new Set<string>([
+  "getTrack",
+  "getTracks",
+  "searchTracks",
+  "searchAlbums",
+  "searchArtists",
+  "searchPlaylists",
+  "getAlbum",
+  "getAlbums",
+  "getArtist",
+  "getArtists",
+  "getArtistAlbums",
+  "getArtistTopTracks",
+  "getAlbumTracks",
+  "getPlaylist",
+  "getPlaylistTracks",
+  "getRelatedArtists",
+  "getNewReleases",
+  "getShow",
+  "getShowEpisodes",
+  "getEpisode",
+  "searchShows",
+  "searchEpisodes",
+  "getAudiobook",
+  "getAudiobookChapters",
+  "getChapter",
+  "searchAudiobooks",
+] satisfies (
+  | keyof MusicAdapter
+  | keyof RelatedArtistsProvider
+  | keyof NewReleasesProvider
+  | keyof PodcastProvider
+  | keyof AudiobookProvider
+)[]);
+
+/**
+ * Shares one in-flight promise among identical concurrent catalog reads,
+ * keyed by method name and arguments. The promise is forgotten once it
+ * settles, so later calls send a new request. Calls given call options are
+ * never shared, because aborting one caller must not reject the others.
+ * @param methods - Adapter methods
+ * @param enabled - Whether to deduplicate. Defaults to true
+ * @returns Object with the same members, deduplicating catalog reads
+ */
+export function withDeduplication<T extends object>(
+  methods: T,
+  enabled = true,
+): T {
+  if (!enabled) {
+    return methods;
+  }
+
+  const inFlight = new Map<string, Promise<unknown>>();
+  const wrapped = { ...methods } as Record<string, unknown>;
+  for (const [name, value] of Object.entries(methods)) {
+    if (typeof value !== "function" || !DEDUPLICATED_METHODS.has(name)) {
+      continue;
+    }
+    wrapped[name] = function (this: unknown, ...args: unknown[]) {
+      if (findCallOptions(args)) {
+        return value.apply(this, args);
+      }
+      const key = `${name}:${JSON.stringify(args)}`;
+      const pending = inFlight.get(key);
+      if (pending) {
+        return pending;
+      }
+      const request = Promise.resolve(value.apply(this, args)).finally(() =>
+        inFlight.delete(key),
+      );
+      inFlight.set(key, request);
+      return request;
+    };
+  }
+  return wrapped as T;
+}
@@ -1,76 +1,375 @@
+import type {
+  MusicService,
+  MusixErrorCode,
+  MusixErrorJSON,
+  MusixErrorOptions,
+  NotFoundResourceType,
+} from "./types";
+
+/**
+ * Base class of every error thrown by musix.js.
+ * Catch it to handle all library errors at once, and switch on `code`
+ * rather than on class names, which may change between versions.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await adapter.getTrack(id);
+ * } catch (error) {
+ *   if (error instanceof MusixError) {
+ *     res.status(error.status ?? 500).json(error.toJSON());
+ *   }
+ * }
+ * ```
+ */
+export abstract class MusixError extends Error {
+  abstract readonly code: MusixErrorCode;
+  /** Service that raised the error. Set by the adapter for every error it throws */
+  service?: MusicService;
+  /** HTTP status of the failed response */
+  status?: number;
+
+  constructor(message: string, options: MusixErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.service = options.service;
+    this.status = options.status;
+  }
+
+  /** Whether the call may succeed when sent again */
+  get retryable(): boolean {
+    return false;
+  }
+
+  /** Fields specific to the error class, included in toJSON */
+  protected details(): Record<string, unknown> | undefined {
+    return undefined;
+  }
+
+  /**
+   * Serializes the error for logs and API responses.
+   * The stack is left out; undefined fields are omitted by JSON.stringify.
+   */
+  toJSON(): MusixErrorJSON {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      service: this.service,
+      status: this.status,
+      details: this.details(),
+      cause: serializeCause(this.cause),
+    };
+  }
+}
+
+/** Converts the cause of an error to a JSON-safe value */
+function serializeCause(cause: unknown): MusixErrorJSON["cause"] {
+  if (cause === undefined) {
+    return undefined;
+  }
+  if (cause instanceof MusixError) {
+    return cause.toJSON();
+  }
+  if (cause instanceof Error) {
+    return { name: cause.name, message: cause.message };
+  }
+  return String(cause);
+}
+
 /** Authentication error (invalid credentials) */
-export class AuthenticationError extends Error {
+export class AuthenticationError extends MusixError {
   override name = "AuthenticationError" as const;
+  readonly code = "AUTHENTICATION_FAILED" as const;
 }
 
 /** Resource not found error */
-export class NotFoundError extends Error {
+export class NotFoundError extends MusixError {
   override name = "NotFoundError" as const;
-  resourceType: "track" | "album" | "artist" | "playlist";
+  readonly code = "NOT_FOUND" as const;
+  resourceType: NotFoundResourceType;
   resourceId: string;
 
   constructor(
-    resourceType: "track" | "album" | "artist" | "playlist",
+    resourceType: NotFoundResourceType,
     resourceId: string,
+    options?: MusixErrorOptions,
   ) {
-    super(`${resourceType} not found: ${resourceId}`);
+    super(`${resourceType} not found: ${resourceId}`, options);
     this.resourceType = resourceType;
     this.resourceId = resourceId;
   }
+
+  protected override details() {
+    return { resourceType: this.resourceType, resourceId: this.resourceId };
+  }
 }
 
 /** Rate limit error */
-export class RateLimitError extends Error {
+export class RateLimitError extends MusixError {
   override name = "RateLimitError" as const;
+  readonly code = "RATE_LIMITED" as const;
   retryAfter: number;
 
-  constructor(retryAfter: number) {
-    super(`Rate limit exceeded. Retry after ${retryAfter} seconds`);
+  constructor(retryAfter: number, options?: MusixErrorOptions) {
+    super(`Rate limit exceeded. Retry after ${retryAfter} seconds`, {
+      status: 429,
+      ...options,
+    });
     this.retryAfter = retryAfter;
   }
+
+  override get retryable(): boolean {
+    return true;
+  }
+
+  protected override details() {
+    return { retryAfter: this.retryAfter };
+  }
 }
 
 /** Network error (connection failure, timeout) */
-export class NetworkError extends Error {
+export class NetworkError extends MusixError {
   override name = "NetworkError" as const;
-  override cause?: Error;
+  readonly code = "NETWORK_ERROR" as const;
+  declare cause?: Error;
+
+  constructor(message: string, cause?: Error, options?: MusixErrorOptions) {
+    super(`Network error: ${message}`, { ...options, cause });
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Call aborted because its timeout elapsed.
+ * Not retryable: the time limit was chosen by the caller.
+ */
+export class TimeoutError extends MusixError {
+  override name = "TimeoutError" as const;
+  readonly code = "TIMEOUT" as const;
+  timeoutMs: number;
+
+  constructor(timeoutMs: number, options?: MusixErrorOptions) {
+    super(`Request timed out after ${timeoutMs}ms`, options);
+    this.timeoutMs = timeoutMs;
+  }
+
+  protected override details() {
+    return { timeoutMs: this.timeoutMs };
+  }
+}
+
+/**
+ * Call aborted through the caller's AbortSignal.
+ * Named "AbortError" like the DOMException thrown by fetch, so existing
+ * `error.name === "AbortError"` checks keep working.
+ */
+export class AbortError extends MusixError {
+  override name = "AbortError" as const;
+  readonly code = "ABORTED" as const;
 
-  constructor(message: string, cause?: Error) {
-    super(`Network error: ${message}`);
-    this.cause = cause;
+  constructor(reason?: unknown, options?: MusixErrorOptions) {
+    super("The operation was aborted", { ...options, cause: reason });
   }
 }
 
 /** Spotify API error (other API errors) */
-export class SpotifyApiError extends Error {
+export class SpotifyApiError extends MusixError {
   override name = "SpotifyApiError" as const;
+  readonly code = "SERVICE_ERROR" as const;
+  statusCode: number;
+
+  constructor(
+    statusCode: number,
+    message: string,
+    options?: MusixErrorOptions,
+  ) {
+    super(`Spotify API error: ${statusCode} ${message}`, {
+      service: "spotify",
+      status: statusCode,
+      ...options,
+    });
+    this.statusCode = statusCode;
+  }
+
+  /** 5xx responses are transient */
+  override get retryable(): boolean {
+    return this.statusCode >= 500;
+  }
+}
+
+/** Apple Music API error (other API errors) */
+export class AppleMusicApiError extends MusixError {
+  override name = "AppleMusicApiError" as const;
+  readonly code = "SERVICE_ERROR" as const;
   statusCode: number;
 
-  constructor(statusCode: number, message: string) {
-    super(`Spotify API error: ${statusCode} ${message}`);
+  constructor(
+    statusCode: number,
+    message: string,
+    options?: MusixErrorOptions,
+  ) {
+    super(`Apple Music API error: ${statusCode} ${message}`, {
+      service: "apple-music",
+      status: statusCode,
+      ...options,
+    });
     this.statusCode = statusCode;
   }
+
+  override get retryable(): boolean {
+    return this.statusCode >= 500;
+  }
+}
+
+/** YouTube Data API error (other API errors) */
+export class YouTubeApiError extends MusixError {
+  override name = "YouTubeApiError" as const;
+  readonly code = "SERVICE_ERROR" as const;
+  statusCode: number;
+
+  constructor(
+    statusCode: number,
+    message: string,
+    options?: MusixErrorOptions,
+  ) {
+    super(`YouTube API error: ${statusCode} ${message}`, {
+      service: "youtube-music",
+      status: statusCode,
+      ...options,
+    });
+    this.statusCode = statusCode;
+  }
+
+  override get retryable(): boolean {
+    return this.statusCode >= 500;
+  }
+}
+
+/** YouTube Data API daily quota exhausted (or a call would exceed it) */
+export class QuotaExceededError extends MusixError {
+  override name = "QuotaExceededError" as const;
+  readonly code = "QUOTA_EXCEEDED" as const;
+  required: number;
+  remaining: number;
+  resetsAt: Date;
+
+  constructor(
+    required: number,
+    remaining: number,
+    resetsAt: Date,
+    options?: MusixErrorOptions,
+  ) {
+    super(
+      `YouTube API quota exceeded: ${required} units required, ${remaining} remaining until ${resetsAt.toISOString()}`,
+      { service: "youtube-music", ...options },
+    );
+    this.required = required;
+    this.remaining = remaining;
+    this.resetsAt = resetsAt;
+  }
+
+  protected override details() {
+    return {
+      required: this.required,
+      remaining: this.remaining,
+      resetsAt: this.resetsAt.toISOString(),
+    };
+  }
 }
 
 /** Validation error for invalid input parameters */
-export class ValidationError extends Error {
+export class ValidationError extends MusixError {
   override name = "ValidationError" as const;
+  readonly code = "INVALID_INPUT" as const;
 }
 
 /** Premium required error for playback features */
-export class PremiumRequiredError extends Error {
+export class PremiumRequiredError extends MusixError {
   override name = "PremiumRequiredError" as const;
+  readonly code = "PREMIUM_REQUIRED" as const;
 
-  constructor() {
-    super("Spotify Premium subscription is required for playback control");
+  constructor(options?: MusixErrorOptions) {
+    super("Spotify Premium subscription is required for playback control", {
+      service: "spotify",
+      status: 403,
+      ...options,
+    });
   }
 }
 
 /** No active device error */
-export class NoActiveDeviceError extends Error {
+export class NoActiveDeviceError extends MusixError {
   override name = "NoActiveDeviceError" as const;
+  readonly code = "NO_ACTIVE_DEVICE" as const;
+
+  constructor(options?: MusixErrorOptions) {
+    super("No active playback device found. Open Spotify on a device first.", {
+      service: "spotify",
+      status: 404,
+      ...options,
+    });
+  }
+}
+
+/** Operation not offered by the underlying music service API */
+export class UnsupportedOperationError extends MusixError {
+  override name = "UnsupportedOperationError" as const;
+  readonly code = "UNSUPPORTED_OPERATION" as const;
+  operation: string;
+
+  /**
+   * @param operation - Name of the adapter method
+   * @param serviceName - Display name of the service, e.g. "Apple Music"
+   */
+  constructor(
+    operation: string,
+    serviceName: string,
+    options?: MusixErrorOptions,
+  ) {
+    super(`${operation} is not supported by ${serviceName}`, options);
+    this.operation = operation;
+  }
+
+  protected override details() {
+    return { operation: this.operation };
+  }
+}
+
+/** Access token lacks an OAuth scope required by the call */
+export class MissingScopeError extends MusixError {
+  override name = "MissingScopeError" as const;
+  readonly code = "MISSING_SCOPE" as const;
+  operation: string | undefined;
+  /**
+   * Scopes to request when asking the user for consent again. Empty when
+   * the service rejected a scope it did not name
+   */
+  requiredScopes: string[];
+
+  /**
+   * @param operation - Name of the adapter method, if known
+   * @param requiredScopes - Scopes the call needs but the token lacks
+   */
+  constructor(
+    operation: string | undefined,
+    requiredScopes: string[],
+    options?: MusixErrorOptions,
+  ) {
+    super(
+      requiredScopes.length > 0
+        ? `${operation ?? "The request"} requires scopes that were not granted: ${requiredScopes.join(", ")}`
+        : "The access token lacks a scope required by the request",
+      { status: 403, ...options },
+    );
+    this.operation = operation;
+    this.requiredScopes = requiredScopes;
+  }
 
-  constructor() {
-    super("No active playback device found. Open Spotify on a device first.");
+  protected override details() {
+    return { operation: this.operation, requiredScopes: this.requiredScopes };
   }
 }
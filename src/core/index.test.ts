@@ -1,12 +1,23 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 // Import types and error classes (will fail until FR-001b is implemented)
 import type {
+  AdapterCapabilities,
   Album,
   Artist,
+  CallOptions,
+  CursorPaginationOptions,
   Image,
+  MusicAdapter,
+  MusicUserAdapter,
+  OAuthTokens,
   PaginatedResult,
   Playlist,
+  RequestPriority,
+  RetryEvent,
   SearchOptions,
   SearchResult,
   SimplifiedPlaylist,
@@ -17,11 +28,40 @@ import type {
 } from "./index";
 
 import {
+  AbortError,
+  AppleMusicApiError,
   AuthenticationError,
+  MissingScopeError,
+  MusixError,
   NetworkError,
+  NoActiveDeviceError,
   NotFoundError,
+  PremiumRequiredError,
+  QuotaExceededError,
   RateLimitError,
   SpotifyApiError,
+  TimeoutError,
+  UnsupportedOperationError,
+  ValidationError,
+  YouTubeApiError,
+  compareReleaseDates,
+  createJsonFileCacheStore,
+  createJsonFileTokenStore,
+  createMemoryCacheStore,
+  createMemoryTokenStore,
+  createRequestScheduler,
+  formatMusicLink,
+  formatReleaseDate,
+  getReleaseDateRange,
+  isFeatureSupported,
+  isRetryableError,
+  paginate,
+  paginateCursor,
+  parseMusicLink,
+  parseReleaseDate,
+  toUri,
+  withCache,
+  withRetry,
 } from "./index";
 
 describe("Core Types", () => {
@@ -48,7 +88,7 @@ describe("Core Types", () => {
               externalUrl: "https://open.spotify.com/artist/1234",
             },
           ],
-          releaseDate: "1976-12-08",
+          releaseDate: { year: 1976, month: 12, day: 8, precision: "day" },
           totalTracks: 9,
           images: [],
           externalUrl: "https://open.spotify.com/album/5678",
@@ -82,7 +122,7 @@ describe("Core Types", () => {
           id: "album-1",
           name: "Test Album",
           artists: [],
-          releaseDate: "2025-01-01",
+          releaseDate: { year: 2025, month: 1, day: 1, precision: "day" },
           totalTracks: 10,
           images: [],
           externalUrl: "https://open.spotify.com/album/album-1",
@@ -109,7 +149,7 @@ describe("Core Types", () => {
             externalUrl: "https://open.spotify.com/artist/1234",
           },
         ],
-        releaseDate: "1976-12-08",
+        releaseDate: { year: 1976, month: 12, day: 8, precision: "day" },
         totalTracks: 9,
         images: [
           {
@@ -124,7 +164,12 @@ describe("Core Types", () => {
       expect(album.id).toBe("5678");
       expect(album.name).toBe("Hotel California");
       expect(Array.isArray(album.artists)).toBe(true);
-      expect(album.releaseDate).toBe("1976-12-08");
+      expect(album.releaseDate).toEqual({
+        year: 1976,
+        month: 12,
+        day: 8,
+        precision: "day",
+      });
       expect(album.totalTracks).toBe(9);
       expect(Array.isArray(album.images)).toBe(true);
       expect(album.externalUrl).toBeTruthy();
@@ -135,7 +180,7 @@ describe("Core Types", () => {
         id: "test-album",
         name: "Test Album",
         artists: [],
-        releaseDate: "2025-01-01",
+        releaseDate: { year: 2025, month: 1, day: 1, precision: "day" },
         totalTracks: 1,
         images: [],
         externalUrl: "https://open.spotify.com/album/test-album",
@@ -259,7 +304,7 @@ describe("Core Types", () => {
           id: "album-1",
           name: "Test Album",
           artists: [],
-          releaseDate: "2025-01-01",
+          releaseDate: { year: 2025, month: 1, day: 1, precision: "day" },
           totalTracks: 1,
           images: [],
           externalUrl: "https://open.spotify.com/album/album-1",
@@ -383,7 +428,7 @@ describe("Core Types", () => {
           id: "album-1",
           name: "Test Album",
           artists: [],
-          releaseDate: "2025-01-01",
+          releaseDate: { year: 2025, month: 1, day: 1, precision: "day" },
           totalTracks: 1,
           images: [],
           externalUrl: "https://open.spotify.com/album/album-1",
@@ -441,7 +486,24 @@ describe("Core Types", () => {
   describe("SpotifyAdapter", () => {
     test("should have all required methods", () => {
       // This test verifies the interface shape
+      const capabilities: AdapterCapabilities = {
+        playback: false,
+        recommendations: false,
+        relatedArtists: false,
+        collaborativePlaylists: false,
+        userProfile: false,
+        followedArtists: false,
+        listeningHistory: false,
+        newReleases: false,
+        podcasts: false,
+        audiobooks: false,
+        maxBatchIds: { tracks: 50, albums: 20, artists: 50 },
+      };
       const adapter: SpotifyAdapter = {
+        service: "spotify",
+        capabilities,
+        supports: ((feature) =>
+          capabilities[feature] !== false) as SpotifyAdapter["supports"],
         getTrack: async (id: string) => {
           throw new Error("Not implemented");
         },
@@ -502,6 +564,51 @@ describe("Core Types", () => {
         ): Promise<PaginatedResult<Track>> => {
           throw new Error("Not implemented");
         },
+        getTracksBulk: async (ids: string[]) => {
+          throw new Error("Not implemented");
+        },
+        getAlbumsBulk: async (ids: string[]) => {
+          throw new Error("Not implemented");
+        },
+        getArtistsBulk: async (ids: string[]) => {
+          throw new Error("Not implemented");
+        },
+        iterateSearchTracks: async function* () {},
+        iterateSearchAlbums: async function* () {},
+        iterateSearchArtists: async function* () {},
+        iterateSearchPlaylists: async function* () {},
+        iterateArtistAlbums: async function* () {},
+        iterateAlbumTracks: async function* () {},
+        iteratePlaylistTracks: async function* () {},
+        getShow: async (id: string) => {
+          throw new Error("Not implemented");
+        },
+        getShowEpisodes: async (showId: string) => {
+          throw new Error("Not implemented");
+        },
+        getEpisode: async (id: string) => {
+          throw new Error("Not implemented");
+        },
+        searchShows: async (query: string) => {
+          throw new Error("Not implemented");
+        },
+        searchEpisodes: async (query: string) => {
+          throw new Error("Not implemented");
+        },
+        iterateShowEpisodes: async function* () {},
+        getAudiobook: async (id: string) => {
+          throw new Error("Not implemented");
+        },
+        getAudiobookChapters: async (audiobookId: string) => {
+          throw new Error("Not implemented");
+        },
+        getChapter: async (id: string) => {
+          throw new Error("Not implemented");
+        },
+        searchAudiobooks: async (query: string) => {
+          throw new Error("Not implemented");
+        },
+        iterateAudiobookChapters: async function* () {},
       };
 
       expect(adapter.getTrack).toBeDefined();
@@ -511,6 +618,93 @@ describe("Core Types", () => {
       expect(adapter.getPlaylist).toBeDefined();
     });
   });
+
+  // AdapterCapabilities: capability discovery
+  describe("AdapterCapabilities", () => {
+    const capabilities: AdapterCapabilities = {
+      playback: true,
+      recommendations: "deprecated",
+      relatedArtists: false,
+      collaborativePlaylists: true,
+      userProfile: true,
+      followedArtists: false,
+      listeningHistory: false,
+      newReleases: false,
+      podcasts: false,
+      audiobooks: false,
+      maxBatchIds: { tracks: 50, albums: 20, artists: 50 },
+    };
+
+    test("should report supported features as available", () => {
+      expect(isFeatureSupported(capabilities, "playback")).toBe(true);
+      expect(isFeatureSupported(capabilities, "collaborativePlaylists")).toBe(
+        true,
+      );
+    });
+
+    test("should report deprecated features as available", () => {
+      expect(isFeatureSupported(capabilities, "recommendations")).toBe(true);
+    });
+
+    test("should report unsupported features as unavailable", () => {
+      expect(isFeatureSupported(capabilities, "relatedArtists")).toBe(false);
+    });
+
+    test("should narrow adapter type via supports()", () => {
+      const adapter = {
+        service: "spotify",
+        capabilities,
+        supports: (feature: keyof typeof capabilities) =>
+          capabilities[feature] !== false,
+        pause: async () => {},
+      } as unknown as MusicAdapter;
+
+      if (adapter.supports("playback")) {
+        // PlaybackControl methods are available after narrowing
+        expect(typeof adapter.pause).toBe("function");
+      } else {
+        throw new Error("playback should be supported");
+      }
+    });
+  });
+
+  // MusicAdapter: service-neutral adapter contract
+  describe("MusicAdapter", () => {
+    test("should accept a SpotifyAdapter as a MusicAdapter", () => {
+      const spotifyAdapter = {
+        service: "spotify",
+      } as SpotifyAdapter;
+
+      // SpotifyAdapter must be assignable to the service-neutral contract
+      const adapter: MusicAdapter = spotifyAdapter;
+
+      expect(adapter.service).toBe("spotify");
+    });
+
+    test("should allow narrowing by service discriminator", () => {
+      const adapter = { service: "spotify" } as MusicAdapter;
+
+      const isSpotify = (a: MusicAdapter): a is SpotifyAdapter =>
+        a.service === "spotify";
+
+      expect(isSpotify(adapter)).toBe(true);
+    });
+
+    test("should extend MusicAdapter with user methods in MusicUserAdapter", () => {
+      const userAdapter = {
+        service: "spotify",
+        getSavedTracks: async () => {
+          throw new Error("Not implemented");
+        },
+      } as unknown as MusicUserAdapter;
+
+      // MusicUserAdapter must be assignable to MusicAdapter
+      const adapter: MusicAdapter = userAdapter;
+
+      expect(adapter.service).toBe("spotify");
+      expect(typeof userAdapter.getSavedTracks).toBe("function");
+    });
+  });
 });
 
 describe("Error Classes", () => {
@@ -658,6 +852,62 @@ describe("Error Classes", () => {
     });
   });
 
+  // AppleMusicApiError (for other Apple Music API errors)
+  describe("AppleMusicApiError", () => {
+    test("should have name and statusCode properties", () => {
+      const error = new AppleMusicApiError(500, "Internal Server Error");
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe("AppleMusicApiError");
+      expect(error.statusCode).toBe(500);
+    });
+
+    test("should format error message with status code", () => {
+      const error = new AppleMusicApiError(403, "Forbidden");
+      expect(error.message).toBe("Apple Music API error: 403 Forbidden");
+    });
+  });
+
+  // UnsupportedOperationError (for operations a service does not offer)
+  describe("UnsupportedOperationError", () => {
+    test("should have name and operation properties", () => {
+      const error = new UnsupportedOperationError(
+        "updatePlaylistDetails",
+        "Apple Music",
+      );
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe("UnsupportedOperationError");
+      expect(error.operation).toBe("updatePlaylistDetails");
+      expect(error.message).toBe(
+        "updatePlaylistDetails is not supported by Apple Music",
+      );
+    });
+  });
+
+  // YouTubeApiError (for other YouTube Data API errors)
+  describe("YouTubeApiError", () => {
+    test("should have name and statusCode properties", () => {
+      const error = new YouTubeApiError(403, "forbidden");
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe("YouTubeApiError");
+      expect(error.statusCode).toBe(403);
+      expect(error.message).toBe("YouTube API error: 403 forbidden");
+    });
+  });
+
+  // QuotaExceededError (for the YouTube Data API daily budget)
+  describe("QuotaExceededError", () => {
+    test("should carry required units, remaining units and reset time", () => {
+      const resetsAt = new Date("2025-01-02T08:00:00.000Z");
+      const error = new QuotaExceededError(100, 42, resetsAt);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe("QuotaExceededError");
+      expect(error.required).toBe(100);
+      expect(error.remaining).toBe(42);
+      expect(error.resetsAt).toBe(resetsAt);
+      expect(error.message).toContain("100 units required, 42 remaining");
+    });
+  });
+
   // SpotifyApiError (for other API errors)
   describe("SpotifyApiError", () => {
     test("should extend Error", () => {
@@ -697,6 +947,84 @@ describe("Error Classes", () => {
     });
   });
 
+  describe("MusixError", () => {
+    test("should be the base class of every error", () => {
+      const errors = [
+        new AuthenticationError("Test"),
+        new NotFoundError("track", "id"),
+        new RateLimitError(30),
+        new NetworkError("Test"),
+        new TimeoutError(1000),
+        new AbortError(),
+        new SpotifyApiError(500, "Test"),
+        new AppleMusicApiError(500, "Test"),
+        new YouTubeApiError(500, "Test"),
+        new QuotaExceededError(100, 0, new Date()),
+        new ValidationError("Test"),
+        new PremiumRequiredError(),
+        new NoActiveDeviceError(),
+        new UnsupportedOperationError("play", "Apple Music"),
+        new MissingScopeError("saveTrack", ["user-library-modify"]),
+      ];
+
+      for (const error of errors) {
+        expect(error).toBeInstanceOf(MusixError);
+      }
+      expect(new Set(errors.map((error) => error.code)).size).toBe(13);
+    });
+
+    test("should derive status and service from service API errors", () => {
+      const error = new YouTubeApiError(503, "Backend error");
+
+      expect(error.code).toBe("SERVICE_ERROR");
+      expect(error.status).toBe(503);
+      expect(error.service).toBe("youtube-music");
+      expect(error.retryable).toBe(true);
+    });
+
+    test("should accept service, status and cause", () => {
+      const cause = new Error("socket hang up");
+      const error = new AuthenticationError("Token expired", {
+        service: "spotify",
+        status: 401,
+        cause,
+      });
+
+      expect(error.service).toBe("spotify");
+      expect(error.status).toBe(401);
+      expect(error.cause).toBe(cause);
+      expect(error.retryable).toBe(false);
+    });
+
+    test("should serialize to JSON with class specific details", () => {
+      // Given: A rate limit caused by another error
+      const error = new RateLimitError(12, {
+        service: "spotify",
+        cause: new NetworkError("reset"),
+      });
+
+      // When: The error is serialized
+      const json = JSON.parse(JSON.stringify(error));
+
+      // Then: The code, context, details and cause are included without the stack
+      expect(json).toEqual({
+        name: "RateLimitError",
+        code: "RATE_LIMITED",
+        message: "Rate limit exceeded. Retry after 12 seconds",
+        retryable: true,
+        service: "spotify",
+        status: 429,
+        details: { retryAfter: 12 },
+        cause: {
+          name: "NetworkError",
+          code: "NETWORK_ERROR",
+          message: "Network error: reset",
+          retryable: true,
+        },
+      });
+    });
+  });
+
   // Error differentiation tests
   describe("Error Type Differentiation", () => {
     test("should distinguish between different error types using instanceof", () => {
@@ -742,3 +1070,1020 @@ describe("Error Classes", () => {
     });
   });
 });
+
+describe("paginate", () => {
+  const pageOf = (
+    items: number[],
+    offset: number,
+    limit: number,
+    hasNext: boolean,
+  ): PaginatedResult<number> => ({
+    items,
+    total: 5,
+    limit,
+    offset,
+    hasNext,
+  });
+
+  test("should yield items of every page until hasNext is false", async () => {
+    // Given: A collection of 5 items served in pages of 2
+    const requested: SearchOptions[] = [];
+    const fetchPage = async (options: SearchOptions) => {
+      requested.push(options);
+      const offset = options.offset ?? 0;
+      const items = [1, 2, 3, 4, 5].slice(offset, offset + 2);
+      return pageOf(items, offset, 2, offset + 2 < 5);
+    };
+
+    // When: Iterating over the collection
+    const items: number[] = [];
+    for await (const item of paginate(fetchPage, { pageSize: 2 })) {
+      items.push(item);
+    }
+
+    // Then: Every item is yielded and pages are requested by offset
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(requested).toEqual([
+      { limit: 2, offset: 0 },
+      { limit: 2, offset: 2 },
+      { limit: 2, offset: 4 },
+    ]);
+  });
+
+  test("should fetch pages lazily", async () => {
+    // Given: A fetcher counting requests
+    let requests = 0;
+    const fetchPage = async (options: SearchOptions) => {
+      requests++;
+      return pageOf([options.offset ?? 0], options.offset ?? 0, 1, true);
+    };
+
+    // When: Reading only the first item
+    for await (const _ of paginate(fetchPage, { pageSize: 1 })) {
+      break;
+    }
+
+    // Then: Only the first page was requested
+    expect(requests).toBe(1);
+  });
+
+  test("should default to pages of 50 and start at the given offset", async () => {
+    const requested: SearchOptions[] = [];
+    const fetchPage = async (options: SearchOptions) => {
+      requested.push(options);
+      return pageOf([], options.offset ?? 0, 50, false);
+    };
+
+    for await (const _ of paginate(fetchPage, { offset: 10 })) {
+      // No items
+    }
+
+    expect(requested).toEqual([{ limit: 50, offset: 10 }]);
+  });
+
+  test("should advance by the limit reported by the page", async () => {
+    // Given: A service capping the page size at 25
+    const requested: SearchOptions[] = [];
+    const fetchPage = async (options: SearchOptions) => {
+      requested.push(options);
+      const offset = options.offset ?? 0;
+      return pageOf([offset], offset, 25, offset === 0);
+    };
+
+    // When: Iterating with the default page size
+    for await (const _ of paginate(fetchPage)) {
+      // Consume
+    }
+
+    // Then: The second page starts after the capped first page
+    expect(requested.map((options) => options.offset)).toEqual([0, 25]);
+  });
+
+  test("should derive hasNext from the total for search results", async () => {
+    // Given: Search results without hasNext
+    const fetchPage = async (
+      options: SearchOptions,
+    ): Promise<SearchResult<number>> => {
+      const offset = options.offset ?? 0;
+      return {
+        items: [1, 2, 3].slice(offset, offset + 2),
+        total: 3,
+        limit: 2,
+        offset,
+      };
+    };
+
+    // When: Iterating
+    const items: number[] = [];
+    for await (const item of paginate(fetchPage, { pageSize: 2 })) {
+      items.push(item);
+    }
+
+    // Then: Iteration stops at the total
+    expect(items).toEqual([1, 2, 3]);
+  });
+
+  test("should stop before an offset beyond the maximum offset", async () => {
+    // Given: Search results reporting far more items than the service serves
+    const requested: number[] = [];
+    const fetchPage = async (
+      options: SearchOptions,
+    ): Promise<SearchResult<number>> => {
+      const offset = options.offset ?? 0;
+      requested.push(offset);
+      return { items: [offset], total: 100_000, limit: 50, offset };
+    };
+
+    // When: Iterating with a maximum offset of 100
+    for await (const _ of paginate(fetchPage, undefined, 100)) {
+      // Consume
+    }
+
+    // Then: The offsets up to the maximum are requested
+    expect(requested).toEqual([0, 50, 100]);
+  });
+
+  test("should throw ValidationError for a page size below 1", async () => {
+    const fetchPage = async (): Promise<PaginatedResult<number>> =>
+      pageOf([], 0, 0, false);
+
+    const iterate = async () => {
+      for await (const _ of paginate(fetchPage, { pageSize: 0 })) {
+        // Never reached
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  test("should propagate errors of the page fetcher", async () => {
+    const fetchPage = async (): Promise<PaginatedResult<number>> => {
+      throw new RateLimitError(5);
+    };
+
+    const iterate = async () => {
+      for await (const _ of paginate(fetchPage)) {
+        // Never reached
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
+
+describe("paginateCursor", () => {
+  test("should follow after cursors until hasNext is false", async () => {
+    // Given: A collection of 5 items served in pages of 2, keyed by cursor
+    const requested: CursorPaginationOptions[] = [];
+    const fetchPage = async (options: CursorPaginationOptions) => {
+      requested.push(options);
+      const start = options.after ? Number(options.after) : 0;
+      const items = [1, 2, 3, 4, 5].slice(start, start + 2);
+      const hasNext = start + 2 < 5;
+      return {
+        items,
+        limit: 2,
+        after: hasNext ? String(start + 2) : null,
+        before: null,
+        hasNext,
+      };
+    };
+
+    // When: Iterating over the collection
+    const items: number[] = [];
+    for await (const item of paginateCursor(fetchPage, { pageSize: 2 })) {
+      items.push(item);
+    }
+
+    // Then: Every item is yielded and each page passes the previous cursor
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(requested).toEqual([
+      { limit: 2, after: undefined },
+      { limit: 2, after: "2" },
+      { limit: 2, after: "4" },
+    ]);
+  });
+
+  test("should stop when a page has no after cursor", async () => {
+    // Given: A page claiming a next page without a cursor
+    let requests = 0;
+    const fetchPage = async () => {
+      requests++;
+      return {
+        items: [1],
+        limit: 50,
+        after: null,
+        before: null,
+        hasNext: true,
+      };
+    };
+
+    // When: Iterating over the collection
+    for await (const _ of paginateCursor(fetchPage)) {
+      // consume
+    }
+
+    // Then: Iteration stops instead of requesting the first page again
+    expect(requests).toBe(1);
+  });
+});
+
+describe("Token stores", () => {
+  const tokens: OAuthTokens = {
+    accessToken: "access",
+    refreshToken: "refresh",
+    expiresAt: 1767225600000,
+    scopes: ["user-read-private"],
+  };
+  const key = { clientId: "client-1", userId: "user-1" };
+
+  describe("createMemoryTokenStore", () => {
+    test("should get, set and clear tokens by client and user", async () => {
+      const store = createMemoryTokenStore();
+
+      await store.set(key, tokens);
+
+      expect(await store.get(key)).toEqual(tokens);
+      expect(await store.get({ ...key, clientId: "client-2" })).toBeUndefined();
+      expect(await store.get({ ...key, userId: "user-2" })).toBeUndefined();
+
+      await store.clear(key);
+      expect(await store.get(key)).toBeUndefined();
+    });
+  });
+
+  describe("createJsonFileTokenStore", () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "musix-tokens-"));
+      filePath = join(directory, "nested", "tokens.json");
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    test("should return undefined before the file exists", async () => {
+      const store = createJsonFileTokenStore(filePath);
+
+      expect(await store.get(key)).toBeUndefined();
+    });
+
+    test("should persist tokens across store instances", async () => {
+      // Given: Tokens written by one store instance
+      await createJsonFileTokenStore(filePath).set(key, tokens);
+
+      // When: A new instance reads the same file (e.g. after a restart)
+      const store = createJsonFileTokenStore(filePath);
+
+      // Then: The tokens are restored
+      expect(await store.get(key)).toEqual(tokens);
+      expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({
+        "client-1": { "user-1": tokens },
+      });
+    });
+
+    test("should write the file with owner-only permissions", async () => {
+      await createJsonFileTokenStore(filePath).set(key, tokens);
+
+      expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+    });
+
+    test("should keep every update when writes are concurrent", async () => {
+      const store = createJsonFileTokenStore(filePath);
+
+      await Promise.all(
+        ["user-1", "user-2", "user-3"].map((userId) =>
+          store.set({ ...key, userId }, tokens),
+        ),
+      );
+
+      expect(await store.get({ ...key, userId: "user-1" })).toEqual(tokens);
+      expect(await store.get({ ...key, userId: "user-2" })).toEqual(tokens);
+      expect(await store.get({ ...key, userId: "user-3" })).toEqual(tokens);
+    });
+
+    test("should clear only the given user", async () => {
+      const store = createJsonFileTokenStore(filePath);
+      await store.set(key, tokens);
+      await store.set({ ...key, userId: "user-2" }, tokens);
+
+      await store.clear(key);
+
+      expect(await store.get(key)).toBeUndefined();
+      expect(await store.get({ ...key, userId: "user-2" })).toEqual(tokens);
+    });
+  });
+});
+
+describe("Response cache", () => {
+  const createTrack = (id: string): Track => ({
+    id,
+    name: `Track ${id}`,
+    artists: [],
+    album: {
+      id: "album-1",
+      name: "Album",
+      artists: [],
+      releaseDate: { year: 2024, month: 1, day: 1, precision: "day" },
+      totalTracks: 1,
+      images: [],
+      externalUrl: "https://example.com/album-1",
+    },
+    durationMs: 1000,
+    previewUrl: null,
+    externalUrl: `https://example.com/${id}`,
+  });
+
+  const createPlaylistPage = (): PaginatedResult<Track> => ({
+    items: [createTrack("1")],
+    total: 1,
+    limit: 20,
+    offset: 0,
+    hasNext: false,
+  });
+
+  /** Adapter stub whose methods count the calls reaching the service */
+  const createAdapter = () => {
+    const adapter = {
+      service: "spotify",
+      capabilities: {
+        playback: true,
+        recommendations: false,
+        relatedArtists: false,
+        collaborativePlaylists: false,
+        userProfile: false,
+        followedArtists: false,
+        listeningHistory: false,
+        newReleases: false,
+        podcasts: false,
+        audiobooks: false,
+        maxBatchIds: { tracks: 50, albums: 20, artists: 50 },
+      },
+      getTrack: mock(async (id: string) => createTrack(id)),
+      getTracks: mock(async (ids: string[]) =>
+        ids.filter((id) => id !== "missing").map(createTrack),
+      ),
+      getPlaylistTracks: mock(async () => createPlaylistPage()),
+      getPlaybackState: mock(async () => null),
+    };
+    return adapter as typeof adapter & MusicUserAdapter;
+  };
+
+  test("should serve repeated catalog reads from the cache", async () => {
+    // Given: A cached adapter
+    const adapter = createAdapter();
+    const cached = withCache(adapter);
+
+    // When: The same track is requested twice
+    await cached.getTrack("1");
+    const track = await cached.getTrack("1");
+
+    // Then: Only the first call reaches the service
+    expect(track.id).toBe("1");
+    expect(adapter.getTrack).toHaveBeenCalledTimes(1);
+  });
+
+  test("should keep the entries of adapters serving different regions apart", async () => {
+    // Given: Two adapters of different regions sharing one store
+    const store = createMemoryCacheStore();
+    const us = { ...createAdapter(), region: "us" };
+    const jp = { ...createAdapter(), region: "jp" };
+    await withCache(us, { store }).getTrack("1");
+
+    // When: The other region requests the same track
+    await withCache(jp, { store }).getTrack("1");
+
+    // Then: It is loaded from its own region
+    expect(jp.getTrack).toHaveBeenCalledTimes(1);
+  });
+
+  test("should reload entries older than the TTL", async () => {
+    const adapter = createAdapter();
+    const cached = withCache(adapter, { ttlMs: { track: 10 } });
+
+    await cached.getTrack("1");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cached.getTrack("1");
+
+    expect(adapter.getTrack).toHaveBeenCalledTimes(2);
+  });
+
+  test("should load only uncached IDs of a batch lookup", async () => {
+    // Given: One of three tracks is cached
+    const adapter = createAdapter();
+    const cached = withCache(adapter);
+    await cached.getTrack("2");
+
+    // When: Four tracks are requested at once, one of them unknown
+    const tracks = await cached.getTracks(["1", "2", "3", "missing"]);
+    await cached.getTrack("3");
+
+    // Then: Only the uncached IDs are requested and later reads hit the cache
+    expect(tracks.map((track) => track.id)).toEqual(["1", "2", "3"]);
+    expect(adapter.getTracks.mock.calls).toEqual([[["1", "3", "missing"]]]);
+    expect(adapter.getTrack).toHaveBeenCalledTimes(1);
+  });
+
+  test("should never cache user-state methods", async () => {
+    const adapter = createAdapter();
+    const cached = withCache(adapter);
+
+    await cached.getPlaybackState();
+    await cached.getPlaybackState();
+
+    expect(adapter.getPlaybackState).toHaveBeenCalledTimes(2);
+  });
+
+  test("should drop every cached page of an invalidated resource", async () => {
+    // Given: Two cached pages of a playlist
+    const adapter = createAdapter();
+    const cached = withCache(adapter);
+    await cached.getPlaylistTracks("playlist-1");
+    await cached.getPlaylistTracks("playlist-1", { offset: 20 });
+
+    // When: The playlist is invalidated, e.g. after adding tracks
+    await cached.invalidate("playlist", "playlist-1");
+    await cached.getPlaylistTracks("playlist-1");
+    await cached.getPlaylistTracks("playlist-1", { offset: 20 });
+
+    // Then: Both pages are loaded again
+    expect(adapter.getPlaylistTracks).toHaveBeenCalledTimes(4);
+  });
+
+  test("should drop every resource on invalidateAll", async () => {
+    const adapter = createAdapter();
+    const cached = withCache(adapter);
+    await cached.getTrack("1");
+
+    await cached.invalidateAll();
+    await cached.getTrack("1");
+
+    expect(adapter.getTrack).toHaveBeenCalledTimes(2);
+  });
+
+  describe("createMemoryCacheStore", () => {
+    test("should evict the least recently used resource", async () => {
+      // Given: A store holding two resources, the first one read recently
+      const store = createMemoryCacheStore({ maxEntries: 2 });
+      const record = { getTrack: { value: 1, expiresAt: Date.now() + 1000 } };
+      await store.set("a", record);
+      await store.set("b", record);
+      await store.get("a");
+
+      // When: A third resource is stored
+      await store.set("c", record);
+
+      // Then: The least recently used one is evicted
+      expect(await store.get("a")).toEqual(record);
+      expect(await store.get("b")).toBeUndefined();
+      expect(await store.get("c")).toEqual(record);
+    });
+  });
+
+  describe("createJsonFileCacheStore", () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "musix-cache-"));
+      filePath = join(directory, "nested", "cache.json");
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    test("should persist cached responses across store instances", async () => {
+      // Given: A track cached through one store instance
+      const adapter = createAdapter();
+      await withCache(adapter, {
+        store: createJsonFileCacheStore(filePath),
+      }).getTrack("1");
+
+      // When: A new instance reads the same file (e.g. after a restart)
+      const track = await withCache(adapter, {
+        store: createJsonFileCacheStore(filePath),
+      }).getTrack("1");
+
+      // Then: The track is served from the file
+      expect(track).toEqual(createTrack("1"));
+      expect(adapter.getTrack).toHaveBeenCalledTimes(1);
+    });
+
+    test("should drop expired entries when writing", async () => {
+      const store = createJsonFileCacheStore(filePath);
+      await store.set("expired", { getTrack: { value: 1, expiresAt: 0 } });
+      await store.set("fresh", {
+        getTrack: { value: 2, expiresAt: Date.now() + 1000 },
+      });
+
+      const file = JSON.parse(await readFile(filePath, "utf8"));
+      expect(Object.keys(file)).toEqual(["fresh"]);
+    });
+  });
+});
+
+describe("withRetry", () => {
+  /** Method failing with the given errors before resolving to "ok" */
+  const failingWith = (...errors: Error[]) => {
+    let calls = 0;
+    const method = async (value: string) => {
+      const error = errors[calls++];
+      if (error) {
+        throw error;
+      }
+      return `ok:${value}`;
+    };
+    return { method, calls: () => calls };
+  };
+
+  test("should return the methods unchanged without a policy", () => {
+    const methods = { getTrack: async () => "track" };
+
+    expect(withRetry(methods, undefined)).toBe(methods);
+  });
+
+  test("should retry network errors and report each retry", async () => {
+    // Given: A method failing twice with network errors
+    const { method, calls } = failingWith(
+      new NetworkError("reset"),
+      new NetworkError("reset"),
+    );
+    const events: RetryEvent[] = [];
+    const adapter = withRetry(
+      { getTrack: method },
+      { baseDelayMs: 1, onRetry: (event) => events.push(event) },
+    );
+
+    // When: The method is called
+    const result = await adapter.getTrack("id");
+
+    // Then: The third attempt succeeds with the same arguments
+    expect(result).toBe("ok:id");
+    expect(calls()).toBe(3);
+    expect(events.map(({ method, attempt }) => [method, attempt])).toEqual([
+      ["getTrack", 1],
+      ["getTrack", 2],
+    ]);
+    expect(events[0].error).toBeInstanceOf(NetworkError);
+  });
+
+  test("should wait for retryAfter on rate limits", async () => {
+    const { method } = failingWith(new RateLimitError(0.02));
+    const events: RetryEvent[] = [];
+    const adapter = withRetry(
+      { getTrack: method },
+      { onRetry: (event) => events.push(event) },
+    );
+
+    await adapter.getTrack("id");
+
+    expect(events[0].delayMs).toBe(20);
+  });
+
+  test("should back off exponentially with jitter within maxDelayMs", async () => {
+    const { method } = failingWith(
+      new SpotifyApiError(503, "Unavailable"),
+      new SpotifyApiError(503, "Unavailable"),
+      new SpotifyApiError(503, "Unavailable"),
+    );
+    const events: RetryEvent[] = [];
+    const adapter = withRetry(
+      { getTrack: method },
+      {
+        maxAttempts: 4,
+        baseDelayMs: 4,
+        maxDelayMs: 6,
+        onRetry: (event) => events.push(event),
+      },
+    );
+
+    await adapter.getTrack("id");
+
+    // Ceilings are 4, 8 and 16, capped at 6
+    const ceilings = [4, 6, 6];
+    events.forEach((event, index) => {
+      expect(event.delayMs).toBeGreaterThanOrEqual(0);
+      expect(event.delayMs).toBeLessThanOrEqual(ceilings[index]);
+    });
+  });
+
+  test("should give up after maxAttempts with the last error", async () => {
+    const last = new NetworkError("still down");
+    const { method, calls } = failingWith(new NetworkError("down"), last);
+    const adapter = withRetry(
+      { getTrack: method },
+      { maxAttempts: 2, baseDelayMs: 1 },
+    );
+
+    await expect(adapter.getTrack("id")).rejects.toBe(last);
+    expect(calls()).toBe(2);
+  });
+
+  test("should not retry client errors", async () => {
+    const { method, calls } = failingWith(new AuthenticationError("expired"));
+    const adapter = withRetry({ getTrack: method }, { baseDelayMs: 1 });
+
+    await expect(adapter.getTrack("id")).rejects.toBeInstanceOf(
+      AuthenticationError,
+    );
+    expect(calls()).toBe(1);
+  });
+
+  test("should not wait for a rate limit longer than maxDelayMs", async () => {
+    // Given: A rate limit asking for an hour
+    const limit = new RateLimitError(3600);
+    const { method, calls } = failingWith(limit);
+    const adapter = withRetry({ getTrack: method }, { maxDelayMs: 1000 });
+
+    // When/Then: The rate limit is rethrown without a retry
+    await expect(adapter.getTrack("id")).rejects.toBe(limit);
+    expect(calls()).toBe(1);
+  });
+
+  test("should stop waiting with AbortError when the call is aborted", async () => {
+    // Given: A method failing once, retried after a long backoff
+    const { method, calls } = failingWith(new NetworkError("reset"));
+    const adapter = withRetry(
+      { getTrack: (id: string, _options?: CallOptions) => method(id) },
+      { baseDelayMs: 60_000, maxDelayMs: 60_000 },
+    );
+    const controller = new AbortController();
+
+    // When: The call is aborted during the backoff
+    const promise = adapter.getTrack("id", { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    // Then: The call rejects with AbortError without another attempt
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(calls()).toBe(1);
+  });
+
+  test("should reject with TimeoutError when the backoff outlasts the timeout", async () => {
+    // Given: A rate limit asking for longer than the timeout of the call
+    const { method, calls } = failingWith(new RateLimitError(10));
+    const adapter = withRetry(
+      { getTrack: (id: string, _options?: CallOptions) => method(id) },
+      {},
+    );
+
+    // When/Then: The call times out without waiting or another attempt
+    await expect(
+      adapter.getTrack("id", { timeoutMs: 100 }),
+    ).rejects.toBeInstanceOf(TimeoutError);
+    expect(calls()).toBe(1);
+  });
+
+  test("should leave synchronous members unchanged", () => {
+    const adapter = withRetry(
+      { service: "spotify", supports: () => true },
+      { baseDelayMs: 1 },
+    );
+
+    expect(adapter.service).toBe("spotify");
+    expect(adapter.supports()).toBe(true);
+  });
+});
+
+describe("isRetryableError", () => {
+  test("should classify transient errors as retryable", () => {
+    expect(isRetryableError(new RateLimitError(1))).toBe(true);
+    expect(isRetryableError(new NetworkError("reset"))).toBe(true);
+    expect(isRetryableError(new SpotifyApiError(500, "Error"))).toBe(true);
+    expect(isRetryableError(new AppleMusicApiError(502, "Error"))).toBe(true);
+    expect(isRetryableError(new YouTubeApiError(503, "Error"))).toBe(true);
+  });
+
+  test("should classify client errors as not retryable", () => {
+    expect(isRetryableError(new SpotifyApiError(400, "Bad request"))).toBe(
+      false,
+    );
+    expect(isRetryableError(new AuthenticationError("expired"))).toBe(false);
+    expect(isRetryableError(new NotFoundError("track", "id"))).toBe(false);
+    expect(isRetryableError(new Error("unknown"))).toBe(false);
+  });
+});
+
+describe("createRequestScheduler", () => {
+  /** Promise resolved from the outside */
+  const deferred = () => {
+    let resolve = () => {};
+    const promise = new Promise<void>((done) => {
+      resolve = done;
+    });
+    return { promise, resolve };
+  };
+
+  const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  test("should keep at most maxConcurrent tasks in flight", async () => {
+    // Given: A scheduler allowing 2 concurrent tasks
+    const scheduler = createRequestScheduler({ maxConcurrent: 2 });
+    const gate = deferred();
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await gate.promise;
+      active--;
+    };
+
+    // When: 5 tasks are scheduled at once
+    const all = Promise.all(
+      Array.from({ length: 5 }, () => scheduler.schedule(task)),
+    );
+    await sleep(0);
+
+    // Then: 2 run and 3 wait
+    expect(scheduler.running).toBe(2);
+    expect(scheduler.queued).toBe(3);
+
+    gate.resolve();
+    await all;
+    expect(peak).toBe(2);
+    expect(scheduler.running).toBe(0);
+  });
+
+  test("should start queued high priority tasks before normal and low ones", async () => {
+    // Given: A single slot occupied by a blocking task
+    const scheduler = createRequestScheduler({ maxConcurrent: 1 });
+    const gate = deferred();
+    const blocking = scheduler.schedule(() => gate.promise);
+    const order: RequestPriority[] = [];
+    const record = (priority: RequestPriority) =>
+      scheduler.schedule(async () => {
+        order.push(priority);
+      }, priority);
+
+    // When: Tasks are queued from the lowest to the highest priority
+    const queued = [record("low"), record("normal"), record("high")];
+    gate.resolve();
+    await Promise.all([blocking, ...queued]);
+
+    // Then: They start from the highest priority
+    expect(order).toEqual(["high", "normal", "low"]);
+  });
+
+  test("should limit the request rate with a token bucket", async () => {
+    // Given: 50 requests per second without bursts
+    const scheduler = createRequestScheduler({
+      requestsPerSecond: 50,
+      burst: 1,
+    });
+    const startedAt: number[] = [];
+
+    // When: 3 tasks are scheduled at once
+    await Promise.all(
+      Array.from({ length: 3 }, () =>
+        scheduler.schedule(async () => {
+          startedAt.push(performance.now());
+        }),
+      ),
+    );
+
+    // Then: They start about 20ms apart
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(15);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(15);
+  });
+
+  test("should pause every lane for retryAfter after a RateLimitError", async () => {
+    // Given: A task that is rate limited for 50ms
+    const scheduler = createRequestScheduler();
+    const limited = scheduler.schedule(async () => {
+      throw new RateLimitError(0.05);
+    });
+    await expect(limited).rejects.toBeInstanceOf(RateLimitError);
+
+    // When: Another task is scheduled right away
+    const scheduledAt = performance.now();
+    let startedAt = 0;
+    await scheduler.schedule(async () => {
+      startedAt = performance.now();
+    }, "high");
+
+    // Then: It waits for the pause to end
+    expect(startedAt - scheduledAt).toBeGreaterThanOrEqual(40);
+  });
+
+  test("should pass task results and errors through", async () => {
+    const scheduler = createRequestScheduler();
+
+    expect(await scheduler.schedule(async () => "track")).toBe("track");
+    await expect(
+      scheduler.schedule(async () => {
+        throw new NetworkError("reset");
+      }),
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  test("should throw ValidationError for invalid limits", () => {
+    expect(() => createRequestScheduler({ maxConcurrent: 0 })).toThrow(
+      ValidationError,
+    );
+    expect(() => createRequestScheduler({ requestsPerSecond: 0 })).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe("Music links", () => {
+  test("should parse Spotify URLs with locale segments and query junk", () => {
+    // Given: Links as pasted from the Spotify apps
+    const inputs = [
+      "https://open.spotify.com/intl-ja/track/4uLU6hMCjMI75M1A2tKUQC?si=abc123",
+      "open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC",
+      "spotify:track:4uLU6hMCjMI75M1A2tKUQC",
+      "  https://open.spotify.com/embed/track/4uLU6hMCjMI75M1A2tKUQC  ",
+    ];
+
+    // When/Then: Every link resolves to the same track
+    for (const input of inputs) {
+      expect(parseMusicLink(input)).toEqual({
+        service: "spotify",
+        type: "track",
+        id: "4uLU6hMCjMI75M1A2tKUQC",
+      });
+    }
+    expect(parseMusicLink("spotify:user:someone:playlist:37i9dQZF1DX")).toEqual(
+      { service: "spotify", type: "playlist", id: "37i9dQZF1DX" },
+    );
+    expect(
+      parseMusicLink("https://open.spotify.com/episode/512ojhOuo1ktJprKbVcKyQ"),
+    ).toEqual({
+      service: "spotify",
+      type: "episode",
+      id: "512ojhOuo1ktJprKbVcKyQ",
+    });
+  });
+
+  test("should parse Apple Music URLs, reading songs from album URLs", () => {
+    expect(
+      parseMusicLink(
+        "https://music.apple.com/jp/album/abbey-road/1441164426?i=1441164430&l=en",
+      ),
+    ).toEqual({ service: "apple-music", type: "track", id: "1441164430" });
+    expect(
+      parseMusicLink("https://music.apple.com/us/album/abbey-road/1441164426"),
+    ).toEqual({ service: "apple-music", type: "album", id: "1441164426" });
+    expect(
+      parseMusicLink(
+        "https://music.apple.com/us/playlist/todays-hits/pl.f4d106fed2bd41149aaacabb233eb5eb",
+      ),
+    ).toEqual({
+      service: "apple-music",
+      type: "playlist",
+      id: "pl.f4d106fed2bd41149aaacabb233eb5eb",
+    });
+  });
+
+  test("should parse YouTube video, playlist and channel URLs", () => {
+    expect(parseMusicLink("https://youtu.be/dQw4w9WgXcQ?t=42")).toEqual({
+      service: "youtube-music",
+      type: "track",
+      id: "dQw4w9WgXcQ",
+    });
+    expect(
+      parseMusicLink(
+        "https://music.youtube.com/watch?v=dQw4w9WgXcQ&list=RDAMVM&feature=share",
+      ),
+    ).toEqual({ service: "youtube-music", type: "track", id: "dQw4w9WgXcQ" });
+    expect(
+      parseMusicLink(
+        "https://music.youtube.com/playlist?list=OLAK5uy_kAbc123&si=x",
+      ),
+    ).toEqual({
+      service: "youtube-music",
+      type: "album",
+      id: "OLAK5uy_kAbc123",
+    });
+    expect(
+      parseMusicLink(
+        "https://www.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw",
+      ),
+    ).toEqual({
+      service: "youtube-music",
+      type: "artist",
+      id: "UCuAXFkgsw1L7xaCfnd5JJOw",
+    });
+  });
+
+  test("should return null for unsupported input", () => {
+    for (const input of [
+      "",
+      "not a link",
+      "https://example.com/track/123",
+      "https://open.spotify.com/user/someone",
+      "https://music.apple.com/us/browse",
+    ]) {
+      expect(parseMusicLink(input)).toBeNull();
+    }
+  });
+
+  test("should format links that parse back to the same resource", () => {
+    // Given: One resource per service
+    const links = [
+      { service: "spotify", type: "show", id: "5CfCWKI5pZ28U0uOzXkDHe" },
+      { service: "apple-music", type: "track", id: "1441164430" },
+      { service: "youtube-music", type: "playlist", id: "PLabc" },
+    ] as const;
+
+    // When/Then: Formatting and parsing round-trips
+    for (const link of links) {
+      expect(parseMusicLink(formatMusicLink(link))).toEqual(link);
+    }
+    expect(
+      formatMusicLink(
+        { service: "apple-music", type: "album", id: "1441164426" },
+        { storefront: "jp" },
+      ),
+    ).toBe("https://music.apple.com/jp/album/1441164426");
+    expect(() =>
+      formatMusicLink({ service: "apple-music", type: "show", id: "1" }),
+    ).toThrow(ValidationError);
+  });
+
+  test("should build Spotify URIs only", () => {
+    expect(toUri({ service: "spotify", type: "album", id: "abc" })).toBe(
+      "spotify:album:abc",
+    );
+    expect(() =>
+      toUri({ service: "youtube-music", type: "track", id: "dQw4w9WgXcQ" }),
+    ).toThrow(ValidationError);
+  });
+});
+
+describe("Release dates", () => {
+  test("should parse dates of every precision", () => {
+    expect(parseReleaseDate("1997")).toEqual({ year: 1997, precision: "year" });
+    expect(parseReleaseDate("1997-06")).toEqual({
+      year: 1997,
+      month: 6,
+      precision: "month",
+    });
+    expect(parseReleaseDate("2009-10-25T07:05:28Z")).toEqual({
+      year: 2009,
+      month: 10,
+      day: 25,
+      precision: "day",
+    });
+  });
+
+  test("should return null for missing and invalid dates", () => {
+    for (const value of [
+      undefined,
+      "",
+      "0000",
+      "1997-13",
+      "1997-02-30",
+      "June 1997",
+    ]) {
+      expect(parseReleaseDate(value)).toBeNull();
+    }
+  });
+
+  test("should format only the known parts", () => {
+    for (const value of ["1997", "1997-06", "1997-06-16"]) {
+      const date = parseReleaseDate(value);
+      expect(date && formatReleaseDate(date)).toBe(value);
+    }
+  });
+
+  test("should sort dates with unknown parts before known ones", () => {
+    // Given: Dates of mixed precision
+    const dates = [
+      { year: 1997, month: 6, day: 16, precision: "day" },
+      { year: 1996, precision: "year" },
+      { year: 1997, month: 6, precision: "month" },
+      { year: 1997, precision: "year" },
+    ] as const;
+
+    // When: They are sorted
+    const sorted = [...dates].sort(compareReleaseDates).map(formatReleaseDate);
+
+    // Then: Years come first, then months, then days
+    expect(sorted).toEqual(["1996", "1997", "1997-06", "1997-06-16"]);
+  });
+
+  test("should return the period covered by a date", () => {
+    const month = getReleaseDateRange({
+      year: 1997,
+      month: 12,
+      precision: "month",
+    });
+    expect(month.start.toISOString()).toBe("1997-12-01T00:00:00.000Z");
+    expect(month.end.toISOString()).toBe("1998-01-01T00:00:00.000Z");
+
+    const day = getReleaseDateRange({
+      year: 2024,
+      month: 2,
+      day: 29,
+      precision: "day",
+    });
+    expect(day.end.toISOString()).toBe("2024-03-01T00:00:00.000Z");
+  });
+});
@@ -4,12 +4,31 @@ export type {
   User,
   Artist,
   Album,
+  AlbumType,
+  Copyright,
+  ReleaseDatePrecision,
+  ReleaseDate,
   Track,
   Playlist,
+  Show,
+  Episode,
+  ResumePoint,
+  Audiobook,
+  Chapter,
+  MarketOptions,
+  MarketSearchOptions,
+  MarketIterateOptions,
+  PlayableItem,
   SimplifiedPlaylist,
   SearchOptions,
+  ArtistAlbumsOptions,
+  ArtistAlbumsIterateOptions,
   SearchResult,
   PaginatedResult,
+  IterateOptions,
+  CallOptions,
+  CursorPaginationOptions,
+  CursorPaginatedResult,
   CurrentUser,
   Device,
   PlaybackState,
@@ -18,6 +37,7 @@ export type {
   RecommendationSeeds,
   RecommendationOptions,
   RecentlyPlayedItem,
+  RecentlyPlayedOptions,
   TimeRange,
   TopItemsOptions,
   CreatePlaylistOptions,
@@ -25,18 +45,120 @@ export type {
   QueueState,
   RepeatMode,
   SpotifyConfig,
+  RetryOptions,
+  RetryEvent,
+  RequestPriority,
+  RequestSchedulerOptions,
+  RequestScheduler,
+  AdapterRequestOptions,
+  SpotifyTokenAuthConfig,
+  SpotifyScopeRequirement,
+  SpotifyServerAuthConfig,
+  OAuthTokens,
+  TokenKey,
+  TokenStore,
+  TokenRefreshedEvent,
+  AuthorizationRequest,
+  SpotifyAuth,
+  MusicService,
+  NotFoundResourceType,
+  MusicLinkType,
+  MusicLink,
+  FormatMusicLinkOptions,
+  MusixErrorCode,
+  MusixErrorOptions,
+  MusixErrorJSON,
+  FeatureSupport,
+  BatchIdLimits,
+  BulkLookupOptions,
+  BulkLookupResult,
+  CacheResourceType,
+  CacheEntry,
+  CacheRecord,
+  CacheStore,
+  CacheOptions,
+  CacheControl,
+  AdapterCapabilities,
+  AdapterFeature,
+  AdapterFeatureMap,
+  PlaybackControl,
+  RecommendationProvider,
+  RelatedArtistsProvider,
+  PlaylistManagement,
+  UserProfileProvider,
+  ArtistFollowing,
+  ListeningHistoryProvider,
+  NewReleasesProvider,
+  PodcastProvider,
+  ShowLibrary,
+  AudiobookProvider,
+  AudiobookLibrary,
+  MusicAdapter,
+  MusicUserAdapter,
   SpotifyAdapter,
   SpotifyUserAdapter,
+  AppleMusicConfig,
+  AppleMusicUserAuthConfig,
+  AppleMusicAdapter,
+  AppleMusicUserAdapter,
+  YouTubeMusicConfig,
+  QuotaUsage,
+  YouTubeMusicAdapter,
 } from "./types";
 
 // Error classes
 export {
+  MusixError,
   AuthenticationError,
   NotFoundError,
   RateLimitError,
   NetworkError,
+  TimeoutError,
+  AbortError,
   SpotifyApiError,
   ValidationError,
   PremiumRequiredError,
   NoActiveDeviceError,
+  AppleMusicApiError,
+  UnsupportedOperationError,
+  MissingScopeError,
+  YouTubeApiError,
+  QuotaExceededError,
 } from "./errors";
+
+// Capability helpers
+export { isFeatureSupported } from "./capabilities";
+
+// Music links
+export { formatMusicLink, parseMusicLink, toUri } from "./links";
+
+// Release dates
+export {
+  compareReleaseDates,
+  formatReleaseDate,
+  getReleaseDateRange,
+  parseReleaseDate,
+} from "./release-date";
+
+// Pagination helpers
+export { paginate, paginateCursor } from "./pagination";
+export type { CursorPageFetcher, PageFetcher } from "./pagination";
+
+// Retry policy
+export { isRetryableError, withRetry } from "./retry";
+
+// Request scheduling
+export { createRequestScheduler } from "./scheduler";
+
+// Response cache
+export {
+  createJsonFileCacheStore,
+  createMemoryCacheStore,
+  withCache,
+} from "./cache";
+
+// Token stores
+export {
+  createJsonFileTokenStore,
+  createMemoryTokenStore,
+} from "./token-store";
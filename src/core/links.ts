@@ -0,0 +1,227 @@
+import { ValidationError } from "./errors";
+import type { FormatMusicLinkOptions, MusicLink, MusicLinkType } from "./types";
+
+/** Resource types of Spotify URIs and open.spotify.com paths */
+const SPOTIFY_TYPES: readonly MusicLinkType[] = [
+  "track",
+  "album",
+  "artist",
+  "playlist",
+  "show",
+  "episode",
+];
+
+/** Resource types of music.apple.com paths */
+const APPLE_MUSIC_TYPES: Record<string, MusicLinkType> = {
+  song: "track",
+  album: "album",
+  artist: "artist",
+  playlist: "playlist",
+};
+
+/** Path segments of Apple Music URLs by resource type */
+const APPLE_MUSIC_PATHS: Partial<Record<MusicLinkType, string>> = {
+  track: "song",
+  album: "album",
+  artist: "artist",
+  playlist: "playlist",
+};
+
+/** Spotify URI, including the legacy form with a user segment */
+const SPOTIFY_URI_PATTERN =
+  /^spotify:(?:user:[^:]+:)?(track|album|artist|playlist|show|episode):([A-Za-z0-9]+)$/;
+
+/** Spotify base62 ID */
+const SPOTIFY_ID_PATTERN = /^[A-Za-z0-9]+$/;
+
+/** YouTube video ID */
+const YOUTUBE_VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+
+/** Prefix of the playlists YouTube Music generates for albums */
+const YOUTUBE_ALBUM_PLAYLIST_PREFIX = "OLAK5uy_";
+
+/**
+ * Parses an open.spotify.com path.
+ * Locale segments such as "intl-ja" and embed paths are skipped.
+ */
+function parseSpotifyPath(segments: string[]): MusicLink | null {
+  let start = 0;
+  while (/^(intl-[a-z-]+|embed(-podcast)?)$/i.test(segments[start] ?? "")) {
+    start++;
+  }
+  const rest = segments.slice(start);
+  // Legacy playlist URLs: /user/{userId}/playlist/{id}
+  const [type, id] =
+    rest[0] === "user" && rest[2] === "playlist" ? rest.slice(2) : rest;
+  if (
+    !SPOTIFY_TYPES.includes(type as MusicLinkType) ||
+    !id ||
+    !SPOTIFY_ID_PATTERN.test(id)
+  ) {
+    return null;
+  }
+  return { service: "spotify", type: type as MusicLinkType, id };
+}
+
+/**
+ * Parses a music.apple.com URL.
+ * Album URLs with an `i` parameter point to one of the album's songs.
+ */
+function parseAppleMusicUrl(url: URL, segments: string[]): MusicLink | null {
+  // The storefront segment, e.g. "us", is optional
+  const rest = /^[a-z]{2}$/i.test(segments[0] ?? "")
+    ? segments.slice(1)
+    : segments;
+  const type = APPLE_MUSIC_TYPES[rest[0] ?? ""];
+  // The name slug before the ID is optional too
+  const id = rest.length > 1 ? rest[rest.length - 1] : undefined;
+  if (!type || !id) {
+    return null;
+  }
+
+  const songId = url.searchParams.get("i");
+  if (type === "album" && songId && /^\d+$/.test(songId)) {
+    return { service: "apple-music", type: "track", id: songId };
+  }
+  const valid = type === "playlist" ? /^pl\.[\w-]+$/ : /^\d+$/;
+  return valid.test(id) ? { service: "apple-music", type, id } : null;
+}
+
+/**
+ * Parses a youtube.com or music.youtube.com URL.
+ * Videos are tracks, and playlists generated for albums are albums.
+ */
+function parseYouTubePath(url: URL, segments: string[]): MusicLink | null {
+  const [first, second] = segments;
+  let videoId: string | null | undefined;
+  if (first === "watch") {
+    videoId = url.searchParams.get("v");
+  } else if (["shorts", "embed", "live", "v"].includes(first ?? "")) {
+    videoId = second;
+  } else if (first === "playlist") {
+    const listId = url.searchParams.get("list");
+    if (!listId) {
+      return null;
+    }
+    return {
+      service: "youtube-music",
+      type: listId.startsWith(YOUTUBE_ALBUM_PLAYLIST_PREFIX)
+        ? "album"
+        : "playlist",
+      id: listId,
+    };
+  } else if (first === "channel" && second) {
+    return { service: "youtube-music", type: "artist", id: second };
+  }
+
+  return videoId && YOUTUBE_VIDEO_ID_PATTERN.test(videoId)
+    ? { service: "youtube-music", type: "track", id: videoId }
+    : null;
+}
+
+/**
+ * Identifies the resource behind a pasted Spotify, Apple Music or YouTube
+ * link. Accepts share URLs with or without scheme, locale segments and
+ * tracking parameters such as `?si=`, Spotify URIs and youtu.be short links.
+ * @param input - URL or URI to parse
+ * @returns Service, resource type and ID, or null if the input is not a
+ *   supported link
+ *
+ * @example
+ * ```typescript
+ * parseMusicLink("https://open.spotify.com/intl-ja/track/4uLU6hMCjMI75M1A2tKUQC?si=abc");
+ * // { service: "spotify", type: "track", id: "4uLU6hMCjMI75M1A2tKUQC" }
+ * parseMusicLink("https://music.apple.com/us/album/abbey-road/1441164426?i=1441164430");
+ * // { service: "apple-music", type: "track", id: "1441164430" }
+ * ```
+ */
+export function parseMusicLink(input: string): MusicLink | null {
+  const trimmed = input.trim();
+
+  const uri = SPOTIFY_URI_PATTERN.exec(trimmed);
+  if (uri) {
+    return { service: "spotify", type: uri[1] as MusicLinkType, id: uri[2] };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(
+      /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`,
+    );
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/^(www|m|geo)\./, "");
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  switch (host) {
+    case "open.spotify.com":
+    case "play.spotify.com":
+      return parseSpotifyPath(segments);
+    case "music.apple.com":
+      return parseAppleMusicUrl(url, segments);
+    case "youtube.com":
+    case "music.youtube.com":
+    case "youtube-nocookie.com":
+      return parseYouTubePath(url, segments);
+    case "youtu.be":
+      return segments[0] && YOUTUBE_VIDEO_ID_PATTERN.test(segments[0])
+        ? { service: "youtube-music", type: "track", id: segments[0] }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds the web URL of a resource, the inverse of parseMusicLink.
+ * YouTube links open in YouTube Music, like the externalUrl of its adapter.
+ * @param link - Service, resource type and ID
+ * @param options - Apple Music storefront
+ * @returns Share URL of the resource
+ * @throws {ValidationError} If the service has no such resource type, e.g.
+ *   shows on Apple Music
+ */
+export function formatMusicLink(
+  link: MusicLink,
+  options: FormatMusicLinkOptions = {},
+): string {
+  const { service, type, id } = link;
+  switch (service) {
+    case "spotify":
+      return `https://open.spotify.com/${type}/${id}`;
+    case "apple-music": {
+      const path = APPLE_MUSIC_PATHS[type];
+      if (path) {
+        return `https://music.apple.com/${options.storefront ?? "us"}/${path}/${id}`;
+      }
+      break;
+    }
+    case "youtube-music":
+      switch (type) {
+        case "track":
+          return `https://music.youtube.com/watch?v=${id}`;
+        case "album":
+        case "playlist":
+          return `https://music.youtube.com/playlist?list=${id}`;
+        case "artist":
+          return `https://music.youtube.com/channel/${id}`;
+      }
+      break;
+  }
+  throw new ValidationError(`${service} has no ${type} links`);
+}
+
+/**
+ * Builds the URI of a resource, e.g. for the contextUri of play().
+ * Only Spotify identifies resources by URI.
+ * @param link - Service, resource type and ID
+ * @returns URI such as "spotify:album:1A2GTWGtFfWp7KSQTwWOyo"
+ * @throws {ValidationError} If the service has no URI scheme
+ */
+export function toUri(link: MusicLink): string {
+  if (link.service !== "spotify") {
+    throw new ValidationError(`${link.service} has no URI scheme`);
+  }
+  return `spotify:${link.type}:${link.id}`;
+}
@@ -0,0 +1,246 @@
+import { pickCallOptions } from "./call-options";
+import { ValidationError } from "./errors";
+import type {
+  CallOptions,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+  IterateOptions,
+  MusicAdapter,
+  MusicUserAdapter,
+  PaginatedResult,
+  SearchOptions,
+  SearchResult,
+} from "./types";
+
+/** Default number of items fetched per request while iterating */
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Fetches one page of an offset-paginated collection */
+export type PageFetcher<T> = (
+  options: SearchOptions,
+  callOptions?: CallOptions,
+) => Promise<PaginatedResult<T> | SearchResult<T>>;
+
+/** Fetches one page of a cursor-paginated collection */
+export type CursorPageFetcher<T> = (
+  options: CursorPaginationOptions,
+  callOptions?: CallOptions,
+) => Promise<CursorPaginatedResult<T>>;
+
+/** Catalog methods returning a single page */
+type CatalogPageMethods = Pick<
+  MusicAdapter,
+  | "capabilities"
+  | "searchTracks"
+  | "searchAlbums"
+  | "searchArtists"
+  | "searchPlaylists"
+  | "getArtistAlbums"
+  | "getAlbumTracks"
+  | "getPlaylistTracks"
+>;
+
+/** Iterable variants of the catalog collection methods */
+export type CatalogIterators = Pick<
+  MusicAdapter,
+  | "iterateSearchTracks"
+  | "iterateSearchAlbums"
+  | "iterateSearchArtists"
+  | "iterateSearchPlaylists"
+  | "iterateArtistAlbums"
+  | "iterateAlbumTracks"
+  | "iteratePlaylistTracks"
+>;
+
+/** Library methods returning a single page */
+type LibraryPageMethods = Pick<
+  MusicUserAdapter,
+  "getSavedTracks" | "getSavedAlbums" | "getUserPlaylists"
+>;
+
+/** Iterable variants of the library collection methods */
+export type LibraryIterators = Pick<
+  MusicUserAdapter,
+  "iterateSavedTracks" | "iterateSavedAlbums" | "iterateUserPlaylists"
+>;
+
+/**
+ * Determines whether a page is followed by another one.
+ * Search results carry no hasNext flag, so it is derived from the total.
+ */
+function hasNextPage<T>(page: PaginatedResult<T> | SearchResult<T>): boolean {
+  if ("hasNext" in page) {
+    return page.hasNext;
+  }
+  return page.items.length > 0 && page.offset + page.limit < page.total;
+}
+
+/**
+ * Returns the number of items fetched per request while iterating.
+ * @throws {ValidationError} If the page size is less than 1
+ */
+function resolvePageSize(
+  options: Pick<IterateOptions, "pageSize"> | undefined,
+) {
+  const pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
+  if (pageSize < 1) {
+    throw new ValidationError(
+      `pageSize must be at least 1, received ${pageSize}`,
+    );
+  }
+  return pageSize;
+}
+
+/**
+ * Iterates over every item of an offset-paginated collection.
+ * Pages are fetched lazily: the next request is sent only after the
+ * consumer has read every item of the current page, and iteration stops
+ * when a page reports no next page or the next offset exceeds `maxOffset`.
+ * @param fetchPage - Fetches the page for a limit and offset
+ * @param options - Optional page size, starting offset, signal and timeout
+ * @param maxOffset - Largest offset the service accepts, if it caps offsets
+ * @returns Async iterator over the collection items
+ * @throws {ValidationError} If the page size is less than 1
+ *
+ * @example
+ * ```typescript
+ * for await (const track of paginate((page) => adapter.getSavedTracks(page))) {
+ *   console.log(track.name);
+ * }
+ * ```
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options?: IterateOptions,
+  maxOffset?: number,
+): AsyncGenerator<T, void, undefined> {
+  const limit = resolvePageSize(options);
+  let offset = options?.offset ?? 0;
+  const callOptions = pickCallOptions(options);
+
+  while (true) {
+    const page = await fetchPage({ limit, offset }, callOptions);
+    yield* page.items;
+
+    // page.limit reflects the service cap, which may be lower than requested
+    if (!hasNextPage(page) || page.limit <= 0) {
+      return;
+    }
+    offset = page.offset + page.limit;
+    if (maxOffset !== undefined && offset > maxOffset) {
+      return;
+    }
+  }
+}
+
+/**
+ * Iterates over every item of a cursor-paginated collection.
+ * Each request passes the `after` cursor of the previous page, and
+ * iteration stops when a page reports no next page or returns no cursor.
+ * @param fetchPage - Fetches the page for a limit and cursor
+ * @param options - Optional page size, signal and timeout
+ * @returns Async iterator over the collection items
+ * @throws {ValidationError} If the page size is less than 1
+ *
+ * @example
+ * ```typescript
+ * for await (const artist of paginateCursor((page) =>
+ *   adapter.getFollowedArtists(page),
+ * )) {
+ *   console.log(artist.name);
+ * }
+ * ```
+ */
+export async function* paginateCursor<T>(
+  fetchPage: CursorPageFetcher<T>,
+  options?: Pick<IterateOptions, "pageSize" | "signal" | "timeoutMs">,
+): AsyncGenerator<T, void, undefined> {
+  const limit = resolvePageSize(options);
+  let after: string | undefined;
+  const callOptions = pickCallOptions(options);
+
+  while (true) {
+    const page = await fetchPage({ limit, after }, callOptions);
+    yield* page.items;
+
+    if (!page.hasNext || page.after === null) {
+      return;
+    }
+    after = page.after;
+  }
+}
+
+/**
+ * Creates the iterable variants of the catalog collection methods.
+ * @param methods - Adapter providing the single-page methods
+ * @returns Iterator methods to spread into the adapter
+ */
+export function createCatalogIterators(
+  methods: CatalogPageMethods,
+): CatalogIterators {
+  const maxSearchOffset = methods.capabilities.maxSearchOffset;
+  return {
+    iterateSearchTracks: (query, options) =>
+      paginate(
+        (page, call) => methods.searchTracks(query, page, call),
+        options,
+        maxSearchOffset,
+      ),
+    iterateSearchAlbums: (query, options) =>
+      paginate(
+        (page, call) => methods.searchAlbums(query, page, call),
+        options,
+        maxSearchOffset,
+      ),
+    iterateSearchArtists: (query, options) =>
+      paginate(
+        (page, call) => methods.searchArtists(query, page, call),
+        options,
+        maxSearchOffset,
+      ),
+    iterateSearchPlaylists: (query, options) =>
+      paginate(
+        (page, call) => methods.searchPlaylists(query, page, call),
+        options,
+        maxSearchOffset,
+      ),
+    iterateArtistAlbums: (artistId, options) =>
+      paginate(
+        (page, call) =>
+          methods.getArtistAlbums(
+            artistId,
+            { ...page, includeGroups: options?.includeGroups },
+            call,
+          ),
+        options,
+      ),
+    iterateAlbumTracks: (albumId, options) =>
+      paginate(
+        (page, call) => methods.getAlbumTracks(albumId, page, call),
+        options,
+      ),
+    iteratePlaylistTracks: (playlistId, options) =>
+      paginate(
+        (page, call) => methods.getPlaylistTracks(playlistId, page, call),
+        options,
+      ),
+  };
+}
+
+/**
+ * Creates the iterable variants of the library collection methods.
+ * @param methods - Adapter providing the single-page methods
+ * @returns Iterator methods to spread into the adapter
+ */
+export function createLibraryIterators(
+  methods: LibraryPageMethods,
+): LibraryIterators {
+  return {
+    iterateSavedTracks: (options) =>
+      paginate((page, call) => methods.getSavedTracks(page, call), options),
+    iterateSavedAlbums: (options) =>
+      paginate((page, call) => methods.getSavedAlbums(page, call), options),
+    iterateUserPlaylists: (options) =>
+      paginate((page, call) => methods.getUserPlaylists(page, call), options),
+  };
+}
@@ -0,0 +1,120 @@
+import type { ReleaseDate } from "./types";
+
+/** Date prefix of ISO 8601 strings, e.g. of YouTube's publishedAt timestamps */
+const RELEASE_DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?(?:T.*)?$/;
+
+/**
+ * Parses a release date reported by a service.
+ * Accepts "1997", "1997-06", "1997-06-16" and full ISO 8601 timestamps.
+ * @param value - Date string of the service
+ * @returns ReleaseDate, or null if the value is missing or not a valid date.
+ *   Spotify reports unknown dates as "0000", which also yields null
+ *
+ * @example
+ * ```typescript
+ * parseReleaseDate("1997-06");
+ * // { year: 1997, month: 6, precision: "month" }
+ * ```
+ */
+export function parseReleaseDate(
+  value: string | null | undefined,
+): ReleaseDate | null {
+  const match = RELEASE_DATE_PATTERN.exec(value?.trim() ?? "");
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map((part) => Number(part));
+  if (year === 0) {
+    return null;
+  }
+  if (!match[2]) {
+    return { year, precision: "year" };
+  }
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  if (!match[3]) {
+    return { year, month, precision: "month" };
+  }
+  // Date.UTC rolls days past the end of the month over to the next month
+  if (
+    day < 1 ||
+    new Date(Date.UTC(year, month - 1, day)).getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return { year, month, day, precision: "day" };
+}
+
+/**
+ * Formats a release date as an ISO 8601 date with its known parts only.
+ * @param date - Release date
+ * @returns "1997", "1997-06" or "1997-06-16"
+ */
+export function formatReleaseDate(date: ReleaseDate): string {
+  const parts = [String(date.year).padStart(4, "0")];
+  if (date.month !== undefined) {
+    parts.push(String(date.month).padStart(2, "0"));
+    if (date.day !== undefined) {
+      parts.push(String(date.day).padStart(2, "0"));
+    }
+  }
+  return parts.join("-");
+}
+
+/**
+ * Orders release dates chronologically, for use with Array.prototype.sort.
+ * A date with an unknown month or day sorts before the known dates of the
+ * same year or month, i.e. "1997" < "1997-01" < "1997-01-01".
+ * @param a - First release date
+ * @param b - Second release date
+ * @returns Negative if a is earlier, positive if later, 0 if equal
+ *
+ * @example
+ * ```typescript
+ * albums.sort((a, b) =>
+ *   a.releaseDate && b.releaseDate
+ *     ? compareReleaseDates(b.releaseDate, a.releaseDate)
+ *     : 0,
+ * );
+ * ```
+ */
+export function compareReleaseDates(a: ReleaseDate, b: ReleaseDate): number {
+  return (
+    a.year - b.year ||
+    (a.month ?? 0) - (b.month ?? 0) ||
+    (a.day ?? 0) - (b.day ?? 0)
+  );
+}
+
+/**
+ * Returns the period a release date may fall in, e.g. the whole year when
+ * only the year is known. Times are UTC midnight.
+ * @param date - Release date
+ * @returns Start of the period, and the start of the period after it
+ *
+ * @example
+ * ```typescript
+ * // Released this week, counting only dates known to the day
+ * const date = album.releaseDate;
+ * const isNew =
+ *   date?.precision === "day" && getReleaseDateRange(date).start >= weekStart;
+ * ```
+ */
+export function getReleaseDateRange(date: ReleaseDate): {
+  start: Date;
+  end: Date;
+} {
+  const month = (date.month ?? 1) - 1;
+  const day = date.day ?? 1;
+  const start = new Date(Date.UTC(date.year, month, day));
+  const end = new Date(
+    Date.UTC(
+      date.year + (date.precision === "year" ? 1 : 0),
+      month + (date.precision === "month" ? 1 : 0),
+      day + (date.precision === "day" ? 1 : 0),
+    ),
+  );
+  return { start, end };
+}
@@ -0,0 +1,81 @@
+import { type LookupMethods, withCoalescing } from "./coalesce";
+import { withDeduplication } from "./dedupe";
+import { MusixError } from "./errors";
+import { withRetry } from "./retry";
+import { withScheduler } from "./scheduler";
+import type { AdapterRequestOptions, MusicService } from "./types";
+
+/**
+ * Records the service of the adapter on every MusixError its methods
+ * reject with, unless the error already names one.
+ * @param methods - Adapter methods
+ * @returns Object with the same members
+ */
+function withErrorService<T extends { service: MusicService }>(methods: T): T {
+  const wrapped: Record<string, unknown> = { ...methods };
+  for (const [name, value] of Object.entries(wrapped)) {
+    if (typeof value !== "function") {
+      continue;
+    }
+    wrapped[name] = function (this: unknown, ...args: unknown[]) {
+      const result = value.apply(this, args);
+      if (!(result instanceof Promise)) {
+        return result;
+      }
+      return result.catch((error: unknown) => {
+        if (error instanceof MusixError) {
+          error.service ??= methods.service;
+        }
+        throw error;
+      });
+    };
+  }
+  return wrapped as T;
+}
+
+/**
+ * Applies the scheduler and retry policy of an adapter config to methods
+ * outside the adapter interface, such as the page fetchers behind an
+ * adapter's own iterators, and tags the errors they throw with the service.
+ * @param methods - Methods with the service of the adapter
+ * @param options - Adapter config
+ * @returns Object with the same members
+ */
+export function applyCallPolicies<T extends { service: MusicService }>(
+  methods: T,
+  options: AdapterRequestOptions,
+): T {
+  return withRetry(
+    withScheduler(
+      withErrorService(methods),
+      options.scheduler,
+      options.priority,
+    ),
+    options.retry,
+    options.timeoutMs,
+  );
+}
+
+/**
+ * Applies the scheduler, retry policy, request deduplication and lookup
+ * coalescing of an adapter config to its methods, and tags the errors they
+ * throw with the service of the adapter.
+ * Each retry attempt goes through the scheduler again, so retries respect the
+ * concurrency and rate limits as well as a pause after a rate limit.
+ * Identical concurrent reads share one scheduled and retried call, and
+ * coalesced lookups are sent through the resulting batch methods.
+ * @param methods - Adapter methods, before iterators are derived
+ * @param options - Adapter config
+ * @returns Object with the same members
+ */
+export function applyRequestOptions<
+  T extends LookupMethods & { service: MusicService },
+>(methods: T, options: AdapterRequestOptions): T {
+  return withCoalescing(
+    withDeduplication(
+      applyCallPolicies(methods, options),
+      options.dedupeRequests,
+    ),
+    options.coalesceLookups,
+  );
+}
@@ -0,0 +1,176 @@
+import { findCallOptions } from "./call-options";
+import { AbortError, MusixError, RateLimitError, TimeoutError } from "./errors";
+import type { CallOptions, RetryOptions } from "./types";
+
+/** Default number of attempts, including the first one */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** Default delay before the first retry */
+const DEFAULT_BASE_DELAY_MS = 500;
+
+/** Default upper bound of a single backoff delay */
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+/**
+ * Determines whether a failed call may succeed when sent again, as reported
+ * by `MusixError.retryable`. Rate limits, network failures and 5xx service
+ * errors are transient; authentication, validation and other 4xx errors are
+ * not, and neither is anything that is not a MusixError.
+ * @param error - Error thrown by an adapter method
+ * @returns true if the call should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof MusixError && error.retryable;
+}
+
+/**
+ * Computes the delay before the next attempt.
+ * A rate limit is waited out as instructed by the service; other errors use
+ * exponential backoff with full jitter.
+ * @param error - Error of the failed attempt
+ * @param attempt - Number of the failed attempt, starting at 1
+ * @param options - Retry policy
+ * @returns Delay in milliseconds, or undefined when the rate limit lasts
+ * longer than maxDelayMs and is not worth waiting for
+ */
+function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions,
+): number | undefined {
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  if (error instanceof RateLimitError) {
+    const delayMs = error.retryAfter * 1000;
+    return delayMs <= maxDelayMs ? delayMs : undefined;
+  }
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Waits before the next attempt, stopping early when the call is aborted
+ * or its timeout elapses.
+ * @param delayMs - Delay in milliseconds
+ * @param callOptions - Signal and timeout of the call
+ * @param deadline - Time at which the timeout of the call elapses, if any
+ * @throws {AbortError} If the caller aborts the call
+ * @throws {TimeoutError} If the timeout elapses before the delay
+ */
+function sleep(
+  delayMs: number,
+  callOptions: CallOptions | undefined,
+  deadline: number | undefined,
+): Promise<void> {
+  const signal = callOptions?.signal;
+  const timeoutMs = callOptions?.timeoutMs ?? 0;
+  if (signal?.aborted) {
+    return Promise.reject(new AbortError(signal.reason));
+  }
+  if (deadline !== undefined && Date.now() + delayMs >= deadline) {
+    return Promise.reject(new TimeoutError(timeoutMs));
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Awaits a call, sending it again while it fails with a retryable error.
+ * The wait between attempts ends early when the call is aborted or its
+ * timeout, counted from the first attempt, would elapse.
+ * @param method - Name of the adapter method, reported to onRetry
+ * @param first - Pending result of the first attempt
+ * @param call - Starts another attempt
+ * @param options - Retry policy
+ * @param callOptions - Signal and timeout of the call
+ * @returns Result of the first successful attempt
+ */
+async function retry<T>(
+  method: string,
+  first: Promise<T>,
+  call: () => Promise<T>,
+  options: RetryOptions,
+  callOptions: CallOptions | undefined,
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const deadline =
+    callOptions?.timeoutMs !== undefined
+      ? Date.now() + callOptions.timeoutMs
+      : undefined;
+  let pending = first;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await pending;
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(error, attempt, options);
+      if (delayMs === undefined) {
+        throw error;
+      }
+      options.onRetry?.({ method, attempt, delayMs, error: error as Error });
+      await sleep(delayMs, callOptions, deadline);
+      pending = call();
+    }
+  }
+}
+
+/**
+ * Applies a retry policy to every asynchronous method of an adapter.
+ * Synchronous members such as `supports` and iterator factories are left
+ * unchanged; derive iterators from the returned object so that every page
+ * request is retried as well.
+ * @param methods - Adapter methods
+ * @param options - Retry policy; when omitted the methods are returned as is
+ * @param defaultTimeoutMs - Timeout of calls that set none, bounding their waits
+ * @returns Object with the same members, retrying failed calls
+ *
+ * @example
+ * ```typescript
+ * const adapter = withRetry(methods, {
+ *   maxAttempts: 5,
+ *   onRetry: ({ method, attempt, delayMs }) =>
+ *     console.warn(`${method} failed (attempt ${attempt}), retrying in ${delayMs}ms`),
+ * });
+ * ```
+ */
+export function withRetry<T extends object>(
+  methods: T,
+  options: RetryOptions | undefined,
+  defaultTimeoutMs?: number,
+): T {
+  if (!options) {
+    return methods;
+  }
+
+  const wrapped = { ...methods } as Record<string, unknown>;
+  for (const [name, value] of Object.entries(methods)) {
+    if (typeof value !== "function") {
+      continue;
+    }
+    wrapped[name] = function (this: unknown, ...args: unknown[]) {
+      const result: unknown = value.apply(this, args);
+      if (!(result instanceof Promise)) {
+        return result;
+      }
+      const callOptions = findCallOptions(args);
+      return retry(name, result, () => value.apply(this, args), options, {
+        signal: callOptions?.signal,
+        timeoutMs: callOptions?.timeoutMs ?? defaultTimeoutMs,
+      });
+    };
+  }
+  return wrapped as T;
+}
@@ -0,0 +1,193 @@
+import { RateLimitError, ValidationError } from "./errors";
+import type {
+  PlaybackControl,
+  RequestPriority,
+  RequestScheduler,
+  RequestSchedulerOptions,
+} from "./types";
+
+/** Default maximum number of requests in flight */
+const DEFAULT_MAX_CONCURRENT = 10;
+
+/** Lanes in the order they are served */
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+
+/** User-facing playback methods, always scheduled in the high lane */
+const PLAYBACK_METHODS = new Set<string>([
+  "play",
+  "pause",
+  "skipToNext",
+  "skipToPrevious",
+  "seek",
+  "getPlaybackState",
+  "getAvailableDevices",
+  "transferPlayback",
+  "setVolume",
+  "setShuffle",
+  "setRepeat",
+  "getQueue",
+  "addToQueue",
+] satisfies (keyof PlaybackControl)[]);
+
+/** Synchronous adapter members that never send a request */
+const UNSCHEDULED_MEMBERS = new Set(["supports", "getQuotaUsage"]);
+
+/**
+ * Creates a request scheduler with a concurrency limit, a token-bucket rate
+ * limit and priority lanes. Lanes are strict: a queued high request always
+ * starts before normal and low ones. When a task fails with RateLimitError,
+ * every lane is paused for `retryAfter` seconds.
+ * @param options - Concurrency and rate limits
+ * @returns RequestScheduler to pass to one or more adapters
+ * @throws {ValidationError} If a limit is not positive
+ *
+ * @example
+ * ```typescript
+ * const scheduler = createRequestScheduler({ maxConcurrent: 4, requestsPerSecond: 10 });
+ * const adapter = createSpotifyAdapter({ ...credentials, scheduler });
+ * const batchAdapter = createSpotifyAdapter({ ...credentials, scheduler, priority: "low" });
+ * ```
+ */
+export function createRequestScheduler(
+  options: RequestSchedulerOptions = {},
+): RequestScheduler {
+  const maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+  const requestsPerSecond =
+    options.requestsPerSecond ?? Number.POSITIVE_INFINITY;
+  const capacity = options.burst ?? Math.max(1, requestsPerSecond);
+  if (!(maxConcurrent >= 1) || !(requestsPerSecond > 0) || !(capacity >= 1)) {
+    throw new ValidationError(
+      "maxConcurrent and burst must be at least 1 and requestsPerSecond positive",
+    );
+  }
+
+  const lanes: Record<RequestPriority, Array<() => void>> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  let running = 0;
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const queued = () =>
+    lanes.high.length + lanes.normal.length + lanes.low.length;
+
+  /** Adds the tokens accumulated since the last refill */
+  function refill(now: number): void {
+    tokens = Math.min(
+      capacity,
+      tokens + ((now - refilledAt) / 1000) * requestsPerSecond,
+    );
+    refilledAt = now;
+  }
+
+  /** Runs drain again after a delay, unless a wake-up is already pending */
+  function wakeAfter(delayMs: number): void {
+    if (timer !== undefined) {
+      return;
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      drain();
+    }, delayMs);
+  }
+
+  /** Starts queued tasks while slots and tokens are available */
+  function drain(): void {
+    while (running < maxConcurrent && queued() > 0) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeAfter(pausedUntil - now);
+        return;
+      }
+      refill(now);
+      if (tokens < 1) {
+        wakeAfter(Math.ceil(((1 - tokens) / requestsPerSecond) * 1000));
+        return;
+      }
+
+      tokens -= 1;
+      running++;
+      for (const priority of PRIORITIES) {
+        const start = lanes[priority].shift();
+        if (start) {
+          start();
+          break;
+        }
+      }
+    }
+  }
+
+  const scheduler: RequestScheduler = {
+    schedule<T>(
+      task: () => Promise<T>,
+      priority: RequestPriority = "normal",
+    ): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        lanes[priority].push(() => {
+          Promise.resolve()
+            .then(task)
+            .then(resolve, (error: unknown) => {
+              if (error instanceof RateLimitError) {
+                scheduler.pause(error.retryAfter * 1000);
+              }
+              reject(error);
+            })
+            .finally(() => {
+              running--;
+              drain();
+            });
+        });
+        drain();
+      });
+    },
+
+    pause(durationMs: number): void {
+      pausedUntil = Math.max(pausedUntil, Date.now() + durationMs);
+    },
+
+    get queued() {
+      return queued();
+    },
+
+    get running() {
+      return running;
+    },
+  };
+
+  return scheduler;
+}
+
+/**
+ * Routes every request-sending method of an adapter through a scheduler.
+ * Playback methods use the high lane; other methods use the given priority.
+ * Derive iterators from the returned object so that pages are scheduled too.
+ * @param methods - Adapter methods
+ * @param scheduler - Scheduler; when omitted the methods are returned as is
+ * @param priority - Lane of non-playback methods. Defaults to "normal"
+ * @returns Object with the same members, scheduling each call
+ */
+export function withScheduler<T extends object>(
+  methods: T,
+  scheduler: RequestScheduler | undefined,
+  priority: RequestPriority = "normal",
+): T {
+  if (!scheduler) {
+    return methods;
+  }
+
+  const wrapped = { ...methods } as Record<string, unknown>;
+  for (const [name, value] of Object.entries(methods)) {
+    if (typeof value !== "function" || UNSCHEDULED_MEMBERS.has(name)) {
+      continue;
+    }
+    const lane = PLAYBACK_METHODS.has(name) ? "high" : priority;
+    wrapped[name] = function (this: unknown, ...args: unknown[]) {
+      return scheduler.schedule(() => value.apply(this, args), lane);
+    };
+  }
+  return wrapped as T;
+}
@@ -0,0 +1,109 @@
+import type { OAuthTokens, TokenKey, TokenStore } from "./types";
+
+/** Stored tokens grouped by client ID, then by user ID */
+type TokenFile = Record<string, Record<string, OAuthTokens>>;
+
+/**
+ * Creates a token store that keeps tokens in memory.
+ * Tokens are lost when the process exits.
+ * @returns TokenStore instance
+ */
+export function createMemoryTokenStore(): TokenStore {
+  const tokens = new Map<string, Map<string, OAuthTokens>>();
+
+  return {
+    async get({ clientId, userId }: TokenKey) {
+      return tokens.get(clientId)?.get(userId);
+    },
+
+    async set({ clientId, userId }: TokenKey, value: OAuthTokens) {
+      let users = tokens.get(clientId);
+      if (!users) {
+        users = new Map();
+        tokens.set(clientId, users);
+      }
+      users.set(userId, value);
+    },
+
+    async clear({ clientId, userId }: TokenKey) {
+      tokens.get(clientId)?.delete(userId);
+    },
+  };
+}
+
+/**
+ * Creates a token store that persists tokens to a JSON file, so that
+ * long-running workers keep their users signed in across restarts.
+ * The file is read on every lookup and replaced atomically on every write;
+ * it is created with owner-only permissions because it holds credentials.
+ * Node's fs module is loaded lazily to keep the core usable in browsers.
+ * @param filePath - Path of the JSON file
+ * @returns TokenStore instance
+ *
+ * @example
+ * ```typescript
+ * const tokenStore = createJsonFileTokenStore("./data/tokens.json");
+ * const auth = createSpotifyAuth({ ...config, tokenStore });
+ * ```
+ */
+export function createJsonFileTokenStore(filePath: string): TokenStore {
+  // Writes are chained so that concurrent updates do not overwrite each other
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  async function read(): Promise<TokenFile> {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(filePath, "utf8")) as TokenFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  function update(change: (file: TokenFile) => void): Promise<void> {
+    const write = pendingWrite.then(async () => {
+      const { mkdir, rename, writeFile } = await import("node:fs/promises");
+      const { dirname } = await import("node:path");
+
+      const file = await read();
+      change(file);
+
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(file, null, 2), {
+        mode: 0o600,
+      });
+      await rename(tempPath, filePath);
+    });
+    // A failed write must not block later ones
+    pendingWrite = write.catch(() => {});
+    return write;
+  }
+
+  return {
+    async get({ clientId, userId }: TokenKey) {
+      return (await read())[clientId]?.[userId];
+    },
+
+    set({ clientId, userId }: TokenKey, value: OAuthTokens) {
+      return update((file) => {
+        file[clientId] = { ...file[clientId], [userId]: value };
+      });
+    },
+
+    clear({ clientId, userId }: TokenKey) {
+      return update((file) => {
+        const users = file[clientId];
+        if (!users) {
+          return;
+        }
+        delete users[userId];
+        if (Object.keys(users).length === 0) {
+          delete file[clientId];
+        }
+      });
+    },
+  };
+}
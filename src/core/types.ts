@@ -25,10 +25,49 @@ export interface Album {
   id: string;
   name: string;
   artists: Artist[];
-  releaseDate: string;
+  /** Null when the service reports no release date */
+  releaseDate: ReleaseDate | null;
   totalTracks: number;
   images: Image[];
   externalUrl: string;
+  albumType?: AlbumType;
+  /** Record label that released the album */
+  label?: string;
+  /** Universal Product Code, for matching across services */
+  upc?: string;
+  copyrights?: Copyright[];
+  genres?: string[];
+  /** Popularity from 0 to 100, relative to the other albums of the service */
+  popularity?: number;
+}
+
+/**
+ * Kind of release. In artist album listings, "appears_on" marks albums of
+ * other artists the artist appears on, such as compilations.
+ */
+export type AlbumType = "album" | "single" | "compilation" | "appears_on";
+
+/** Copyright statement of an album */
+export interface Copyright {
+  text: string;
+  /** "C" for the copyright, "P" for the sound recording (phonogram) */
+  type: "C" | "P";
+}
+
+/** Precision of a release date: "1981", "1981-12" or "1981-12-15" */
+export type ReleaseDatePrecision = "year" | "month" | "day";
+
+/**
+ * Release date whose month and day may be unknown, as services report only
+ * the year of many older releases
+ */
+export interface ReleaseDate {
+  year: number;
+  /** 1 to 12, set unless precision is "year" */
+  month?: number;
+  /** 1 to 31, set when precision is "day" */
+  day?: number;
+  precision: ReleaseDatePrecision;
 }
 
 /** musix.js common Track type */
@@ -40,8 +79,112 @@ export interface Track {
   durationMs: number;
   previewUrl: string | null;
   externalUrl: string;
+  /** International Standard Recording Code, for matching across services */
+  isrc?: string;
+  explicit?: boolean;
+  /** Popularity from 0 to 100, relative to the other tracks of the service */
+  popularity?: number;
+  /** Position on its disc, starting at 1 */
+  trackNumber?: number;
+  discNumber?: number;
+  /** Whether the track can be played in the market of the request */
+  isPlayable?: boolean;
+  /** Why playback is restricted, e.g. "market", "product" or "explicit" */
+  restrictions?: string[];
+  /** ISO 3166-1 alpha-2 codes of the countries the track is available in */
+  availableMarkets?: string[];
+}
+
+/** musix.js common podcast Show type */
+export interface Show {
+  id: string;
+  name: string;
+  publisher: string;
+  description: string;
+  images: Image[];
+  totalEpisodes: number;
+  externalUrl: string;
+  explicit?: boolean;
+  /** BCP 47 language tags, e.g. "en-US" */
+  languages?: string[];
+}
+
+/** musix.js common podcast Episode type */
+export interface Episode {
+  id: string;
+  name: string;
+  description: string;
+  /** Omitted in search results, which do not include the show */
+  show?: Show;
+  durationMs: number;
+  /** Null when the service reports no release date */
+  releaseDate: ReleaseDate | null;
+  images: Image[];
+  audioPreviewUrl: string | null;
+  externalUrl: string;
+  explicit?: boolean;
+  /** Whether the episode can be played in the market of the request */
+  isPlayable?: boolean;
+  /** BCP 47 language tags, e.g. "en-US" */
+  languages?: string[];
+  /** Listening progress of the current user, reported to user adapters only */
+  resumePoint?: ResumePoint;
+}
+
+/** Where the user stopped listening to an episode */
+export interface ResumePoint {
+  fullyPlayed: boolean;
+  positionMs: number;
+}
+
+/** musix.js common Audiobook type */
+export interface Audiobook {
+  id: string;
+  name: string;
+  authors: string[];
+  narrators: string[];
+  publisher: string;
+  description: string;
+  images: Image[];
+  totalChapters: number;
+  externalUrl: string;
+  /** Edition, e.g. "Unabridged" */
+  edition?: string;
+  explicit?: boolean;
+  /** BCP 47 language tags, e.g. "en-US" */
+  languages?: string[];
+}
+
+/** musix.js common audiobook Chapter type */
+export interface Chapter {
+  id: string;
+  name: string;
+  description: string;
+  audiobook: Audiobook;
+  chapterNumber: number;
+  durationMs: number;
+  /** Null when the service reports no release date */
+  releaseDate: ReleaseDate | null;
+  images: Image[];
+  audioPreviewUrl: string | null;
+  externalUrl: string;
+  explicit?: boolean;
+  /** Whether the chapter can be played in the market of the request */
+  isPlayable?: boolean;
+  /** Why playback is restricted, e.g. "market", "product" or "payment_required" */
+  restrictions?: string[];
+  /** BCP 47 language tags, e.g. "en-US" */
+  languages?: string[];
+  /** Listening progress of the current user, reported to user adapters only */
+  resumePoint?: ResumePoint;
 }
 
+/** Item that can be played, told apart by its type */
+export type PlayableItem =
+  | (Track & { type: "track" })
+  | (Episode & { type: "episode" })
+  | (Chapter & { type: "chapter" });
+
 /** musix.js common Playlist type */
 export interface Playlist {
   id: string;
@@ -70,6 +213,25 @@ export interface SearchOptions {
   offset?: number;
 }
 
+/** Options of getArtistAlbums */
+export interface ArtistAlbumsOptions extends SearchOptions {
+  /** Album types to list. Defaults to every type */
+  includeGroups?: AlbumType[];
+}
+
+/** Options of podcast and audiobook lookups */
+export interface MarketOptions {
+  /**
+   * ISO 3166-1 alpha-2 code of the country whose catalog is used. Defaults to
+   * the country of the user's account; adapters without a user must set it,
+   * as shows, episodes and audiobooks are only offered in some countries
+   */
+  market?: string;
+}
+
+/** Options of paginated podcast and audiobook lookups */
+export interface MarketSearchOptions extends SearchOptions, MarketOptions {}
+
 /** Search result with pagination info */
 export interface SearchResult<T> {
   items: T[];
@@ -78,6 +240,31 @@ export interface SearchResult<T> {
   offset: number;
 }
 
+/** Per-call cancellation, accepted as the last argument of every adapter method */
+export interface CallOptions {
+  /** Aborts the call; it then rejects with AbortError */
+  signal?: AbortSignal;
+  /** Time limit of the call in milliseconds; it then rejects with TimeoutError. Overrides the adapter default */
+  timeoutMs?: number;
+}
+
+/** Options for iterating over every item of a collection */
+export interface IterateOptions extends CallOptions {
+  /** Number of items fetched per request. Defaults to 50 (capped by each service) */
+  pageSize?: number;
+  /** Index of the first item to yield. Defaults to 0 */
+  offset?: number;
+}
+
+/** Options of iterateArtistAlbums */
+export interface ArtistAlbumsIterateOptions extends IterateOptions {
+  /** Album types to list. Defaults to every type */
+  includeGroups?: AlbumType[];
+}
+
+/** Options of iterateShowEpisodes and iterateAudiobookChapters */
+export interface MarketIterateOptions extends IterateOptions, MarketOptions {}
+
 /** Paginated result for list endpoints */
 export interface PaginatedResult<T> {
   items: T[];
@@ -87,6 +274,26 @@ export interface PaginatedResult<T> {
   hasNext: boolean;
 }
 
+/** Options for cursor-paginated queries */
+export interface CursorPaginationOptions {
+  limit?: number;
+  /** Cursor returned as `after` by the previous page */
+  after?: string;
+}
+
+/** Paginated result for list endpoints that page by cursor instead of offset */
+export interface CursorPaginatedResult<T> {
+  items: T[];
+  limit: number;
+  /** Cursor pointing past the last item of this page, or null if none was returned */
+  after: string | null;
+  /** Cursor pointing before the first item of this page, or null if none was returned */
+  before: string | null;
+  hasNext: boolean;
+  /** Total number of items, when the service reports one */
+  total?: number;
+}
+
 /** Current user profile */
 export interface CurrentUser {
   id: string;
@@ -109,7 +316,8 @@ export interface Device {
 /** Playback state */
 export interface PlaybackState {
   isPlaying: boolean;
-  track: Track | null;
+  /** Track, episode or chapter being played; null for ads and unknown items */
+  item: PlayableItem | null;
   progressMs: number;
   durationMs: number;
   device: Device;
@@ -127,7 +335,7 @@ export interface PlayOptions {
 }
 
 /** User authentication config (PKCE flow) */
-export interface SpotifyUserAuthConfig {
+export interface SpotifyUserAuthConfig extends AdapterRequestOptions {
   clientId: string;
   redirectUri: string;
   scopes: string[];
@@ -155,6 +363,19 @@ export interface RecentlyPlayedItem {
   playedAt: string;
 }
 
+/**
+ * Recently played query options.
+ * `after` and `before` are mutually exclusive and accept a Date, a Unix
+ * timestamp in milliseconds or a cursor returned by a previous page.
+ */
+export interface RecentlyPlayedOptions {
+  limit?: number;
+  /** Only return items played after this time */
+  after?: Date | number | string;
+  /** Only return items played before this time */
+  before?: Date | number | string;
+}
+
 /** Time range for top items */
 export type TimeRange = "short_term" | "medium_term" | "long_term";
 
@@ -181,128 +402,811 @@ export interface PlaylistDetails {
 
 /** Queue state */
 export interface QueueState {
-  currentlyPlaying: Track | null;
-  queue: Track[];
+  currentlyPlaying: PlayableItem | null;
+  queue: PlayableItem[];
 }
 
 /** Repeat mode */
 export type RepeatMode = "off" | "track" | "context";
 
+/**
+ * Retry policy for transient failures.
+ * Rate limits, network errors and 5xx service errors are retried; rate
+ * limits wait for `RateLimitError.retryAfter`, other errors back off
+ * exponentially with full jitter.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one. Defaults to 3 */
+  maxAttempts?: number;
+  /** Backoff ceiling before the first retry, in milliseconds. Defaults to 500 */
+  baseDelayMs?: number;
+  /**
+   * Upper bound of a backoff delay, in milliseconds. A rate limit asking for
+   * a longer wait is not retried. Defaults to 30000
+   */
+  maxDelayMs?: number;
+  /** Called before waiting for each retry */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/** Payload of the onRetry hook */
+export interface RetryEvent {
+  /** Name of the adapter method being retried */
+  method: string;
+  /** Number of the attempt that failed, starting at 1 */
+  attempt: number;
+  /** Delay before the next attempt, in milliseconds */
+  delayMs: number;
+  /** Error of the failed attempt */
+  error: Error;
+}
+
+/** Scheduler lane; queued high requests start before normal, normal before low */
+export type RequestPriority = "high" | "normal" | "low";
+
+/** Request scheduler limits */
+export interface RequestSchedulerOptions {
+  /** Maximum number of requests in flight. Defaults to 10 */
+  maxConcurrent?: number;
+  /** Sustained request rate (token bucket refill rate). Unlimited by default */
+  requestsPerSecond?: number;
+  /** Token bucket size, i.e. requests allowed in a burst. Defaults to requestsPerSecond */
+  burst?: number;
+}
+
+/**
+ * Schedules adapter requests within concurrency and rate limits.
+ * One scheduler can be shared by several adapters, e.g. an interactive one
+ * and a low-priority one used by background jobs.
+ */
+export interface RequestScheduler {
+  /** Runs a task once a slot and a rate token are available */
+  schedule<T>(task: () => Promise<T>, priority?: RequestPriority): Promise<T>;
+  /** Holds back every queued task for the given duration */
+  pause(durationMs: number): void;
+  /** Number of tasks waiting for a slot */
+  readonly queued: number;
+  /** Number of tasks in flight */
+  readonly running: number;
+}
+
+/** Options controlling how an adapter sends its requests */
+export interface AdapterRequestOptions {
+  /** Opt-in retry policy applied to every adapter method */
+  retry?: RetryOptions;
+  /** Scheduler limiting concurrency and request rate, shareable between adapters */
+  scheduler?: RequestScheduler;
+  /** Scheduler lane of this adapter's requests; playback control always uses "high". Defaults to "normal" */
+  priority?: RequestPriority;
+  /**
+   * Batches getTrack, getAlbum and getArtist calls made in the same tick into
+   * getTracks, getAlbums and getArtists requests. Defaults to false
+   */
+  coalesceLookups?: boolean;
+  /**
+   * Shares one in-flight request among identical concurrent catalog reads.
+   * Mutations and user-state reads are never shared. Defaults to true
+   */
+  dedupeRequests?: boolean;
+  /** Default time limit of each call in milliseconds. Defaults to no limit */
+  timeoutMs?: number;
+}
+
 /** Spotify API configuration */
-export interface SpotifyConfig {
+export interface SpotifyConfig extends AdapterRequestOptions {
   clientId: string;
   clientSecret: string;
 }
 
-/** Spotify adapter interface */
-export interface SpotifyAdapter {
-  getTrack(id: string): Promise<Track>;
-  getTracks(ids: string[]): Promise<Track[]>;
+/** Server-side Spotify authorization (PKCE authorization code flow) configuration */
+export interface SpotifyServerAuthConfig extends AdapterRequestOptions {
+  clientId: string;
+  /** Sent as HTTP Basic credentials when set; PKCE alone needs no secret */
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string[];
+  /** Where issued tokens are persisted. Defaults to an in-memory store */
+  tokenStore?: TokenStore;
+  /** Base URL of the accounts service. Defaults to https://accounts.spotify.com */
+  accountsUrl?: string;
+  /** Called after a user's tokens have been refreshed and stored */
+  onTokenRefreshed?: (event: TokenRefreshedEvent) => void;
+}
+
+/** OAuth tokens issued for a user */
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  /** Expiry of the access token as a Unix timestamp in milliseconds */
+  expiresAt: number;
+  scopes: string[];
+}
+
+/** Identifies the tokens of one user of one client application */
+export interface TokenKey {
+  clientId: string;
+  userId: string;
+}
+
+/** Persists OAuth tokens per client and user */
+export interface TokenStore {
+  get(key: TokenKey): Promise<OAuthTokens | undefined>;
+  set(key: TokenKey, tokens: OAuthTokens): Promise<void>;
+  clear(key: TokenKey): Promise<void>;
+}
+
+/** Payload of the onTokenRefreshed event */
+export interface TokenRefreshedEvent extends TokenKey {
+  tokens: OAuthTokens;
+}
+
+/** Authorization URL and the values to keep until the callback arrives */
+export interface AuthorizationRequest {
+  /** URL to send the user to */
+  url: string;
+  /** PKCE code verifier, required to exchange the callback code */
+  codeVerifier: string;
+  /** Opaque value the callback must echo back */
+  state: string;
+}
+
+/** Server-side authorization helper for Spotify */
+export interface SpotifyAuth {
+  /** Builds an authorization URL with a fresh PKCE code verifier and state */
+  createAuthorizationRequest(options?: {
+    state?: string;
+    showDialog?: boolean;
+  }): Promise<AuthorizationRequest>;
+  /** Exchanges the callback code for tokens and stores them for the user */
+  exchangeCode(
+    userId: string,
+    code: string,
+    codeVerifier: string,
+  ): Promise<OAuthTokens>;
+  /** Refreshes the user's tokens and stores the result */
+  refreshTokens(userId: string): Promise<OAuthTokens>;
+  /** Returns a valid access token, refreshing it when it is about to expire */
+  getAccessToken(userId: string): Promise<string>;
+  /** Removes the stored tokens of the user */
+  clearTokens(userId: string): Promise<void>;
+  /** Creates a user adapter backed by the stored tokens of the user */
+  createUserAdapter(userId: string): SpotifyUserAdapter;
+}
+
+/**
+ * Token-only Spotify configuration.
+ * The caller obtains user access tokens (e.g. on a backend) and the adapter
+ * never redirects or touches browser globals.
+ */
+export type SpotifyTokenAuthConfig = (
+  | {
+      /** Static user access token */
+      accessToken: string;
+    }
+  | {
+      /** Returns a valid access token; called again after a 401 response */
+      getAccessToken: () => Promise<string>;
+    }
+) &
+  AdapterRequestOptions & {
+    /**
+     * Scopes granted to the token, or a function returning them before each
+     * call, e.g. from a token store. When set, calls needing other scopes
+     * fail with MissingScopeError before a request is sent
+     */
+    scopes?: string[] | (() => Promise<string[]>);
+  };
+
+/**
+ * OAuth scope required by a Spotify method. An array is satisfied by any
+ * one of its scopes, e.g. either playlist-modify scope.
+ */
+export type SpotifyScopeRequirement = string | readonly string[];
+
+/** Apple Music API configuration (developer token) */
+export interface AppleMusicConfig extends AdapterRequestOptions {
+  /** JWT developer token signed with a MusicKit private key */
+  developerToken: string;
+  /** Storefront (two-letter country code) used for catalog requests. Defaults to "us" */
+  storefront?: string;
+  /** API base URL override (e.g. a local stub server). Defaults to "https://api.music.apple.com" */
+  baseUrl?: string;
+}
+
+/** Apple Music user authentication config (developer token + Music User Token) */
+export interface AppleMusicUserAuthConfig extends AppleMusicConfig {
+  /** Music User Token obtained through MusicKit authorization */
+  musicUserToken: string;
+}
+
+/** YouTube Data API configuration (API key) */
+export interface YouTubeMusicConfig extends AdapterRequestOptions {
+  /** API key of a Google Cloud project with the YouTube Data API v3 enabled */
+  apiKey: string;
+  /** Daily quota budget in units. Defaults to 10,000 (the default project allocation) */
+  dailyQuota?: number;
+  /** API base URL override (e.g. a local stub server). Defaults to "https://www.googleapis.com/youtube/v3" */
+  baseUrl?: string;
+}
+
+/** Quota consumption of a YouTube Data API project for the current day */
+export interface QuotaUsage {
+  /** Units consumed since the last reset */
+  used: number;
+  /** Units left before the daily budget is exhausted */
+  remaining: number;
+  /** Daily budget in units */
+  dailyQuota: number;
+  /** Next reset (midnight Pacific Time) */
+  resetsAt: Date;
+}
+
+/** Music services supported by musix.js adapters */
+export type MusicService = "spotify" | "apple-music" | "youtube-music";
+
+/** Resources reported by NotFoundError */
+export type NotFoundResourceType =
+  | "track"
+  | "album"
+  | "artist"
+  | "playlist"
+  | "show"
+  | "episode"
+  | "audiobook"
+  | "chapter"
+  | "device"
+  | "user"
+  | "queue";
+
+/** Resources a music link can point to */
+export type MusicLinkType =
+  | "track"
+  | "album"
+  | "artist"
+  | "playlist"
+  | "show"
+  | "episode";
+
+/** Resource identified by a share URL or URI */
+export interface MusicLink {
+  service: MusicService;
+  type: MusicLinkType;
+  /** ID accepted by the adapter of the service */
+  id: string;
+}
+
+/** Options of formatMusicLink */
+export interface FormatMusicLinkOptions {
+  /** Apple Music storefront of the URL. Defaults to "us" */
+  storefront?: string;
+}
+
+/** Stable, machine-readable identifier of a musix.js error */
+export type MusixErrorCode =
+  | "AUTHENTICATION_FAILED"
+  | "NOT_FOUND"
+  | "RATE_LIMITED"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "SERVICE_ERROR"
+  | "QUOTA_EXCEEDED"
+  | "INVALID_INPUT"
+  | "PREMIUM_REQUIRED"
+  | "NO_ACTIVE_DEVICE"
+  | "UNSUPPORTED_OPERATION"
+  | "MISSING_SCOPE";
+
+/** Context shared by every musix.js error */
+export interface MusixErrorOptions {
+  /** Service that raised the error */
+  service?: MusicService;
+  /** HTTP status of the failed response */
+  status?: number;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/** Serialized form of a musix.js error, as returned by toJSON */
+export interface MusixErrorJSON {
+  name: string;
+  code: MusixErrorCode;
+  message: string;
+  retryable: boolean;
+  service?: MusicService;
+  status?: number;
+  /** Fields specific to the error class, e.g. retryAfter of RateLimitError */
+  details?: Record<string, unknown>;
+  /** Serialized cause: a MusixErrorJSON, the name and message of an Error, or a string */
+  cause?: MusixErrorJSON | { name: string; message: string } | string;
+}
+
+/**
+ * Support level of an optional adapter feature.
+ * "deprecated" means the service still serves the feature but has announced
+ * its removal (e.g. Spotify restricted it for new apps), so calls may fail.
+ */
+export type FeatureSupport = boolean | "deprecated";
+
+/** Maximum number of IDs accepted by a single batch lookup */
+export interface BatchIdLimits {
+  tracks: number;
+  albums: number;
+  artists: number;
+}
+
+/** Options for bulk lookups of any number of IDs */
+export interface BulkLookupOptions extends CallOptions {
+  /** Maximum number of batch requests in flight. Defaults to 4 */
+  concurrency?: number;
+}
+
+/** Result of a bulk lookup */
+export interface BulkLookupResult<T> {
+  /** One entry per requested ID, in input order; null where the ID was not found */
+  items: Array<T | null>;
+  /** Requested IDs that were not found, without duplicates */
+  missingIds: string[];
+}
+
+/** Catalog resources whose responses can be cached */
+export type CacheResourceType = "track" | "album" | "artist" | "playlist";
+
+/** Cached response of one method call */
+export interface CacheEntry {
+  value: unknown;
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+}
+
+/**
+ * Cached responses of one resource, keyed by method and arguments.
+ * Grouping by resource lets a single delete invalidate every cached page.
+ */
+export type CacheRecord = Record<string, CacheEntry>;
+
+/** Key-value storage of a response cache, keyed by service, resource type and ID */
+export interface CacheStore {
+  get(key: string): Promise<CacheRecord | undefined>;
+  set(key: string, record: CacheRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** Response cache configuration */
+export interface CacheOptions {
+  /** Storage of cached responses. Defaults to an in-memory LRU store */
+  store?: CacheStore;
+  /**
+   * Time to live per resource type in milliseconds.
+   * Defaults to 24 hours for tracks, albums and artists and 5 minutes for playlists
+   */
+  ttlMs?: Partial<Record<CacheResourceType, number>>;
+}
+
+/** Explicit invalidation of a response cache */
+export interface CacheControl {
+  /** Drops every cached response of a resource, e.g. after editing a playlist */
+  invalidate(resourceType: CacheResourceType, id: string): Promise<void>;
+  /** Drops every cached response */
+  invalidateAll(): Promise<void>;
+}
+
+/** Describes which optional features an adapter supports */
+export interface AdapterCapabilities {
+  playback: FeatureSupport;
+  recommendations: FeatureSupport;
+  relatedArtists: FeatureSupport;
+  collaborativePlaylists: FeatureSupport;
+  userProfile: FeatureSupport;
+  followedArtists: FeatureSupport;
+  listeningHistory: FeatureSupport;
+  newReleases: FeatureSupport;
+  podcasts: FeatureSupport;
+  audiobooks: FeatureSupport;
+  maxBatchIds: BatchIdLimits;
+  /** Largest offset search accepts, when the service caps it; iterators stop there */
+  maxSearchOffset?: number;
+}
+
+/** Optional features that can be checked with `supports()` */
+export type AdapterFeature = Exclude<
+  keyof AdapterCapabilities,
+  "maxBatchIds" | "maxSearchOffset"
+>;
+
+/** Playback control methods (requires Premium on Spotify) */
+export interface PlaybackControl {
+  play(options?: PlayOptions, callOptions?: CallOptions): Promise<void>;
+  pause(callOptions?: CallOptions): Promise<void>;
+  skipToNext(callOptions?: CallOptions): Promise<void>;
+  skipToPrevious(callOptions?: CallOptions): Promise<void>;
+  seek(positionMs: number, callOptions?: CallOptions): Promise<void>;
+  getPlaybackState(callOptions?: CallOptions): Promise<PlaybackState | null>;
+  getAvailableDevices(callOptions?: CallOptions): Promise<Device[]>;
+  transferPlayback(
+    deviceId: string,
+    play?: boolean,
+    callOptions?: CallOptions,
+  ): Promise<void>;
+  setVolume(percent: number, callOptions?: CallOptions): Promise<void>;
+  setShuffle(state: boolean, callOptions?: CallOptions): Promise<void>;
+  setRepeat(state: RepeatMode, callOptions?: CallOptions): Promise<void>;
+  getQueue(callOptions?: CallOptions): Promise<QueueState>;
+  addToQueue(trackId: string, callOptions?: CallOptions): Promise<void>;
+}
+
+/** Track recommendation methods */
+export interface RecommendationProvider {
+  getRecommendations(
+    seeds: RecommendationSeeds,
+    options?: RecommendationOptions,
+    callOptions?: CallOptions,
+  ): Promise<Track[]>;
+}
+
+/** Related artist lookup methods */
+export interface RelatedArtistsProvider {
+  getRelatedArtists(
+    artistId: string,
+    callOptions?: CallOptions,
+  ): Promise<Artist[]>;
+}
+
+/** Playlist management methods */
+export interface PlaylistManagement {
+  createPlaylist(
+    name: string,
+    options?: CreatePlaylistOptions,
+    callOptions?: CallOptions,
+  ): Promise<Playlist>;
+  updatePlaylistDetails(
+    playlistId: string,
+    details: PlaylistDetails,
+    callOptions?: CallOptions,
+  ): Promise<void>;
+  addTracksToPlaylist(
+    playlistId: string,
+    trackIds: string[],
+    callOptions?: CallOptions,
+  ): Promise<void>;
+  removeTracksFromPlaylist(
+    playlistId: string,
+    trackIds: string[],
+    callOptions?: CallOptions,
+  ): Promise<void>;
+}
+
+/** Current user profile methods */
+export interface UserProfileProvider {
+  getCurrentUser(callOptions?: CallOptions): Promise<CurrentUser>;
+}
+
+/** Followed artist methods */
+export interface ArtistFollowing {
+  getFollowedArtists(
+    options?: CursorPaginationOptions,
+    callOptions?: CallOptions,
+  ): Promise<CursorPaginatedResult<Artist>>;
+  /** Iterates over every followed artist (cursor-paginated, offset is not supported) */
+  iterateFollowedArtists(
+    options?: Pick<IterateOptions, "pageSize" | "signal" | "timeoutMs">,
+  ): AsyncIterable<Artist>;
+  followArtist(id: string, callOptions?: CallOptions): Promise<void>;
+  unfollowArtist(id: string, callOptions?: CallOptions): Promise<void>;
+}
+
+/** Listening history methods */
+export interface ListeningHistoryProvider {
+  getRecentlyPlayed(
+    options?: RecentlyPlayedOptions,
+    callOptions?: CallOptions,
+  ): Promise<CursorPaginatedResult<RecentlyPlayedItem>>;
+  getTopTracks(
+    options?: TopItemsOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Track>>;
+  getTopArtists(
+    options?: TopItemsOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Artist>>;
+}
+
+/** New release browsing methods */
+export interface NewReleasesProvider {
+  getNewReleases(
+    options?: SearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Album>>;
+  iterateNewReleases(options?: IterateOptions): AsyncIterable<Album>;
+}
+
+/** Podcast show and episode lookups in the catalog */
+export interface PodcastProvider {
+  getShow(
+    id: string,
+    options?: MarketOptions,
+    callOptions?: CallOptions,
+  ): Promise<Show>;
+  getShowEpisodes(
+    showId: string,
+    options?: MarketSearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Episode>>;
+  getEpisode(
+    id: string,
+    options?: MarketOptions,
+    callOptions?: CallOptions,
+  ): Promise<Episode>;
+  searchShows(
+    query: string,
+    options?: MarketSearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<SearchResult<Show>>;
+  searchEpisodes(
+    query: string,
+    options?: MarketSearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<SearchResult<Episode>>;
+  iterateShowEpisodes(
+    showId: string,
+    options?: MarketIterateOptions,
+  ): AsyncIterable<Episode>;
+}
+
+/** Podcast shows saved in the user's library */
+export interface ShowLibrary {
+  getSavedShows(
+    options?: SearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Show>>;
+  saveShow(id: string, callOptions?: CallOptions): Promise<void>;
+  removeSavedShow(id: string, callOptions?: CallOptions): Promise<void>;
+  iterateSavedShows(options?: IterateOptions): AsyncIterable<Show>;
+}
+
+/** Audiobook and chapter lookups in the catalog */
+export interface AudiobookProvider {
+  getAudiobook(
+    id: string,
+    options?: MarketOptions,
+    callOptions?: CallOptions,
+  ): Promise<Audiobook>;
+  getAudiobookChapters(
+    audiobookId: string,
+    options?: MarketSearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Chapter>>;
+  getChapter(
+    id: string,
+    options?: MarketOptions,
+    callOptions?: CallOptions,
+  ): Promise<Chapter>;
+  searchAudiobooks(
+    query: string,
+    options?: MarketSearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<SearchResult<Audiobook>>;
+  iterateAudiobookChapters(
+    audiobookId: string,
+    options?: MarketIterateOptions,
+  ): AsyncIterable<Chapter>;
+}
+
+/** Audiobooks saved in the user's library */
+export interface AudiobookLibrary {
+  getSavedAudiobooks(
+    options?: SearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Audiobook>>;
+  saveAudiobook(id: string, callOptions?: CallOptions): Promise<void>;
+  removeSavedAudiobook(id: string, callOptions?: CallOptions): Promise<void>;
+  iterateSavedAudiobooks(options?: IterateOptions): AsyncIterable<Audiobook>;
+}
+
+/** Methods made available by each optional feature */
+export interface AdapterFeatureMap {
+  playback: PlaybackControl;
+  recommendations: RecommendationProvider;
+  relatedArtists: RelatedArtistsProvider;
+  collaborativePlaylists: PlaylistManagement;
+  userProfile: UserProfileProvider;
+  followedArtists: ArtistFollowing;
+  listeningHistory: ListeningHistoryProvider;
+  newReleases: NewReleasesProvider;
+  podcasts: PodcastProvider;
+  audiobooks: AudiobookProvider;
+}
+
+/**
+ * Service-neutral adapter interface for catalog access.
+ * Application code can depend on this contract and swap services
+ * without touching call sites.
+ */
+export interface MusicAdapter {
+  /** Discriminator identifying the backing music service */
+  readonly service: MusicService;
+  /** Optional features supported by this adapter */
+  readonly capabilities: AdapterCapabilities;
+  /**
+   * Catalog region fixed by the adapter config, such as the Apple Music
+   * storefront. Responses differ by region, so caches keep them apart
+   */
+  readonly region?: string;
+
+  /**
+   * Checks whether an optional feature is available, narrowing the adapter
+   * type to include the feature's methods. Deprecated features count as supported.
+   */
+  supports<F extends AdapterFeature>(feature: F): this is AdapterFeatureMap[F];
+
+  getTrack(id: string, callOptions?: CallOptions): Promise<Track>;
+  getTracks(ids: string[], callOptions?: CallOptions): Promise<Track[]>;
   searchTracks(
     query: string,
     options?: SearchOptions,
+    callOptions?: CallOptions,
   ): Promise<SearchResult<Track>>;
   searchAlbums(
     query: string,
     options?: SearchOptions,
+    callOptions?: CallOptions,
   ): Promise<SearchResult<Album>>;
   searchArtists(
     query: string,
     options?: SearchOptions,
+    callOptions?: CallOptions,
   ): Promise<SearchResult<Artist>>;
   searchPlaylists(
     query: string,
     options?: SearchOptions,
+    callOptions?: CallOptions,
   ): Promise<SearchResult<SimplifiedPlaylist>>;
-  getAlbum(id: string): Promise<Album>;
-  getAlbums(ids: string[]): Promise<Album[]>;
-  getArtist(id: string): Promise<Artist>;
-  getArtists(ids: string[]): Promise<Artist[]>;
+  getAlbum(id: string, callOptions?: CallOptions): Promise<Album>;
+  getAlbums(ids: string[], callOptions?: CallOptions): Promise<Album[]>;
+  getArtist(id: string, callOptions?: CallOptions): Promise<Artist>;
+  getArtists(ids: string[], callOptions?: CallOptions): Promise<Artist[]>;
   getArtistAlbums(
     artistId: string,
-    options?: SearchOptions,
+    options?: ArtistAlbumsOptions,
+    callOptions?: CallOptions,
   ): Promise<PaginatedResult<Album>>;
-  getArtistTopTracks(artistId: string, market: string): Promise<Track[]>;
+  getArtistTopTracks(
+    artistId: string,
+    market: string,
+    callOptions?: CallOptions,
+  ): Promise<Track[]>;
   getAlbumTracks(
     albumId: string,
     options?: SearchOptions,
+    callOptions?: CallOptions,
   ): Promise<PaginatedResult<Track>>;
-  getPlaylist(id: string): Promise<Playlist>;
+  getPlaylist(id: string, callOptions?: CallOptions): Promise<Playlist>;
   getPlaylistTracks(
     playlistId: string,
     options?: SearchOptions,
+    callOptions?: CallOptions,
   ): Promise<PaginatedResult<Track>>;
-}
 
-/** Extended adapter with user authentication (PKCE Flow) */
-export interface SpotifyUserAdapter extends SpotifyAdapter {
-  // User profile
-  getCurrentUser(): Promise<CurrentUser>;
-
-  // Playback control (requires Premium)
-  play(options?: PlayOptions): Promise<void>;
-  pause(): Promise<void>;
-  skipToNext(): Promise<void>;
-  skipToPrevious(): Promise<void>;
-  seek(positionMs: number): Promise<void>;
-  getPlaybackState(): Promise<PlaybackState | null>;
-  getAvailableDevices(): Promise<Device[]>;
-  transferPlayback(deviceId: string, play?: boolean): Promise<void>;
-  setVolume(percent: number): Promise<void>;
-  setShuffle(state: boolean): Promise<void>;
-  setRepeat(state: RepeatMode): Promise<void>;
-  getQueue(): Promise<QueueState>;
-  addToQueue(trackId: string): Promise<void>;
+  // Bulk variants: IDs are split into batches of at most maxBatchIds
+  getTracksBulk(
+    ids: string[],
+    options?: BulkLookupOptions,
+  ): Promise<BulkLookupResult<Track>>;
+  getAlbumsBulk(
+    ids: string[],
+    options?: BulkLookupOptions,
+  ): Promise<BulkLookupResult<Album>>;
+  getArtistsBulk(
+    ids: string[],
+    options?: BulkLookupOptions,
+  ): Promise<BulkLookupResult<Artist>>;
 
+  // Iterable variants: pages are fetched lazily until hasNext is false
+  iterateSearchTracks(
+    query: string,
+    options?: IterateOptions,
+  ): AsyncIterable<Track>;
+  iterateSearchAlbums(
+    query: string,
+    options?: IterateOptions,
+  ): AsyncIterable<Album>;
+  iterateSearchArtists(
+    query: string,
+    options?: IterateOptions,
+  ): AsyncIterable<Artist>;
+  iterateSearchPlaylists(
+    query: string,
+    options?: IterateOptions,
+  ): AsyncIterable<SimplifiedPlaylist>;
+  iterateArtistAlbums(
+    artistId: string,
+    options?: ArtistAlbumsIterateOptions,
+  ): AsyncIterable<Album>;
+  iterateAlbumTracks(
+    albumId: string,
+    options?: IterateOptions,
+  ): AsyncIterable<Track>;
+  iteratePlaylistTracks(
+    playlistId: string,
+    options?: IterateOptions,
+  ): AsyncIterable<Track>;
+}
+
+/** Service-neutral adapter interface with user authentication */
+export interface MusicUserAdapter extends MusicAdapter, PlaylistManagement {
   // User library - Tracks
-  getSavedTracks(options?: SearchOptions): Promise<PaginatedResult<Track>>;
-  saveTrack(id: string): Promise<void>;
-  removeSavedTrack(id: string): Promise<void>;
+  getSavedTracks(
+    options?: SearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Track>>;
+  saveTrack(id: string, callOptions?: CallOptions): Promise<void>;
+  removeSavedTrack(id: string, callOptions?: CallOptions): Promise<void>;
 
   // User library - Albums
-  getSavedAlbums(options?: SearchOptions): Promise<PaginatedResult<Album>>;
-  saveAlbum(id: string): Promise<void>;
-  removeSavedAlbum(id: string): Promise<void>;
-
-  // User library - Artists
-  getFollowedArtists(options?: SearchOptions): Promise<PaginatedResult<Artist>>;
-  followArtist(id: string): Promise<void>;
-  unfollowArtist(id: string): Promise<void>;
+  getSavedAlbums(
+    options?: SearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedResult<Album>>;
+  saveAlbum(id: string, callOptions?: CallOptions): Promise<void>;
+  removeSavedAlbum(id: string, callOptions?: CallOptions): Promise<void>;
 
   // User library - Playlists
   getUserPlaylists(
     options?: SearchOptions,
+    callOptions?: CallOptions,
   ): Promise<PaginatedResult<SimplifiedPlaylist>>;
 
-  // Discovery
-  getRecommendations(
-    seeds: RecommendationSeeds,
-    options?: RecommendationOptions,
-  ): Promise<Track[]>;
-  getRelatedArtists(artistId: string): Promise<Artist[]>;
-  getNewReleases(options?: SearchOptions): Promise<PaginatedResult<Album>>;
-  getRecentlyPlayed(
-    options?: SearchOptions,
-  ): Promise<PaginatedResult<RecentlyPlayedItem>>;
-  getTopTracks(options?: TopItemsOptions): Promise<PaginatedResult<Track>>;
-  getTopArtists(options?: TopItemsOptions): Promise<PaginatedResult<Artist>>;
+  // Iterable variants: pages are fetched lazily until hasNext is false
+  iterateSavedTracks(options?: IterateOptions): AsyncIterable<Track>;
+  iterateSavedAlbums(options?: IterateOptions): AsyncIterable<Album>;
+  iterateUserPlaylists(
+    options?: IterateOptions,
+  ): AsyncIterable<SimplifiedPlaylist>;
+}
 
-  // Playlist management
-  createPlaylist(
-    name: string,
-    options?: CreatePlaylistOptions,
-  ): Promise<Playlist>;
-  updatePlaylistDetails(
-    playlistId: string,
-    details: PlaylistDetails,
-  ): Promise<void>;
-  addTracksToPlaylist(playlistId: string, trackIds: string[]): Promise<void>;
-  removeTracksFromPlaylist(
-    playlistId: string,
-    trackIds: string[],
-  ): Promise<void>;
-  getPlaylistTracks(
-    playlistId: string,
-    options?: SearchOptions,
-  ): Promise<PaginatedResult<Track>>;
+/** Spotify adapter interface */
+export interface SpotifyAdapter
+  extends MusicAdapter,
+    PodcastProvider,
+    AudiobookProvider {
+  readonly service: "spotify";
+}
+
+/** Extended adapter with user authentication (PKCE Flow) */
+export interface SpotifyUserAdapter
+  extends SpotifyAdapter,
+    MusicUserAdapter,
+    UserProfileProvider,
+    PlaybackControl,
+    ArtistFollowing,
+    RecommendationProvider,
+    RelatedArtistsProvider,
+    NewReleasesProvider,
+    ListeningHistoryProvider,
+    ShowLibrary,
+    AudiobookLibrary {
+  readonly service: "spotify";
+}
+
+/** Apple Music adapter interface */
+export interface AppleMusicAdapter extends MusicAdapter {
+  readonly service: "apple-music";
+}
+
+/** Apple Music adapter with user authentication (Music User Token) */
+export interface AppleMusicUserAdapter
+  extends AppleMusicAdapter,
+    MusicUserAdapter {
+  readonly service: "apple-music";
+}
+
+/** YouTube Music adapter interface (YouTube Data API v3) */
+export interface YouTubeMusicAdapter extends MusicAdapter {
+  readonly service: "youtube-music";
+
+  /**
+   * Returns the quota units consumed by this adapter for the current day.
+   */
+  getQuotaUsage(): QuotaUsage;
 }
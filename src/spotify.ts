@@ -1,2 +1,4 @@
 // Spotify subpath entry point
 export * from "./adapters/spotify/index.js";
+export * from "./adapters/spotify/auth.js";
+export * from "./adapters/spotify/scopes.js";
@@ -0,0 +1,2 @@
+// YouTube Music subpath entry point
+export * from "./adapters/youtube-music/index.js";
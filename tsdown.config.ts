@@ -1,7 +1,12 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
-  entry: ["src/index.ts", "src/spotify.ts"],
+  entry: [
+    "src/index.ts",
+    "src/spotify.ts",
+    "src/apple-music.ts",
+    "src/youtube-music.ts",
+  ],
   format: ["esm", "cjs"],
   dts: true,
   clean: true,